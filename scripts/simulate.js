@@ -0,0 +1,59 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import {
+  HEADLESS_USAGE,
+  diagnosticsToCsv,
+  findPremadeSystem,
+  parseHeadlessArguments,
+  parseSystem,
+  runHeadless,
+  trajectoriesToCsv
+} from '../src/Headless.js';
+import { ALL_PREMADE_SYSTEMS } from '../src/PremadeData.js';
+
+/**
+ * Headless simulation runner: `npm run simulate -- <system> [options]`
+ * Bundled for Node by `vite build --ssr`; all simulation logic lives in src/Headless.ts.
+ */
+function main(argv) {
+  const args = parseHeadlessArguments(argv);
+
+  if (args.list) {
+    for (const system of ALL_PREMADE_SYSTEMS) {
+      console.log(`${system.name}${system.description ? ` - ${system.description}` : ''}`);
+    }
+    return;
+  }
+  if (args.help || !args.source) {
+    console.log(HEADLESS_USAGE);
+    return;
+  }
+
+  const data = existsSync(args.source)
+    ? JSON.parse(readFileSync(args.source, 'utf8'))
+    : findPremadeSystem(args.source);
+  if (!data) {
+    throw new Error(`No system file or premade system named "${args.source}" (see --list)`);
+  }
+
+  const result = runHeadless(parseSystem(data), args.options);
+
+  if (args.format === 'csv') {
+    writeFileSync(`${args.output}-trajectories.csv`, trajectoriesToCsv(result));
+    writeFileSync(`${args.output}-diagnostics.csv`, diagnosticsToCsv(result));
+    console.log(`Wrote ${args.output}-trajectories.csv and ${args.output}-diagnostics.csv`);
+  } else {
+    const path = args.output.endsWith('.json') ? args.output : `${args.output}.json`;
+    writeFileSync(path, JSON.stringify(result, null, 2));
+    console.log(`Wrote ${path}`);
+  }
+
+  const final = result.diagnostics[result.diagnostics.length - 1];
+  console.log(`${result.system}: ${final.step} steps to t = ${final.time}, energy drift ${final.drift.energy.toExponential(2)}`);
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
@@ -1,282 +1,631 @@
-import * as THREE from 'three';
-import type { CelestialBody } from './Body.js';
+import type { SimulationState } from './SimulationState.js';
+import { softenedForceFactor, SofteningKernel, SPLINE_SUPPORT_FACTOR } from './Softening.js';
+import { Vec3 } from './Vec3.js';
 
 /**
- * Represents a node in the Barnes-Hut octree
+ * How many terms of the multipole expansion a distant node contributes
  */
-class BHNode {
-  centerOfMass: THREE.Vector3;
-  totalMass: number;
-  body: CelestialBody | null;
-  children: (BHNode | null)[];
-  bounds: { min: THREE.Vector3; max: THREE.Vector3 };
-  isEmpty: boolean;
-
-  constructor(bounds: { min: THREE.Vector3; max: THREE.Vector3 }) {
-    this.centerOfMass = new THREE.Vector3();
-    this.totalMass = 0;
-    this.body = null;
-    this.children = new Array(8).fill(null);
-    this.bounds = bounds;
-    this.isEmpty = true;
+export type MultipoleOrder = 'monopole' | 'quadrupole';
+
+export const MultipoleOrder = {
+  Monopole: 'monopole' as MultipoleOrder,
+  Quadrupole: 'quadrupole' as MultipoleOrder
+} as const;
+
+/**
+ * Options for selecting an expansion order in the UI (label -> order)
+ */
+export const MULTIPOLE_ORDER_OPTIONS: Record<string, MultipoleOrder> = {
+  'Monopole': MultipoleOrder.Monopole,
+  'Quadrupole': MultipoleOrder.Quadrupole
+};
+
+/**
+ * Axis-aligned box covered by the tree
+ */
+export interface Bounds {
+  min: Vec3;
+  max: Vec3;
+}
+
+// Special values of nodeBody (values >= 0 are the index of the leaf's body)
+const EMPTY_NODE = -1;
+const INTERNAL_NODE = -2;
+
+// Marks an unused child slot and the end of a coincident-body chain
+const NONE = -1;
+
+/**
+ * Barnes-Hut tree for efficient N-body force calculations
+ * Nodes live in a flat pool of typed arrays that is reused by every build(), so
+ * rebuilding the tree each physics step allocates nothing once the pool is large enough.
+ * Bodies are read directly from the SimulationState and referred to by index.
+ */
+export class BarnesHutTree {
+  private theta: number; // Opening angle threshold (typically 0.5)
+  private softeningLength: number;
+  private softeningKernel: SofteningKernel;
+  private order: MultipoleOrder;
+
+  // State of the current build
+  private state: SimulationState;
+  private bodyNext: Int32Array; // Next body at exactly the same position (coincident chain)
+
+  // Node pool: node i uses entry i of each array (8 entries of children, 6 of quadrupole)
+  private nodeCount: number;
+  private nodeCapacity: number;
+  private boundsMin: Float64Array; // x, y, z per node
+  private boundsMax: Float64Array; // x, y, z per node
+  private nodeSize: Float64Array; // Largest extent of the node's bounds
+  private nodeMass: Float64Array;
+  private centerOfMass: Float64Array; // x, y, z per node
+  private centerOfMassVelocity: Float64Array; // x, y, z per node, for time step criteria
+  private quadrupole: Float64Array; // Traceless moment about the center of mass: xx, yy, zz, xy, xz, yz
+  private children: Int32Array;
+  private nodeBody: Int32Array;
+  private stack: Int32Array; // Traversal stack for force calculation
+  private scratch: Vec3; // Reused result of quadrupoleAcceleration
+
+  constructor(
+    state: SimulationState,
+    bounds: Bounds,
+    theta: number = 0.5,
+    softeningLength: number = 0.1,
+    softeningKernel: SofteningKernel = SofteningKernel.Spline,
+    order: MultipoleOrder = MultipoleOrder.Quadrupole
+  ) {
+    this.theta = theta;
+    this.softeningLength = softeningLength;
+    this.softeningKernel = softeningKernel;
+    this.order = order;
+
+    this.state = state;
+    this.bodyNext = new Int32Array(0);
+
+    this.nodeCount = 0;
+    this.nodeCapacity = 0;
+    this.boundsMin = new Float64Array(0);
+    this.boundsMax = new Float64Array(0);
+    this.nodeSize = new Float64Array(0);
+    this.nodeMass = new Float64Array(0);
+    this.centerOfMass = new Float64Array(0);
+    this.centerOfMassVelocity = new Float64Array(0);
+    this.quadrupole = new Float64Array(0);
+    this.children = new Int32Array(0);
+    this.nodeBody = new Int32Array(0);
+    this.stack = new Int32Array(0);
+    this.scratch = new Vec3();
+
+    this.build(state, bounds);
   }
 
   /**
-   * Get the center of the bounding box
+   * Change the approximation parameters used by later builds and force calculations
    */
-  getCenter(): THREE.Vector3 {
-    return new THREE.Vector3(
-      (this.bounds.min.x + this.bounds.max.x) / 2,
-      (this.bounds.min.y + this.bounds.max.y) / 2,
-      (this.bounds.min.z + this.bounds.max.z) / 2
-    );
+  setParameters(
+    theta: number,
+    softeningLength: number,
+    softeningKernel: SofteningKernel,
+    order: MultipoleOrder
+  ): void {
+    this.theta = theta;
+    this.softeningLength = softeningLength;
+    this.softeningKernel = softeningKernel;
+    this.order = order;
   }
 
   /**
-   * Get the size of the bounding box
+   * Rebuild the tree for the current positions, reusing the existing node pool
    */
-  getSize(): number {
-    const dx = this.bounds.max.x - this.bounds.min.x;
-    const dy = this.bounds.max.y - this.bounds.min.y;
-    const dz = this.bounds.max.z - this.bounds.min.z;
-    return Math.max(dx, dy, dz);
+  build(state: SimulationState, bounds: Bounds): void {
+    this.state = state;
+    if (this.bodyNext.length < state.count) {
+      this.bodyNext = new Int32Array(Math.max(state.count, 2 * this.bodyNext.length));
+    }
+    this.bodyNext.fill(NONE, 0, state.count);
+
+    // Roughly two nodes per body are typical; the pool grows if more are needed
+    this.ensureNodeCapacity(2 * state.count + 1);
+    this.nodeCount = 0;
+    this.allocateNode(
+      bounds.min.x, bounds.min.y, bounds.min.z,
+      bounds.max.x, bounds.max.y, bounds.max.z
+    );
+
+    for (let i = 0; i < state.count; i++) {
+      this.insert(i);
+    }
+    this.updateCenterOfMass();
   }
 
   /**
-   * Check if a point is within the bounds
+   * Number of nodes in the current tree
    */
-  contains(position: THREE.Vector3): boolean {
-    return (
-      position.x >= this.bounds.min.x && position.x <= this.bounds.max.x &&
-      position.y >= this.bounds.min.y && position.y <= this.bounds.max.y &&
-      position.z >= this.bounds.min.z && position.z <= this.bounds.max.z
-    );
+  getNodeCount(): number {
+    return this.nodeCount;
   }
 
   /**
-   * Get the octant index for a position (0-7)
+   * Grow the node pool to hold at least `count` nodes, keeping existing nodes
    */
-  getOctant(position: THREE.Vector3): number {
-    const center = this.getCenter();
-    let index = 0;
-    if (position.x >= center.x) index |= 1;
-    if (position.y >= center.y) index |= 2;
-    if (position.z >= center.z) index |= 4;
-    return index;
+  private ensureNodeCapacity(count: number): void {
+    if (count <= this.nodeCapacity) return;
+
+    const capacity = Math.max(count, 2 * this.nodeCapacity, 64);
+    const grow = <T extends Float64Array | Int32Array>(array: T, stride: number, create: (n: number) => T): T => {
+      const next = create(capacity * stride);
+      next.set(array);
+      return next;
+    };
+    const float64 = (n: number) => new Float64Array(n);
+    const int32 = (n: number) => new Int32Array(n);
+
+    this.boundsMin = grow(this.boundsMin, 3, float64);
+    this.boundsMax = grow(this.boundsMax, 3, float64);
+    this.nodeSize = grow(this.nodeSize, 1, float64);
+    this.nodeMass = grow(this.nodeMass, 1, float64);
+    this.centerOfMass = grow(this.centerOfMass, 3, float64);
+    this.centerOfMassVelocity = grow(this.centerOfMassVelocity, 3, float64);
+    this.quadrupole = grow(this.quadrupole, 6, float64);
+    this.children = grow(this.children, 8, int32);
+    this.nodeBody = grow(this.nodeBody, 1, int32);
+    this.stack = new Int32Array(capacity);
+    this.nodeCapacity = capacity;
   }
 
   /**
-   * Create a child node for a specific octant
+   * Take an empty node with the given bounds from the pool
    */
-  createChild(octant: number): BHNode {
-    const center = this.getCenter();
-
-    const min = new THREE.Vector3(
-      (octant & 1) ? center.x : this.bounds.min.x,
-      (octant & 2) ? center.y : this.bounds.min.y,
-      (octant & 4) ? center.z : this.bounds.min.z
-    );
-
-    const max = new THREE.Vector3(
-      (octant & 1) ? this.bounds.max.x : center.x,
-      (octant & 2) ? this.bounds.max.y : center.y,
-      (octant & 4) ? this.bounds.max.z : center.z
-    );
+  private allocateNode(
+    minX: number, minY: number, minZ: number,
+    maxX: number, maxY: number, maxZ: number
+  ): number {
+    if (this.nodeCount === this.nodeCapacity) {
+      this.ensureNodeCapacity(this.nodeCount + 1);
+    }
 
-    return new BHNode({ min, max });
+    const node = this.nodeCount++;
+    this.boundsMin[3 * node] = minX;
+    this.boundsMin[3 * node + 1] = minY;
+    this.boundsMin[3 * node + 2] = minZ;
+    this.boundsMax[3 * node] = maxX;
+    this.boundsMax[3 * node + 1] = maxY;
+    this.boundsMax[3 * node + 2] = maxZ;
+    this.nodeSize[node] = Math.max(maxX - minX, maxY - minY, maxZ - minZ);
+    this.nodeMass[node] = 0;
+    this.nodeBody[node] = EMPTY_NODE;
+    this.children.fill(NONE, 8 * node, 8 * node + 8);
+    return node;
   }
-}
 
-/**
- * Barnes-Hut tree for efficient N-body force calculations
- */
-export class BarnesHutTree {
-  private root: BHNode;
-  private theta: number; // Opening angle threshold (typically 0.5)
-
-  constructor(bodies: CelestialBody[], bounds: { min: THREE.Vector3; max: THREE.Vector3 }, theta: number = 0.5) {
-    this.theta = theta;
-    this.root = new BHNode(bounds);
-    this.buildTree(bodies);
+  /**
+   * Get the child of a node containing a point, creating it if needed
+   */
+  private childFor(node: number, x: number, y: number, z: number): number {
+    const b = 3 * node;
+    const centerX = (this.boundsMin[b] + this.boundsMax[b]) / 2;
+    const centerY = (this.boundsMin[b + 1] + this.boundsMax[b + 1]) / 2;
+    const centerZ = (this.boundsMin[b + 2] + this.boundsMax[b + 2]) / 2;
+
+    let octant = 0;
+    if (x >= centerX) octant |= 1;
+    if (y >= centerY) octant |= 2;
+    if (z >= centerZ) octant |= 4;
+
+    const slot = 8 * node + octant;
+    let child = this.children[slot];
+    if (child === NONE) {
+      child = this.allocateNode(
+        (octant & 1) ? centerX : this.boundsMin[b],
+        (octant & 2) ? centerY : this.boundsMin[b + 1],
+        (octant & 4) ? centerZ : this.boundsMin[b + 2],
+        (octant & 1) ? this.boundsMax[b] : centerX,
+        (octant & 2) ? this.boundsMax[b + 1] : centerY,
+        (octant & 4) ? this.boundsMax[b + 2] : centerZ
+      );
+      // The pool may have been reallocated, so write through the current array
+      this.children[slot] = child;
+    }
+    return child;
   }
 
   /**
-   * Build the Barnes-Hut tree from bodies
+   * Whether a point lies within the root node's bounds
    */
-  private buildTree(bodies: CelestialBody[]): void {
-    for (const body of bodies) {
-      this.insert(body, this.root);
-    }
-    this.updateCenterOfMass(this.root);
+  contains(x: number, y: number, z: number): boolean {
+    return x >= this.boundsMin[0] && x <= this.boundsMax[0] &&
+      y >= this.boundsMin[1] && y <= this.boundsMax[1] &&
+      z >= this.boundsMin[2] && z <= this.boundsMax[2];
   }
 
   /**
    * Insert a body into the tree
    */
-  private insert(body: CelestialBody, node: BHNode): void {
-    if (!node.contains(body.position)) {
-      return; // Body is outside this node's bounds
-    }
-
-    if (node.isEmpty) {
-      // Empty node: insert body here
-      node.body = body;
-      node.isEmpty = false;
-      node.centerOfMass.copy(body.position);
-      node.totalMass = body.mass;
-      return;
+  private insert(bodyIndex: number): void {
+    const positions = this.state.positions;
+    const x = positions[3 * bodyIndex];
+    const y = positions[3 * bodyIndex + 1];
+    const z = positions[3 * bodyIndex + 2];
+
+    if (!this.contains(x, y, z)) {
+      return; // Body is outside the root's bounds
     }
 
-    if (node.body !== null) {
-      // Node has a body: need to subdivide
-      const existingBody = node.body;
-      node.body = null;
+    let node = 0;
+    for (;;) {
+      const existing = this.nodeBody[node];
 
-      // Insert existing body into appropriate child
-      const existingOctant = node.getOctant(existingBody.position);
-      if (!node.children[existingOctant]) {
-        node.children[existingOctant] = node.createChild(existingOctant);
+      if (existing === EMPTY_NODE) {
+        // Empty node: insert body here
+        this.nodeBody[node] = bodyIndex;
+        return;
       }
-      this.insert(existingBody, node.children[existingOctant]!);
 
-      // Insert new body into appropriate child
-      const newOctant = node.getOctant(body.position);
-      if (!node.children[newOctant]) {
-        node.children[newOctant] = node.createChild(newOctant);
+      if (existing === INTERNAL_NODE) {
+        node = this.childFor(node, x, y, z);
+        continue;
       }
-      this.insert(body, node.children[newOctant]!);
-    } else {
-      // Internal node: insert into appropriate child
-      const octant = node.getOctant(body.position);
-      if (!node.children[octant]) {
-        node.children[octant] = node.createChild(octant);
+
+      const ex = positions[3 * existing];
+      const ey = positions[3 * existing + 1];
+      const ez = positions[3 * existing + 2];
+      if (ex === x && ey === y && ez === z) {
+        // Coincident bodies can never be separated by subdividing: share the leaf
+        let last = existing;
+        while (this.bodyNext[last] !== NONE) {
+          last = this.bodyNext[last];
+        }
+        this.bodyNext[last] = bodyIndex;
+        return;
       }
-      this.insert(body, node.children[octant]!);
+
+      // Node has a body: subdivide, moving the existing body (and its coincident chain) down
+      this.nodeBody[node] = INTERNAL_NODE;
+      const existingChild = this.childFor(node, ex, ey, ez);
+      this.nodeBody[existingChild] = existing;
+      node = this.childFor(node, x, y, z);
     }
   }
 
   /**
-   * Update center of mass for a node and its children
+   * Update center of mass, its velocity (and quadrupole moment) of every node
+   * Children are always allocated after their parent, so walking the pool backwards
+   * visits each node after all of its children. Leaves have no quadrupole, since
+   * coincident bodies in a leaf share one position.
    */
-  private updateCenterOfMass(node: BHNode): void {
-    if (node.isEmpty) {
-      return;
-    }
+  private updateCenterOfMass(): void {
+    const useQuadrupole = this.order === MultipoleOrder.Quadrupole;
+    const { positions, velocities, masses } = this.state;
+    const velocity = this.centerOfMassVelocity;
+
+    for (let node = this.nodeCount - 1; node >= 0; node--) {
+      const leafBody = this.nodeBody[node];
+      const c = 3 * node;
+
+      if (leafBody === EMPTY_NODE) {
+        continue;
+      }
+
+      if (leafBody !== INTERNAL_NODE) {
+        // Leaf node: center of mass is the body's position
+        let mass = 0;
+        let momentumX = 0;
+        let momentumY = 0;
+        let momentumZ = 0;
+        for (let body = leafBody; body !== NONE; body = this.bodyNext[body]) {
+          mass += masses[body];
+          momentumX += masses[body] * velocities[3 * body];
+          momentumY += masses[body] * velocities[3 * body + 1];
+          momentumZ += masses[body] * velocities[3 * body + 2];
+        }
+        this.nodeMass[node] = mass;
+        velocity[c] = mass > 0 ? momentumX / mass : velocities[3 * leafBody];
+        velocity[c + 1] = mass > 0 ? momentumY / mass : velocities[3 * leafBody + 1];
+        velocity[c + 2] = mass > 0 ? momentumZ / mass : velocities[3 * leafBody + 2];
+        this.centerOfMass[c] = positions[3 * leafBody];
+        this.centerOfMass[c + 1] = positions[3 * leafBody + 1];
+        this.centerOfMass[c + 2] = positions[3 * leafBody + 2];
+        this.quadrupole.fill(0, 6 * node, 6 * node + 6);
+        continue;
+      }
 
-    if (node.body !== null) {
-      // Leaf node: center of mass is the body's position
-      node.centerOfMass.copy(node.body.position);
-      node.totalMass = node.body.mass;
-    } else {
       // Internal node: calculate from children
       let totalMass = 0;
-      const weightedSum = new THREE.Vector3();
-
-      for (const child of node.children) {
-        if (child && !child.isEmpty) {
-          this.updateCenterOfMass(child);
-          totalMass += child.totalMass;
-          weightedSum.add(
-            child.centerOfMass.clone().multiplyScalar(child.totalMass)
-          );
-        }
+      let sumX = 0;
+      let sumY = 0;
+      let sumZ = 0;
+      let momentumX = 0;
+      let momentumY = 0;
+      let momentumZ = 0;
+      for (let k = 0; k < 8; k++) {
+        const child = this.children[8 * node + k];
+        if (child === NONE || this.nodeBody[child] === EMPTY_NODE) continue;
+
+        const m = this.nodeMass[child];
+        totalMass += m;
+        sumX += this.centerOfMass[3 * child] * m;
+        sumY += this.centerOfMass[3 * child + 1] * m;
+        sumZ += this.centerOfMass[3 * child + 2] * m;
+        momentumX += velocity[3 * child] * m;
+        momentumY += velocity[3 * child + 1] * m;
+        momentumZ += velocity[3 * child + 2] * m;
       }
 
       if (totalMass > 0) {
-        node.totalMass = totalMass;
-        node.centerOfMass.copy(weightedSum.divideScalar(totalMass));
+        const inverseMass = 1 / totalMass;
+        this.nodeMass[node] = totalMass;
+        this.centerOfMass[c] = sumX * inverseMass;
+        this.centerOfMass[c + 1] = sumY * inverseMass;
+        this.centerOfMass[c + 2] = sumZ * inverseMass;
+        velocity[c] = momentumX * inverseMass;
+        velocity[c + 1] = momentumY * inverseMass;
+        velocity[c + 2] = momentumZ * inverseMass;
+      }
+
+      if (useQuadrupole) {
+        this.updateQuadrupole(node);
       }
     }
   }
 
   /**
-   * Calculate gravitational force on a body using Barnes-Hut approximation
+   * Combine the children's quadrupole moments about this node's center of mass
+   * Parallel axis theorem: Q = sum of (Q_child + m * (3 d d^T - |d|^2 I)), d = child COM - node COM
+   */
+  private updateQuadrupole(node: number): void {
+    const q = this.quadrupole;
+    const qi = 6 * node;
+    q.fill(0, qi, qi + 6);
+
+    for (let k = 0; k < 8; k++) {
+      const child = this.children[8 * node + k];
+      if (child === NONE || this.nodeBody[child] === EMPTY_NODE) continue;
+
+      const m = this.nodeMass[child];
+      const dx = this.centerOfMass[3 * child] - this.centerOfMass[3 * node];
+      const dy = this.centerOfMass[3 * child + 1] - this.centerOfMass[3 * node + 1];
+      const dz = this.centerOfMass[3 * child + 2] - this.centerOfMass[3 * node + 2];
+      const d2 = dx * dx + dy * dy + dz * dz;
+      const ci = 6 * child;
+
+      q[qi] += q[ci] + m * (3 * dx * dx - d2);
+      q[qi + 1] += q[ci + 1] + m * (3 * dy * dy - d2);
+      q[qi + 2] += q[ci + 2] + m * (3 * dz * dz - d2);
+      q[qi + 3] += q[ci + 3] + m * 3 * dx * dy;
+      q[qi + 4] += q[ci + 4] + m * 3 * dx * dz;
+      q[qi + 5] += q[ci + 5] + m * 3 * dy * dz;
+    }
+  }
+
+  /**
+   * Calculate the gravitational acceleration of body `index` using the Barnes-Hut approximation
+   */
+  calculateAcceleration(index: number, G: number): Vec3 {
+    const out = new Float64Array(3 * (index + 1));
+    this.accumulateAcceleration(index, G, out);
+    return new Vec3(out[3 * index], out[3 * index + 1], out[3 * index + 2]);
+  }
+
+  /**
+   * Add the gravitational acceleration of body `index` to entries 3 * index.. of `out`
    */
-  calculateForce(body: CelestialBody, G: number): THREE.Vector3 {
-    const force = new THREE.Vector3();
-    this.calculateForceRecursive(body, this.root, G, force);
-    return force;
+  accumulateAcceleration(index: number, G: number, out: Float64Array): void {
+    const positions = this.state.positions;
+    this.accumulateAccelerationAt(
+      positions[3 * index], positions[3 * index + 1], positions[3 * index + 2], index, G, out, 3 * index
+    );
   }
 
   /**
-   * Recursive force calculation
+   * Add the gravitational acceleration at point (x, y, z) to entries offset..offset + 2 of `out`
+   * Used directly for massless test particles. Walks the tree depth first with an explicit
+   * stack, visiting children in octant order.
+   * @param skip Body index whose own leaf is ignored (-1 for none)
    */
-  private calculateForceRecursive(
-    body: CelestialBody,
-    node: BHNode,
+  accumulateAccelerationAt(
+    x: number,
+    y: number,
+    z: number,
+    skip: number,
     G: number,
-    force: THREE.Vector3
+    out: Float64Array,
+    offset: number
   ): void {
-    if (node.isEmpty || node === null) {
+    if (this.nodeCount === 0 || this.nodeBody[0] === EMPTY_NODE) {
       return;
     }
 
-    // Skip self
-    if (node.body === body) {
-      return;
+    let ax = 0;
+    let ay = 0;
+    let az = 0;
+    const softeningRadius = SPLINE_SUPPORT_FACTOR * this.softeningLength;
+    const useQuadrupole = this.order === MultipoleOrder.Quadrupole;
+    const stack = this.stack;
+
+    let top = 0;
+    stack[top++] = 0;
+
+    while (top > 0) {
+      const node = stack[--top];
+      const leafBody = this.nodeBody[node];
+
+      // Skip self
+      if (leafBody === skip) {
+        continue;
+      }
+
+      const dx = this.centerOfMass[3 * node] - x;
+      const dy = this.centerOfMass[3 * node + 1] - y;
+      const dz = this.centerOfMass[3 * node + 2] - z;
+      const distanceSquared = dx * dx + dy * dy + dz * dz;
+      const ratio = this.nodeSize[node] / Math.sqrt(distanceSquared); // Infinity when coincident, which opens the node
+
+      // If node is far enough or is a leaf, use it as a point mass
+      if (ratio < this.theta || leafBody >= 0) {
+        // Use this node as a point mass, softened exactly like direct summation
+        const factor = softenedForceFactor(distanceSquared, this.softeningLength, this.softeningKernel);
+
+        // Quadrupole correction for distant groups; dropped inside the softened region,
+        // where the point-mass expansion no longer applies
+        if (useQuadrupole && leafBody === INTERNAL_NODE && distanceSquared > softeningRadius * softeningRadius) {
+          const q = this.quadrupoleAcceleration(node, dx, dy, dz, distanceSquared);
+          ax += G * q.x;
+          ay += G * q.y;
+          az += G * q.z;
+        }
+
+        const scale = G * this.nodeMass[node] * factor;
+        ax += dx * scale;
+        ay += dy * scale;
+        az += dz * scale;
+      } else {
+        // Node is too close: visit children, pushed in reverse so octant 0 is visited first
+        for (let k = 7; k >= 0; k--) {
+          const child = this.children[8 * node + k];
+          if (child !== NONE && this.nodeBody[child] !== EMPTY_NODE) {
+            stack[top++] = child;
+          }
+        }
+      }
     }
 
-    const direction = new THREE.Vector3().subVectors(
-      node.centerOfMass,
-      body.position
-    );
-    const distance = direction.length();
+    out[offset] += ax;
+    out[offset + 1] += ay;
+    out[offset + 2] += az;
+  }
 
-    if (distance < 0.001) {
-      return; // Avoid division by zero
+  /**
+   * Preferred time step of body `index` by the criterion dt = tolerance * sqrt(|a| / |jerk|)
+   * Walks the tree like the force calculation, treating every accepted node as a point mass
+   * moving with its center of mass. Softening takes the Plummer form (r^2 + eps^2), as in
+   * PhysicsEngine's direct version. Infinity if the body feels no jerk.
+   */
+  timeStepCriterion(index: number, G: number, tolerance: number): number {
+    if (this.nodeCount === 0 || this.nodeBody[0] === EMPTY_NODE) {
+      return Infinity;
     }
 
-    const s = node.getSize();
-    const ratio = s / distance;
-
-    // If node is far enough or is a leaf, use it as a point mass
-    if (ratio < this.theta || node.body !== null) {
-      // Use this node as a point mass
-      const distanceSquared = distance * distance;
-      const minDistance = 0.1;
-      const clampedDistanceSquared = Math.max(distanceSquared, minDistance * minDistance);
-
-      const forceMagnitude = G * body.mass * node.totalMass / clampedDistanceSquared;
-      direction.normalize();
-      force.add(direction.multiplyScalar(forceMagnitude));
-    } else {
-      // Node is too close: recurse into children
-      for (const child of node.children) {
-        if (child && !child.isEmpty) {
-          this.calculateForceRecursive(body, child, G, force);
+    const { positions, velocities } = this.state;
+    const x = positions[3 * index];
+    const y = positions[3 * index + 1];
+    const z = positions[3 * index + 2];
+    const vx = velocities[3 * index];
+    const vy = velocities[3 * index + 1];
+    const vz = velocities[3 * index + 2];
+    const softeningSquared = this.softeningLength * this.softeningLength;
+    const velocity = this.centerOfMassVelocity;
+    const stack = this.stack;
+
+    let ax = 0, ay = 0, az = 0;
+    let jx = 0, jy = 0, jz = 0;
+    let top = 0;
+    stack[top++] = 0;
+
+    while (top > 0) {
+      const node = stack[--top];
+      const leafBody = this.nodeBody[node];
+      if (leafBody === index) continue;
+
+      const rx = this.centerOfMass[3 * node] - x;
+      const ry = this.centerOfMass[3 * node + 1] - y;
+      const rz = this.centerOfMass[3 * node + 2] - z;
+      const distanceSquared = rx * rx + ry * ry + rz * rz;
+      const ratio = this.nodeSize[node] / Math.sqrt(distanceSquared);
+
+      if (ratio < this.theta || leafBody >= 0) {
+        const wx = velocity[3 * node] - vx;
+        const wy = velocity[3 * node + 1] - vy;
+        const wz = velocity[3 * node + 2] - vz;
+        const r2 = distanceSquared + softeningSquared;
+        if (r2 === 0) continue;
+        const invR3 = 1 / (r2 * Math.sqrt(r2));
+        const gm = G * this.nodeMass[node];
+        const rv = 3 * (rx * wx + ry * wy + rz * wz) / r2;
+
+        ax += gm * rx * invR3;
+        ay += gm * ry * invR3;
+        az += gm * rz * invR3;
+        jx += gm * (wx - rv * rx) * invR3;
+        jy += gm * (wy - rv * ry) * invR3;
+        jz += gm * (wz - rv * rz) * invR3;
+      } else {
+        for (let k = 7; k >= 0; k--) {
+          const child = this.children[8 * node + k];
+          if (child !== NONE && this.nodeBody[child] !== EMPTY_NODE) {
+            stack[top++] = child;
+          }
         }
       }
     }
+
+    const acceleration = Math.sqrt(ax * ax + ay * ay + az * az);
+    const jerk = Math.sqrt(jx * jx + jy * jy + jz * jz);
+    return jerk > 0 ? tolerance * Math.sqrt(acceleration / jerk) : Infinity;
+  }
+
+  /**
+   * Quadrupole term of a node's field (per unit G)
+   * With d the offset from the node's center of mass, the acceleration is
+   * Q d / r^5 - 5/2 (d . Q d) d / r^7
+   * @param towardX (with towardY, towardZ) Vector from the body to the node's center of mass (-d)
+   */
+  private quadrupoleAcceleration(
+    node: number,
+    towardX: number,
+    towardY: number,
+    towardZ: number,
+    distanceSquared: number
+  ): Vec3 {
+    const q = this.quadrupole;
+    const qi = 6 * node;
+    const dx = -towardX;
+    const dy = -towardY;
+    const dz = -towardZ;
+
+    const qdx = q[qi] * dx + q[qi + 3] * dy + q[qi + 4] * dz;
+    const qdy = q[qi + 3] * dx + q[qi + 1] * dy + q[qi + 5] * dz;
+    const qdz = q[qi + 4] * dx + q[qi + 5] * dy + q[qi + 2] * dz;
+    const dQd = dx * qdx + dy * qdy + dz * qdz;
+
+    const invR2 = 1 / distanceSquared;
+    const invR5 = invR2 * invR2 / Math.sqrt(distanceSquared);
+    const radial = 2.5 * dQd * invR2;
+
+    return this.scratch.set(
+      invR5 * (qdx - radial * dx),
+      invR5 * (qdy - radial * dy),
+      invR5 * (qdz - radial * dz)
+    );
   }
 
   /**
    * Calculate bounding box for all bodies
    */
-  static calculateBounds(bodies: CelestialBody[], padding: number = 10): { min: THREE.Vector3; max: THREE.Vector3 } {
-    if (bodies.length === 0) {
+  static calculateBounds(state: SimulationState, padding: number = 10): Bounds {
+    if (state.count === 0) {
       return {
-        min: new THREE.Vector3(-100, -100, -100),
-        max: new THREE.Vector3(100, 100, 100)
+        min: new Vec3(-100, -100, -100),
+        max: new Vec3(100, 100, 100)
       };
     }
 
     let minX = Infinity, minY = Infinity, minZ = Infinity;
     let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
-
-    for (const body of bodies) {
-      minX = Math.min(minX, body.position.x);
-      minY = Math.min(minY, body.position.y);
-      minZ = Math.min(minZ, body.position.z);
-      maxX = Math.max(maxX, body.position.x);
-      maxY = Math.max(maxY, body.position.y);
-      maxZ = Math.max(maxZ, body.position.z);
+    const positions = state.positions;
+
+    for (let i = 0; i < 3 * state.count; i += 3) {
+      minX = Math.min(minX, positions[i]);
+      minY = Math.min(minY, positions[i + 1]);
+      minZ = Math.min(minZ, positions[i + 2]);
+      maxX = Math.max(maxX, positions[i]);
+      maxY = Math.max(maxY, positions[i + 1]);
+      maxZ = Math.max(maxZ, positions[i + 2]);
     }
 
     // Add padding
     return {
-      min: new THREE.Vector3(minX - padding, minY - padding, minZ - padding),
-      max: new THREE.Vector3(maxX + padding, maxY + padding, maxZ + padding)
+      min: new Vec3(minX - padding, minY - padding, minZ - padding),
+      max: new Vec3(maxX + padding, maxY + padding, maxZ + padding)
     };
   }
 }
-
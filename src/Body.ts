@@ -1,6 +1,13 @@
 import * as THREE from 'three';
+import { createBodyId, type SimulationBody } from './SimulationState.js';
+
+/**
+ * Unit sphere shared by every body's mesh, which is scaled to the body's radius
+ */
+const SPHERE_GEOMETRY = new THREE.SphereGeometry(1, 32, 32);
 
 export interface CelestialBodyOptions {
+  id?: string; // Keep an existing body's identity (loading, undo); a new one is created otherwise
   name?: string;
   mass?: number;
   radius?: number;
@@ -18,8 +25,12 @@ export interface CelestialBodyOptions {
 
 /**
  * Represents a celestial body (planet or star) in the simulation
+ * Once added to a PhysicsEngine this is a view of the engine's SimulationState:
+ * call physics.syncBody() after editing its physical properties.
  */
-export class CelestialBody {
+export class CelestialBody implements SimulationBody {
+  id: string; // Stable identity shared by undo, saved systems and selection
+
   // Physical properties
   mass: number;
   position: THREE.Vector3;
@@ -34,7 +45,6 @@ export class CelestialBody {
   name: string;
 
   // Three.js objects
-  geometry: THREE.SphereGeometry;
   material: THREE.MeshStandardMaterial;
   mesh: THREE.Mesh;
 
@@ -52,6 +62,8 @@ export class CelestialBody {
   trailUpdateInterval: number;
 
   constructor(options: CelestialBodyOptions = {}) {
+    this.id = options.id || createBodyId();
+
     // Physical properties
     this.mass = options.mass || 1.0;
     this.position = options.position || new THREE.Vector3(0, 0, 0);
@@ -72,7 +84,6 @@ export class CelestialBody {
     this.normalMapUrl = options.normalMapUrl || null;
 
     // Create mesh
-    this.geometry = new THREE.SphereGeometry(this.radius, 32, 32);
     this.material = new THREE.MeshStandardMaterial({
       color: this.color,
       emissive: this.emissive,
@@ -93,7 +104,8 @@ export class CelestialBody {
       this.material.needsUpdate = true;
     }
 
-    this.mesh = new THREE.Mesh(this.geometry, this.material);
+    this.mesh = new THREE.Mesh(SPHERE_GEOMETRY, this.material);
+    this.mesh.scale.setScalar(this.radius);
     this.mesh.position.copy(this.position);
     this.mesh.userData.body = this; // Reference back to this body
 
@@ -112,6 +124,14 @@ export class CelestialBody {
     this.mesh.position.copy(this.position);
   }
 
+  /**
+   * Change the radius and scale the mesh to match
+   */
+  setRadius(radius: number): void {
+    this.radius = radius;
+    this.mesh.scale.setScalar(radius);
+  }
+
   /**
    * Update visual properties
    */
@@ -200,6 +220,33 @@ export class CelestialBody {
     }
   }
 
+  /**
+   * Use a texture that is already loaded, e.g. one kept by an undo snapshot
+   * `url` is only recorded, not loaded; the previous texture is released.
+   */
+  setTexture(texture: THREE.Texture | null, url: string | null): void {
+    if (texture === this.texture) return;
+
+    this.removeTexture();
+    this.texture = texture;
+    this.textureUrl = url;
+    this.material.map = texture;
+    this.material.needsUpdate = true;
+  }
+
+  /**
+   * Use a normal map that is already loaded (see setTexture)
+   */
+  setNormalMap(normalMap: THREE.Texture | null, url: string | null): void {
+    if (normalMap === this.normalMap) return;
+
+    this.removeNormalMap();
+    this.normalMap = normalMap;
+    this.normalMapUrl = url;
+    this.material.normalMap = normalMap;
+    this.material.needsUpdate = true;
+  }
+
   /**
    * Remove texture
    */
@@ -273,6 +320,7 @@ export class CelestialBody {
     this.trail = new THREE.Line(trailGeometry, trailMaterial);
     this.trail.frustumCulled = false;
     this.trail.renderOrder = -1; // Render before other objects
+    this.writeTrailGeometry();
 
     scene.add(this.trail);
   }
@@ -295,7 +343,23 @@ export class CelestialBody {
       this.trailPoints.shift();
     }
 
-    // Update trail geometry
+    this.writeTrailGeometry();
+  }
+
+  /**
+   * Replace the trail, e.g. with one kept by an undo snapshot
+   */
+  setTrailPoints(points: { x: number; y: number; z: number }[]): void {
+    this.trailPoints = points.slice(-this.maxTrailPoints).map(point => new THREE.Vector3(point.x, point.y, point.z));
+    this.writeTrailGeometry();
+  }
+
+  /**
+   * Copy the trail points into the trail geometry
+   */
+  private writeTrailGeometry(): void {
+    if (!this.trail) return;
+
     const positions = this.trail.geometry.attributes.position.array as Float32Array;
     for (let i = 0; i < this.maxTrailPoints; i++) {
       if (i < this.trailPoints.length) {
@@ -330,7 +394,6 @@ export class CelestialBody {
    * Dispose of resources
    */
   dispose(): void {
-    this.geometry.dispose();
     this.material.dispose();
 
     // Dispose textures
@@ -363,6 +426,7 @@ export class CelestialBody {
    */
   toJSON(): any {
     return {
+      id: this.id,
       name: this.name,
       type: this.isStatic && this.emissiveIntensity > 0 ? 'star' : 'planet',
       mass: this.mass,
@@ -0,0 +1,116 @@
+import * as THREE from 'three';
+import type { CelestialBody } from './Body.js';
+
+/**
+ * Draws untextured, non-emissive bodies as instances of one shared sphere
+ * Each body otherwise costs a draw call for its own mesh, which limits the frame rate long
+ * before physics does. Batched bodies have their own mesh hidden; textured bodies and stars
+ * (whose emissive glow is per material) keep drawing individually.
+ * The mesh's userData.instancedBodies points back here so raycasts can map instance IDs to bodies.
+ */
+export class InstancedBodyRenderer {
+  mesh: THREE.InstancedMesh;
+  geometry: THREE.SphereGeometry;
+  material: THREE.MeshStandardMaterial;
+  bodies: CelestialBody[]; // Body drawn by each instance, by instance ID
+  enabled: boolean;
+  private scene: THREE.Scene;
+  private matrix: THREE.Matrix4;
+  private rotation: THREE.Quaternion;
+  private scale: THREE.Vector3;
+  private color: THREE.Color;
+
+  constructor(scene: THREE.Scene, capacity: number = 256) {
+    this.scene = scene;
+    this.bodies = [];
+    this.enabled = true;
+    this.matrix = new THREE.Matrix4();
+    this.rotation = new THREE.Quaternion();
+    this.scale = new THREE.Vector3();
+    this.color = new THREE.Color();
+
+    // Unit sphere scaled per instance, with the same look as CelestialBody's material
+    this.geometry = new THREE.SphereGeometry(1, 32, 32);
+    this.material = new THREE.MeshStandardMaterial({
+      color: 0xffffff, // Multiplied by the instance colour
+      metalness: 0.3,
+      roughness: 0.7,
+      flatShading: false
+    });
+    this.mesh = this.createMesh(capacity);
+  }
+
+  /**
+   * Whether a body can be drawn as a plain instance
+   */
+  static canInstance(body: CelestialBody): boolean {
+    return !body.texture && !body.normalMap && body.emissiveIntensity === 0;
+  }
+
+  /**
+   * Create an instanced mesh with room for `capacity` bodies and put it in the scene
+   */
+  private createMesh(capacity: number): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(this.geometry, this.material, capacity);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.count = 0;
+    mesh.userData.instancedBodies = this;
+    this.scene.add(mesh);
+    return mesh;
+  }
+
+  /**
+   * Batch every eligible body and hide its own mesh; show the meshes of the rest
+   * Call once per frame after the bodies have moved.
+   */
+  update(bodies: CelestialBody[]): void {
+    this.bodies.length = 0;
+    for (const body of bodies) {
+      const instanced = this.enabled && InstancedBodyRenderer.canInstance(body);
+      body.mesh.visible = !instanced;
+      if (instanced) {
+        this.bodies.push(body);
+      }
+    }
+
+    const count = this.bodies.length;
+    if (count > this.mesh.instanceMatrix.count) {
+      this.mesh.removeFromParent();
+      this.mesh.dispose();
+      this.mesh = this.createMesh(Math.max(count, 2 * this.mesh.instanceMatrix.count));
+    }
+
+    for (let i = 0; i < count; i++) {
+      const body = this.bodies[i];
+      this.scale.setScalar(body.radius);
+      this.matrix.compose(body.position, this.rotation, this.scale);
+      this.mesh.setMatrixAt(i, this.matrix);
+      this.mesh.setColorAt(i, this.color.setHex(body.color));
+    }
+
+    this.mesh.count = count;
+    this.mesh.instanceMatrix.needsUpdate = true;
+    if (this.mesh.instanceColor) {
+      this.mesh.instanceColor.needsUpdate = true;
+    }
+    // Culling and raycasting use the bounds of every instance
+    this.mesh.computeBoundingSphere();
+  }
+
+  /**
+   * The body drawn by an instance (e.g. from a raycast intersection's instanceId)
+   */
+  bodyAt(instanceId: number): CelestialBody | null {
+    return instanceId < this.mesh.count ? this.bodies[instanceId] : null;
+  }
+
+  /**
+   * Remove from the scene and free GPU resources
+   */
+  dispose(): void {
+    this.mesh.removeFromParent();
+    this.mesh.dispose();
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+}
@@ -0,0 +1,344 @@
+import type { SimulationBody, SimulationState } from './SimulationState.js';
+import { Vec3 } from './Vec3.js';
+
+/**
+ * What happens when two bodies touch
+ */
+export type CollisionMode = 'none' | 'merge' | 'bounce' | 'fragment';
+
+export const CollisionMode = {
+  None: 'none' as CollisionMode,
+  Merge: 'merge' as CollisionMode,
+  Bounce: 'bounce' as CollisionMode,
+  Fragment: 'fragment' as CollisionMode
+} as const;
+
+/**
+ * Settings for breaking up bodies in high-energy impacts
+ */
+export interface FragmentationOptions {
+  fragmentCount: number; // Maximum number of fragments per impact
+  minFragmentMass: number; // Fragments are never lighter than this
+  coneAngle: number; // Half-angle of the debris cone in radians
+}
+
+/**
+ * Physical state of a body that a collision may change
+ */
+export interface BodyPhysicalState {
+  mass: number;
+  radius: number;
+  color: number;
+  position: { x: number; y: number; z: number };
+  velocity: { x: number; y: number; z: number };
+}
+
+/**
+ * Describes a collision that changed the set of bodies in the simulation.
+ * `removed` bodies have already been taken out of the physics engine and
+ * `created` bodies (fragments) have already been added to it.
+ */
+export interface CollisionEvent {
+  mode: CollisionMode;
+  survivor: SimulationBody;
+  survivorBefore: BodyPhysicalState;
+  removed: SimulationBody[];
+  created: SimulationBody[];
+}
+
+/**
+ * Options for selecting a collision mode in the UI (label -> mode)
+ */
+export const COLLISION_MODE_OPTIONS: Record<string, CollisionMode> = {
+  'None (pass through)': CollisionMode.None,
+  'Merge': CollisionMode.Merge,
+  'Bounce': CollisionMode.Bounce,
+  'Merge / Fragment': CollisionMode.Fragment
+};
+
+/**
+ * Capture the collision-relevant state of a body
+ */
+export function capturePhysicalState(body: SimulationBody): BodyPhysicalState {
+  return {
+    mass: body.mass,
+    radius: body.radius,
+    color: body.color,
+    position: { x: body.position.x, y: body.position.y, z: body.position.z },
+    velocity: { x: body.velocity.x, y: body.velocity.y, z: body.velocity.z }
+  };
+}
+
+/**
+ * Position of body `index` as a vector
+ */
+function positionOf(state: SimulationState, index: number): Vec3 {
+  const p = state.positions;
+  return new Vec3(p[3 * index], p[3 * index + 1], p[3 * index + 2]);
+}
+
+/**
+ * Velocity of body `index` as a vector
+ */
+function velocityOf(state: SimulationState, index: number): Vec3 {
+  const v = state.velocities;
+  return new Vec3(v[3 * index], v[3 * index + 1], v[3 * index + 2]);
+}
+
+/**
+ * Store a vector into entry `index` of a positions or velocities array
+ */
+function store(array: Float64Array, index: number, value: Vec3): void {
+  array[3 * index] = value.x;
+  array[3 * index + 1] = value.y;
+  array[3 * index + 2] = value.z;
+}
+
+/**
+ * Find all pairs of bodies whose spheres overlap, as pairs of state indices
+ * Uses sort-and-sweep along the x axis so only nearby pairs are tested
+ */
+export function findCollidingPairs(state: SimulationState): [number, number][] {
+  const { positions, radii } = state;
+  const minX = (i: number) => positions[3 * i] - radii[i];
+  const sorted = Array.from({ length: state.count }, (_, i) => i).sort((a, b) => minX(a) - minX(b));
+  const pairs: [number, number][] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i];
+    const maxX = positions[3 * a] + radii[a];
+
+    for (let j = i + 1; j < sorted.length; j++) {
+      const b = sorted[j];
+      if (minX(b) > maxX) break;
+
+      const dx = positions[3 * b] - positions[3 * a];
+      const dy = positions[3 * b + 1] - positions[3 * a + 1];
+      const dz = positions[3 * b + 2] - positions[3 * a + 2];
+      const touching = radii[a] + radii[b];
+      if (dx * dx + dy * dy + dz * dz < touching * touching) {
+        pairs.push([a, b]);
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Mass-weighted blend of two 0xRRGGBB colours
+ */
+export function blendColors(color1: number, mass1: number, color2: number, mass2: number): number {
+  const total = mass1 + mass2;
+  let result = 0;
+  for (const shift of [16, 8, 0]) {
+    const c1 = (color1 >> shift) & 255;
+    const c2 = (color2 >> shift) & 255;
+    result |= Math.round((c1 * mass1 + c2 * mass2) / total) << shift;
+  }
+  return result;
+}
+
+/**
+ * Pick the body that survives a merge: a static body, otherwise the heavier one
+ */
+export function chooseSurvivor(state: SimulationState, a: number, b: number): [number, number] {
+  if (state.isStatic(a) !== state.isStatic(b)) {
+    return state.isStatic(a) ? [a, b] : [b, a];
+  }
+  return state.masses[b] > state.masses[a] ? [b, a] : [a, b];
+}
+
+/**
+ * Perfectly inelastic merge of bodies `a` and `b`
+ * Mass and momentum are conserved (unless the survivor is static, in which case it stays put),
+ * radius is combined by volume and colour is blended by mass. Mutates the survivor's state
+ * and view only; the caller removes the absorbed body.
+ */
+export function mergeBodies(state: SimulationState, bodies: SimulationBody[], a: number, b: number): CollisionEvent {
+  const [survivor, absorbed] = chooseSurvivor(state, a, b);
+  const { masses, radii } = state;
+  const survivorBefore = capturePhysicalState(bodies[survivor]);
+  const totalMass = masses[survivor] + masses[absorbed];
+
+  if (!state.isStatic(survivor)) {
+    store(state.positions, survivor, positionOf(state, survivor)
+      .multiplyScalar(masses[survivor])
+      .addScaledVector(positionOf(state, absorbed), masses[absorbed])
+      .divideScalar(totalMass));
+    store(state.velocities, survivor, velocityOf(state, survivor)
+      .multiplyScalar(masses[survivor])
+      .addScaledVector(velocityOf(state, absorbed), masses[absorbed])
+      .divideScalar(totalMass));
+  }
+
+  const survivorBody = bodies[survivor];
+  survivorBody.color = blendColors(survivorBody.color, masses[survivor], bodies[absorbed].color, masses[absorbed]);
+  radii[survivor] = Math.cbrt(radii[survivor] ** 3 + radii[absorbed] ** 3);
+  masses[survivor] = totalMass;
+  state.read(survivor, survivorBody);
+
+  return {
+    mode: CollisionMode.Merge,
+    survivor: survivorBody,
+    survivorBefore,
+    removed: [bodies[absorbed]],
+    created: []
+  };
+}
+
+/**
+ * Kinetic energy available in the collision: 1/2 * reduced mass * relative speed^2
+ */
+export function impactEnergy(state: SimulationState, a: number, b: number): number {
+  const { masses } = state;
+  const reducedMass = (masses[a] * masses[b]) / (masses[a] + masses[b]);
+  return 0.5 * reducedMass * velocityOf(state, a).distanceToSquared(velocityOf(state, b));
+}
+
+/**
+ * Gravitational binding energy of a uniform sphere: 3/5 * G * m^2 / r
+ */
+export function bindingEnergy(state: SimulationState, index: number, G: number): number {
+  const mass = state.masses[index];
+  return 0.6 * G * mass * mass / state.radii[index];
+}
+
+/**
+ * Shatter the smaller body into fragments if the impact energy exceeds its binding energy
+ * Fragments share the target's mass and volume equally and are launched from the
+ * survivor's surface in a cone around the line of centres, with the energy left over after
+ * unbinding the target. The survivor recoils so total momentum is conserved.
+ * Fragments are made by `createBody` and are not yet part of the state.
+ * Returns null when the impact is too weak or the target too light to split, in which
+ * case the caller should merge instead.
+ */
+export function fragmentBodies(
+  state: SimulationState,
+  bodies: SimulationBody[],
+  a: number,
+  b: number,
+  G: number,
+  options: FragmentationOptions,
+  createBody: (data: SimulationBody) => SimulationBody
+): CollisionEvent | null {
+  const [survivor, target] = chooseSurvivor(state, a, b);
+  const { masses, radii } = state;
+  const excessEnergy = impactEnergy(state, a, b) - bindingEnergy(state, target, G);
+  const count = Math.min(
+    Math.floor(options.fragmentCount),
+    Math.floor(masses[target] / Math.max(options.minFragmentMass, Number.EPSILON))
+  );
+
+  if (excessEnergy <= 0 || count < 2) {
+    return null;
+  }
+
+  const survivorBody = bodies[survivor];
+  const targetBody = bodies[target];
+  const survivorBefore = capturePhysicalState(survivorBody);
+  const fragmentMass = masses[target] / count;
+  const fragmentRadius = radii[target] / Math.cbrt(count);
+  const ejectionSpeed = Math.sqrt(2 * excessEnergy / masses[target]);
+  const survivorPosition = positionOf(state, survivor);
+  const survivorVelocity = velocityOf(state, survivor);
+  const targetVelocity = velocityOf(state, target);
+
+  // Orthonormal basis around the line of centres (survivor -> target)
+  const normal = positionOf(state, target).sub(survivorPosition);
+  if (normal.lengthSq() === 0) {
+    normal.copy(targetVelocity).sub(survivorVelocity);
+  }
+  if (normal.lengthSq() === 0) {
+    normal.set(1, 0, 0);
+  }
+  normal.normalize();
+  const helper = Math.abs(normal.x) < 0.9 ? new Vec3(1, 0, 0) : new Vec3(0, 1, 0);
+  const tangent = new Vec3().crossVectors(normal, helper).normalize();
+  const bitangent = new Vec3().crossVectors(normal, tangent);
+
+  // Fragments sit on a ring just outside the survivor, spaced so they do not touch
+  const ringCenter = survivorPosition.clone().addScaledVector(normal, radii[survivor] + 2 * fragmentRadius);
+  const ringRadius = 1.1 * fragmentRadius / Math.sin(Math.PI / count);
+
+  const totalMomentum = survivorVelocity.clone().multiplyScalar(masses[survivor])
+    .addScaledVector(targetVelocity, masses[target]);
+  const fragmentMomentum = new Vec3();
+  const created: SimulationBody[] = [];
+
+  for (let k = 0; k < count; k++) {
+    const azimuth = 2 * Math.PI * k / count;
+    const radial = tangent.clone().multiplyScalar(Math.cos(azimuth))
+      .addScaledVector(bitangent, Math.sin(azimuth));
+    const direction = normal.clone().multiplyScalar(Math.cos(options.coneAngle))
+      .addScaledVector(radial, Math.sin(options.coneAngle));
+
+    const fragment = createBody({
+      name: `${targetBody.name} Fragment ${k + 1}`,
+      mass: fragmentMass,
+      radius: fragmentRadius,
+      isStatic: false,
+      position: ringCenter.clone().addScaledVector(radial, ringRadius),
+      velocity: survivorVelocity.clone().addScaledVector(direction, ejectionSpeed),
+      color: targetBody.color,
+      emissive: targetBody.emissive,
+      emissiveIntensity: targetBody.emissiveIntensity
+    });
+
+    fragmentMomentum.addScaledVector(fragment.velocity, fragmentMass);
+    created.push(fragment);
+  }
+
+  if (!state.isStatic(survivor)) {
+    store(state.velocities, survivor, totalMomentum.sub(fragmentMomentum).divideScalar(masses[survivor]));
+    state.read(survivor, survivorBody);
+  }
+
+  return {
+    mode: CollisionMode.Fragment,
+    survivor: survivorBody,
+    survivorBefore,
+    removed: [targetBody],
+    created
+  };
+}
+
+/**
+ * Perfectly elastic bounce along the line of centres
+ * Static bodies act as infinitely massive walls. Overlapping bodies are
+ * pushed apart so they do not collide again on the next step.
+ */
+export function bounceBodies(state: SimulationState, a: number, b: number): void {
+  const inverseMassA = state.isStatic(a) ? 0 : 1 / state.masses[a];
+  const inverseMassB = state.isStatic(b) ? 0 : 1 / state.masses[b];
+  const inverseMassSum = inverseMassA + inverseMassB;
+  if (inverseMassSum === 0) return;
+
+  const positionA = positionOf(state, a);
+  const positionB = positionOf(state, b);
+  const velocityA = velocityOf(state, a);
+  const velocityB = velocityOf(state, b);
+
+  const normal = positionB.clone().sub(positionA);
+  const distance = normal.length();
+  if (distance > 0) {
+    normal.divideScalar(distance);
+  } else {
+    normal.set(1, 0, 0); // Coincident centres: separate along x
+  }
+
+  // Separate the bodies in proportion to their inverse masses
+  const overlap = state.radii[a] + state.radii[b] - distance;
+  if (overlap > 0) {
+    store(state.positions, a, positionA.addScaledVector(normal, -overlap * inverseMassA / inverseMassSum));
+    store(state.positions, b, positionB.addScaledVector(normal, overlap * inverseMassB / inverseMassSum));
+  }
+
+  // Only exchange momentum if the bodies are approaching
+  const approachSpeed = velocityB.clone().sub(velocityA).dot(normal);
+  if (approachSpeed >= 0) return;
+
+  const impulse = -2 * approachSpeed / inverseMassSum;
+  store(state.velocities, a, velocityA.addScaledVector(normal, -impulse * inverseMassA));
+  store(state.velocities, b, velocityB.addScaledVector(normal, impulse * inverseMassB));
+}
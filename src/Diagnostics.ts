@@ -0,0 +1,136 @@
+import type { PhysicsEngine } from './Physics.js';
+import { Vec3 } from './Vec3.js';
+
+/**
+ * Conserved quantities of the system at one moment
+ */
+export interface ConservationSnapshot {
+  kineticEnergy: number;
+  potentialEnergy: number;
+  totalEnergy: number;
+  linearMomentum: Vec3;
+  angularMomentum: Vec3;
+  virialRatio: number; // 2K / |W|, 1 for a system in virial equilibrium
+  momentumScale: number; // Sum of |m * v|, used to normalise momentum drift
+  angularMomentumScale: number; // Sum of |r x m * v|, used to normalise angular momentum drift
+}
+
+/**
+ * Relative change of each conserved quantity since the baseline
+ */
+export interface ConservationDrift {
+  energy: number;
+  linearMomentum: number;
+  angularMomentum: number;
+}
+
+/**
+ * Measure the conserved quantities of the system
+ */
+export function measureConservation(physics: PhysicsEngine): ConservationSnapshot {
+  const kineticEnergy = physics.getKineticEnergy();
+  const potentialEnergy = physics.getPotentialEnergy();
+
+  let momentumScale = 0;
+  let angularMomentumScale = 0;
+  const { positions, velocities, masses } = physics.state;
+  const position = new Vec3();
+  const velocity = new Vec3();
+  const contribution = new Vec3();
+  for (let i = 0; i < physics.state.count; i++) {
+    position.set(positions[3 * i], positions[3 * i + 1], positions[3 * i + 2]);
+    velocity.set(velocities[3 * i], velocities[3 * i + 1], velocities[3 * i + 2]);
+    momentumScale += masses[i] * velocity.length();
+    angularMomentumScale += masses[i] * contribution.crossVectors(position, velocity).length();
+  }
+
+  return {
+    kineticEnergy,
+    potentialEnergy,
+    totalEnergy: kineticEnergy + potentialEnergy,
+    linearMomentum: physics.getLinearMomentum(),
+    angularMomentum: physics.getAngularMomentum(),
+    virialRatio: potentialEnergy !== 0 ? 2 * kineticEnergy / Math.abs(potentialEnergy) : 0,
+    momentumScale,
+    angularMomentumScale
+  };
+}
+
+/**
+ * Relative change from a baseline to a later snapshot
+ * Momenta are compared against the total magnitude of the individual contributions,
+ * since the totals themselves are often zero (e.g. in the centre-of-mass frame).
+ */
+export function computeDrift(baseline: ConservationSnapshot, current: ConservationSnapshot): ConservationDrift {
+  const energyScale = Math.abs(baseline.totalEnergy) ||
+    (baseline.kineticEnergy + Math.abs(baseline.potentialEnergy));
+
+  return {
+    energy: energyScale > 0 ? Math.abs(current.totalEnergy - baseline.totalEnergy) / energyScale : 0,
+    linearMomentum: baseline.momentumScale > 0
+      ? current.linearMomentum.distanceTo(baseline.linearMomentum) / baseline.momentumScale
+      : 0,
+    angularMomentum: baseline.angularMomentumScale > 0
+      ? current.angularMomentum.distanceTo(baseline.angularMomentum) / baseline.angularMomentumScale
+      : 0
+  };
+}
+
+/**
+ * Tracks conservation diagnostics while the simulation runs
+ * Measuring is O(n^2), so it only happens every `interval` physics steps.
+ */
+export class DiagnosticsMonitor {
+  interval: number; // Physics steps between measurements
+  baseline: ConservationSnapshot | null;
+  latest: ConservationSnapshot | null;
+  drift: ConservationDrift;
+  onUpdate: ((snapshot: ConservationSnapshot, drift: ConservationDrift) => void) | null;
+  private stepsSinceMeasurement: number;
+
+  constructor(interval: number = 10) {
+    this.interval = interval;
+    this.baseline = null;
+    this.latest = null;
+    this.drift = { energy: 0, linearMomentum: 0, angularMomentum: 0 };
+    this.onUpdate = null;
+    this.stepsSinceMeasurement = 0;
+  }
+
+  /**
+   * Take a new baseline, e.g. after a system has been loaded
+   */
+  reset(physics: PhysicsEngine): void {
+    this.baseline = measureConservation(physics);
+    this.stepsSinceMeasurement = 0;
+    this.publish(this.baseline);
+  }
+
+  /**
+   * Call after every physics step; measures once every `interval` steps
+   */
+  recordStep(physics: PhysicsEngine): void {
+    this.stepsSinceMeasurement++;
+    if (this.stepsSinceMeasurement < Math.max(1, this.interval)) {
+      return;
+    }
+    this.stepsSinceMeasurement = 0;
+
+    const snapshot = measureConservation(physics);
+    if (!this.baseline) {
+      this.baseline = snapshot;
+    }
+    this.publish(snapshot);
+  }
+
+  /**
+   * Store a snapshot, update drift and notify the listener
+   */
+  private publish(snapshot: ConservationSnapshot): void {
+    this.latest = snapshot;
+    this.drift = computeDrift(this.baseline!, snapshot);
+    if (this.onUpdate) {
+      this.onUpdate(snapshot, this.drift);
+    }
+  }
+}
@@ -0,0 +1,353 @@
+import { CollisionMode } from './Collisions.js';
+import { computeDrift, measureConservation, type ConservationDrift } from './Diagnostics.js';
+import { IntegratorType } from './Integrators.js';
+import { PhysicsEngine } from './Physics.js';
+import { ALL_PREMADE_SYSTEMS, type PremadeSystemData } from './PremadeData.js';
+import { toBodyData } from './SimulationProtocol.js';
+import { createBodyId, type SimulationBody } from './SimulationState.js';
+import type { SavedSystem } from './StorageManager.js';
+import type { Vector3Like } from './Vec3.js';
+
+/**
+ * Headless simulation runs for batch experiments
+ * Everything here is plain computation: no DOM, localStorage, WebGL or Three.js,
+ * so it runs under Node (see scripts/simulate.js) as well as in the browser.
+ */
+
+/**
+ * Settings for a headless run
+ */
+export interface HeadlessOptions {
+  duration: number; // Simulated time to run for
+  timeStep: number; // Fixed step passed to PhysicsEngine.update()
+  integrator: IntegratorType;
+  sampleInterval: number; // Steps between recorded samples
+  G: number;
+  useBarnesHut: boolean;
+  collisionMode: CollisionMode;
+}
+
+/**
+ * Time step, integrator and G match the interactive simulation at a time scale of 1.
+ * Two defaults differ from the UI on purpose: direct summation instead of Barnes-Hut,
+ * so runs are exact and reproducible, and Merge collisions instead of None, so close
+ * encounters don't blow up the energy diagnostics.
+ */
+export const DEFAULT_HEADLESS_OPTIONS: HeadlessOptions = {
+  duration: 10,
+  timeStep: 1 / 60,
+  integrator: IntegratorType.VelocityVerlet,
+  sampleInterval: 10,
+  G: 1.0,
+  useBarnesHut: false,
+  collisionMode: CollisionMode.Merge
+};
+
+/**
+ * A system ready to simulate
+ */
+export interface HeadlessSystem {
+  name: string;
+  seed?: number;
+  bodies: SimulationBody[];
+}
+
+/**
+ * One body at one sample; `id` is the body's stable ID, created for bodies loaded without one and for fragments
+ */
+export interface BodySample {
+  id: string;
+  name: string;
+  mass: number;
+  position: Vector3Like;
+  velocity: Vector3Like;
+}
+
+export interface TrajectorySample {
+  step: number;
+  time: number;
+  bodies: BodySample[];
+}
+
+export interface DiagnosticsSample {
+  step: number;
+  time: number;
+  kineticEnergy: number;
+  potentialEnergy: number;
+  totalEnergy: number;
+  linearMomentum: Vector3Like;
+  angularMomentum: Vector3Like;
+  virialRatio: number;
+  drift: ConservationDrift; // Relative to the first sample
+}
+
+/**
+ * Everything recorded during a run
+ */
+export interface HeadlessResult {
+  system: string;
+  seed?: number;
+  options: HeadlessOptions;
+  trajectories: TrajectorySample[];
+  diagnostics: DiagnosticsSample[];
+}
+
+/**
+ * Read a system from parsed JSON: an exported SavedSystem or premade system data
+ */
+export function parseSystem(data: unknown): HeadlessSystem {
+  const system = data as Partial<SavedSystem> | null;
+  if (!system || typeof system !== 'object' || !Array.isArray(system.bodies)) {
+    throw new Error('System file must contain a "bodies" array');
+  }
+
+  const bodies = system.bodies.map((body, index) => {
+    const isVector = (v: unknown) => typeof v === 'object' && v !== null &&
+      ['x', 'y', 'z'].every(axis => typeof (v as Record<string, unknown>)[axis] === 'number');
+    if (typeof body?.mass !== 'number' || !isVector(body.position) || !isVector(body.velocity)) {
+      throw new Error(`Body ${index} needs a numeric mass, position and velocity`);
+    }
+    return toBodyData({
+      id: body.id,
+      name: body.name ?? `Body ${index}`,
+      mass: body.mass,
+      radius: body.radius ?? 1,
+      isStatic: body.isStatic ?? false,
+      color: body.color ?? 0xffffff,
+      emissive: body.emissive ?? 0,
+      emissiveIntensity: body.emissiveIntensity ?? 0,
+      position: body.position,
+      velocity: body.velocity
+    });
+  });
+
+  return { name: system.name ?? 'Untitled', seed: system.seed, bodies };
+}
+
+/**
+ * Find a premade system by name, ignoring case, spaces and punctuation ("solar-system")
+ */
+export function findPremadeSystem(name: string): PremadeSystemData | undefined {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return ALL_PREMADE_SYSTEMS.find(system => normalize(system.name) === normalize(name));
+}
+
+/**
+ * Run a system with fixed steps, sampling trajectories and conservation diagnostics
+ * every `sampleInterval` steps (and always at the first and last step)
+ */
+export function runHeadless(system: HeadlessSystem, options: Partial<HeadlessOptions> = {}): HeadlessResult {
+  const settings = { ...DEFAULT_HEADLESS_OPTIONS, ...options };
+  const physics = new PhysicsEngine(settings.G, settings.useBarnesHut);
+  physics.setIntegrator(settings.integrator);
+  physics.collisionMode = settings.collisionMode;
+  physics.createBody = (data) => ({ ...data, id: createBodyId() });
+
+  for (const body of system.bodies) {
+    physics.addBody({ ...toBodyData(body), id: body.id ?? createBodyId() });
+  }
+
+  const result: HeadlessResult = {
+    system: system.name,
+    seed: system.seed,
+    options: settings,
+    trajectories: [],
+    diagnostics: []
+  };
+  const baseline = measureConservation(physics);
+
+  const record = (step: number) => {
+    const time = step * settings.timeStep;
+    result.trajectories.push({
+      step,
+      time,
+      bodies: physics.bodies.map(body => ({
+        id: body.id!,
+        name: body.name,
+        mass: body.mass,
+        position: { ...body.position },
+        velocity: { ...body.velocity }
+      }))
+    });
+
+    const snapshot = measureConservation(physics);
+    result.diagnostics.push({
+      step,
+      time,
+      kineticEnergy: snapshot.kineticEnergy,
+      potentialEnergy: snapshot.potentialEnergy,
+      totalEnergy: snapshot.totalEnergy,
+      linearMomentum: { ...snapshot.linearMomentum },
+      angularMomentum: { ...snapshot.angularMomentum },
+      virialRatio: snapshot.virialRatio,
+      drift: computeDrift(baseline, snapshot)
+    });
+  };
+
+  const steps = Math.max(0, Math.round(settings.duration / settings.timeStep));
+  const interval = Math.max(1, Math.floor(settings.sampleInterval));
+  record(0);
+  for (let step = 1; step <= steps; step++) {
+    physics.update(settings.timeStep);
+    if (step % interval === 0 || step === steps) {
+      record(step);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Quote a CSV field if it contains a separator, quote or newline
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: (string | number)[]): string {
+  return values.map(csvField).join(',');
+}
+
+/**
+ * One row per body per sample
+ */
+export function trajectoriesToCsv(result: HeadlessResult): string {
+  const rows = [csvRow(['step', 'time', 'id', 'name', 'mass', 'x', 'y', 'z', 'vx', 'vy', 'vz'])];
+  for (const sample of result.trajectories) {
+    for (const body of sample.bodies) {
+      rows.push(csvRow([
+        sample.step, sample.time, body.id, body.name, body.mass,
+        body.position.x, body.position.y, body.position.z,
+        body.velocity.x, body.velocity.y, body.velocity.z
+      ]));
+    }
+  }
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * One row per sample
+ */
+export function diagnosticsToCsv(result: HeadlessResult): string {
+  const rows = [csvRow([
+    'step', 'time', 'kinetic_energy', 'potential_energy', 'total_energy',
+    'px', 'py', 'pz', 'lx', 'ly', 'lz', 'virial_ratio',
+    'energy_drift', 'momentum_drift', 'angular_momentum_drift'
+  ])];
+  for (const sample of result.diagnostics) {
+    rows.push(csvRow([
+      sample.step, sample.time, sample.kineticEnergy, sample.potentialEnergy, sample.totalEnergy,
+      sample.linearMomentum.x, sample.linearMomentum.y, sample.linearMomentum.z,
+      sample.angularMomentum.x, sample.angularMomentum.y, sample.angularMomentum.z,
+      sample.virialRatio, sample.drift.energy, sample.drift.linearMomentum, sample.drift.angularMomentum
+    ]));
+  }
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * Command line arguments for scripts/simulate.js
+ */
+export interface HeadlessArguments {
+  source: string | null; // Path to a system JSON file, or the name of a premade system
+  format: 'csv' | 'json';
+  output: string; // JSON file, or prefix for the two CSV files
+  list: boolean;
+  help: boolean;
+  options: Partial<HeadlessOptions>;
+}
+
+export const HEADLESS_USAGE = `Usage: npm run simulate -- <system.json | premade system name> [options]
+
+Options:
+  --duration <t>      Simulated time to run (default ${DEFAULT_HEADLESS_OPTIONS.duration})
+  --dt <t>            Fixed time step (default 1/60)
+  --integrator <name> ${Object.values(IntegratorType).join(' | ')}
+  --every <n>         Steps between samples (default ${DEFAULT_HEADLESS_OPTIONS.sampleInterval})
+  --G <g>             Gravitational constant (default ${DEFAULT_HEADLESS_OPTIONS.G})
+  --barnes-hut        Use the Barnes-Hut tree instead of direct summation (the default here; the UI uses the tree)
+  --collisions <mode> ${Object.values(CollisionMode).join(' | ')} (default ${DEFAULT_HEADLESS_OPTIONS.collisionMode}; the UI uses ${CollisionMode.None})
+  --format <format>   json (default) or csv
+  --output <path>     JSON file, or prefix for <path>-trajectories.csv and <path>-diagnostics.csv
+  --list              List the premade systems
+  --help              Show this message`;
+
+/**
+ * Parse command line arguments (without the node and script paths)
+ */
+export function parseHeadlessArguments(argv: string[]): HeadlessArguments {
+  const args: HeadlessArguments = {
+    source: null,
+    format: 'json',
+    output: 'simulation',
+    list: false,
+    help: false,
+    options: {}
+  };
+
+  const number = (flag: string, value: string | undefined): number => {
+    const parsed = Number(value);
+    if (value === undefined || !Number.isFinite(parsed)) {
+      throw new Error(`${flag} needs a number`);
+    }
+    return parsed;
+  };
+  const oneOf = <T extends string>(flag: string, value: string | undefined, allowed: T[]): T => {
+    if (!allowed.includes(value as T)) {
+      throw new Error(`${flag} must be one of: ${allowed.join(', ')}`);
+    }
+    return value as T;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--duration':
+        args.options.duration = number(arg, argv[++i]);
+        break;
+      case '--dt':
+        args.options.timeStep = number(arg, argv[++i]);
+        break;
+      case '--integrator':
+        args.options.integrator = oneOf(arg, argv[++i], Object.values(IntegratorType));
+        break;
+      case '--every':
+        args.options.sampleInterval = number(arg, argv[++i]);
+        break;
+      case '--G':
+        args.options.G = number(arg, argv[++i]);
+        break;
+      case '--barnes-hut':
+        args.options.useBarnesHut = true;
+        break;
+      case '--collisions':
+        args.options.collisionMode = oneOf(arg, argv[++i], Object.values(CollisionMode));
+        break;
+      case '--format':
+        args.format = oneOf(arg, argv[++i], ['csv', 'json']);
+        break;
+      case '--output':
+        if (argv[i + 1] === undefined) throw new Error('--output needs a path');
+        args.output = argv[++i];
+        break;
+      case '--list':
+        args.list = true;
+        break;
+      case '--help':
+      case '-h':
+        args.help = true;
+        break;
+      default:
+        if (arg.startsWith('--') || args.source !== null) {
+          throw new Error(`Unexpected argument: ${arg}`);
+        }
+        args.source = arg;
+    }
+  }
+
+  if (args.options.timeStep !== undefined && args.options.timeStep <= 0) {
+    throw new Error('--dt must be positive');
+  }
+  return args;
+}
@@ -0,0 +1,164 @@
+import type { UndoManager, UndoOperation } from './UndoManager.js';
+
+/**
+ * Timeline of the undo history: every undoable and redoable operation with when it happened
+ * Clicking an entry undoes or redoes until the scene is back to just after that operation.
+ */
+export class HistoryPanel {
+  private container: HTMLElement;
+  private undoManager: UndoManager;
+  private isExpanded: boolean = false;
+
+  // Callbacks
+  private onJump: ((undoCount: number) => void) | null = null;
+
+  constructor(undoManager: UndoManager) {
+    this.undoManager = undoManager;
+    this.container = this.createContainer();
+    document.body.appendChild(this.container);
+    this.render();
+  }
+
+  /**
+   * Set callback for jumping to a point in the history
+   * `undoCount` is how many operations should be left on the undo stack afterwards.
+   */
+  setOnJump(callback: (undoCount: number) => void): void {
+    this.onJump = callback;
+  }
+
+  /**
+   * Create main container
+   */
+  private createContainer(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'history-panel';
+    return container;
+  }
+
+  /**
+   * Render the panel
+   */
+  private render(): void {
+    this.container.innerHTML = '';
+
+    const undoStack = this.undoManager.getUndoStack();
+    const redoStack = this.undoManager.getRedoStack();
+
+    // Header with toggle
+    const header = document.createElement('div');
+    header.className = 'history-panel-header';
+    const title = document.createElement('div');
+    title.className = 'history-panel-title';
+    title.textContent = `HISTORY ${undoStack.length}/${this.undoManager.getMaxStackSize()}`;
+    header.appendChild(title);
+    const toggleBtn = document.createElement('button');
+    toggleBtn.className = 'system-builder-toggle';
+    toggleBtn.textContent = this.isExpanded ? '−' : '+';
+    toggleBtn.onclick = () => {
+      this.isExpanded = !this.isExpanded;
+      this.render();
+    };
+    header.appendChild(toggleBtn);
+    this.container.appendChild(header);
+
+    if (!this.isExpanded) {
+      return;
+    }
+
+    // Entries, oldest first; the redo stack is stored with the next operation to redo last
+    const list = document.createElement('div');
+    list.className = 'history-list';
+    list.appendChild(this.createEntry('Earliest state', null, 0, undoStack.length === 0, false));
+    undoStack.forEach((operation, i) => {
+      list.appendChild(this.createEntry(operation.label, operation, i + 1, i === undoStack.length - 1, false));
+    });
+    [...redoStack].reverse().forEach((operation, i) => {
+      list.appendChild(this.createEntry(operation.label, operation, undoStack.length + i + 1, false, true));
+    });
+    this.container.appendChild(list);
+
+    // Stack size limit
+    const limit = document.createElement('label');
+    limit.className = 'history-limit';
+    limit.textContent = 'MAX STEPS';
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = '1';
+    input.step = '1';
+    input.value = String(this.undoManager.getMaxStackSize());
+    input.onchange = () => {
+      const value = parseInt(input.value, 10);
+      if (value > 0) {
+        this.undoManager.setMaxStackSize(value);
+      } else {
+        input.value = String(this.undoManager.getMaxStackSize());
+      }
+    };
+    limit.appendChild(input);
+    this.container.appendChild(limit);
+
+    // Keep the current state in view
+    const current = list.querySelector('.history-entry.current');
+    if (current) {
+      current.scrollIntoView({ block: 'nearest' });
+    }
+  }
+
+  /**
+   * Create one entry of the timeline
+   * @param undoCount Undo stack size once the scene is at this entry
+   * @param undone Whether this operation is on the redo stack
+   */
+  private createEntry(
+    label: string,
+    operation: UndoOperation | null,
+    undoCount: number,
+    current: boolean,
+    undone: boolean
+  ): HTMLElement {
+    const entry = document.createElement('div');
+    entry.className = 'history-entry';
+    if (current) {
+      entry.classList.add('current');
+    }
+    if (undone) {
+      entry.classList.add('undone');
+    }
+
+    const name = document.createElement('span');
+    name.className = 'history-entry-label';
+    name.textContent = label;
+    entry.appendChild(name);
+
+    if (operation) {
+      const time = document.createElement('span');
+      time.className = 'history-entry-time';
+      time.textContent = new Date(operation.timestamp).toLocaleTimeString();
+      entry.appendChild(time);
+    }
+
+    entry.onclick = () => {
+      if (!current && this.onJump) {
+        this.onJump(undoCount);
+      }
+    };
+    return entry;
+  }
+
+  /**
+   * Show the undo manager's current stacks
+   */
+  refresh(): void {
+    this.render();
+  }
+
+  /**
+   * Remove from the page
+   */
+  dispose(): void {
+    if (this.container.parentNode) {
+      this.container.parentNode.removeChild(this.container);
+    }
+  }
+}
@@ -1,7 +1,30 @@
 import * as THREE from 'three';
 import type { CelestialBody } from './Body.js';
+import type { InstancedBodyRenderer } from './BodyRenderer.js';
 import type { InteractionMode } from './ModeManager.js';
 
+/**
+ * What a body dragged in Grab mode does when let go
+ */
+export type DragRelease = 'throw' | 'zero' | 'keep';
+
+export const DragRelease = {
+  Throw: 'throw' as DragRelease, // Take the pointer's velocity
+  Zero: 'zero' as DragRelease, // Stop dead
+  Keep: 'keep' as DragRelease // Carry on with the velocity it had when grabbed
+} as const;
+
+/**
+ * Dropdown options for the UI
+ */
+export const DRAG_RELEASE_OPTIONS: Record<string, DragRelease> = {
+  'Throw': DragRelease.Throw,
+  'Stop': DragRelease.Zero,
+  'Keep Velocity': DragRelease.Keep
+};
+
+const THROW_WINDOW = 100; // Milliseconds of pointer motion a throw is measured over
+
 /**
  * Handles mouse interaction for selecting and dragging celestial bodies
  */
@@ -17,6 +40,22 @@ export class InputHandler {
   dragOffset: THREE.Vector3;
   onSelectionChange: ((body: CelestialBody | null) => void) | null;
   onDeleteRequest: ((body: CelestialBody) => void) | null;
+  onBodyMoved: ((body: CelestialBody) => void) | null;
+  onBodyGrabbed: ((body: CelestialBody) => void) | null;
+  onBodyReleased: ((body: CelestialBody) => void) | null; // After the release velocity is set
+  releaseMode: DragRelease;
+  throwScale: number; // Body velocity per unit of pointer velocity (world units per second)
+  private dragStartVelocity: THREE.Vector3;
+  private dragSamples: { time: number; position: THREE.Vector3 }[]; // Recent drag positions, oldest first
+  isLaunching: boolean;
+  launchStart: THREE.Vector3;
+  launchVelocity: THREE.Vector3;
+  launchPlane: THREE.Plane;
+  launchSpeedScale: number; // Launch speed per world unit of drag
+  onLaunchStart: ((position: THREE.Vector3) => boolean) | null; // Return false to refuse the launch
+  onLaunchDrag: ((position: THREE.Vector3, velocity: THREE.Vector3, event: MouseEvent) => void) | null;
+  onLaunch: ((position: THREE.Vector3, velocity: THREE.Vector3) => void) | null;
+  onLaunchCancel: (() => void) | null;
   currentMode: InteractionMode;
 
   constructor(camera: THREE.PerspectiveCamera, domElement: HTMLElement, scene: THREE.Scene) {
@@ -32,6 +71,22 @@ export class InputHandler {
     this.dragOffset = new THREE.Vector3();
     this.onSelectionChange = null; // Callback for when selection changes
     this.onDeleteRequest = null; // Callback for delete requests
+    this.onBodyMoved = null; // Callback after a drag moves the selected body
+    this.onBodyGrabbed = null;
+    this.onBodyReleased = null;
+    this.releaseMode = DragRelease.Throw;
+    this.throwScale = 1;
+    this.dragStartVelocity = new THREE.Vector3();
+    this.dragSamples = [];
+    this.isLaunching = false;
+    this.launchStart = new THREE.Vector3();
+    this.launchVelocity = new THREE.Vector3();
+    this.launchPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0); // The orbital plane of the premade systems
+    this.launchSpeedScale = 0.05;
+    this.onLaunchStart = null;
+    this.onLaunchDrag = null;
+    this.onLaunch = null;
+    this.onLaunchCancel = null;
     this.currentMode = 'camera' as InteractionMode;
 
     // Bind event handlers
@@ -51,11 +106,12 @@ export class InputHandler {
   setMode(mode: InteractionMode): void {
     this.currentMode = mode;
 
-    // Cancel any ongoing drag when switching modes
+    // End any ongoing drag when switching modes
     if (this.isDragging) {
-      this.isDragging = false;
+      this.releaseBody(performance.now());
       this.selectedBody = null;
     }
+    this.cancelLaunch();
 
     // Update cursor based on mode
     this.updateCursor();
@@ -72,12 +128,23 @@ export class InputHandler {
 
   /**
    * Get the celestial body under the mouse cursor
+   * Bodies drawn by an InstancedBodyRenderer are found through the intersected instance ID.
    */
   getBodyUnderMouse(): CelestialBody | null {
     this.raycaster.setFromCamera(this.mouse, this.camera);
     const intersects = this.raycaster.intersectObjects(this.scene.children, true);
 
     for (const intersect of intersects) {
+      if (!intersect.object.visible) continue; // Hidden meshes of batched bodies
+
+      const renderer = intersect.object.userData.instancedBodies as InstancedBodyRenderer | undefined;
+      if (renderer && intersect.instanceId !== undefined) {
+        const body = renderer.bodyAt(intersect.instanceId);
+        if (body) {
+          return body;
+        }
+      }
+
       if (intersect.object.userData.body) {
         return intersect.object.userData.body as CelestialBody;
       }
@@ -100,6 +167,20 @@ export class InputHandler {
     this.updateMousePosition(event);
     const body = this.getBodyUnderMouse();
 
+    // Launch mode: press on empty space to place, drag back to aim
+    if (this.currentMode === 'launch') {
+      if (!body && this.pointOnLaunchPlane(this.launchStart) &&
+        (!this.onLaunchStart || this.onLaunchStart(this.launchStart.clone()))) {
+        this.isLaunching = true;
+        this.launchVelocity.set(0, 0, 0);
+        if (this.onLaunchDrag) {
+          this.onLaunchDrag(this.launchStart.clone(), this.launchVelocity.clone(), event);
+        }
+        event.stopPropagation();
+      }
+      return;
+    }
+
     if (body) {
       this.selectedBody = body;
 
@@ -118,6 +199,12 @@ export class InputHandler {
         this.raycaster.ray.intersectPlane(this.dragPlane, intersection);
         this.dragOffset.subVectors(body.position, intersection);
 
+        this.dragStartVelocity.copy(body.velocity);
+        this.dragSamples = [{ time: event.timeStamp, position: body.position.clone() }];
+        if (this.onBodyGrabbed) {
+          this.onBodyGrabbed(body);
+        }
+
         // Notify selection change
         if (this.onSelectionChange) {
           this.onSelectionChange(this.selectedBody);
@@ -148,12 +235,45 @@ export class InputHandler {
     }
   }
 
+  /**
+   * Where the pointer ray meets the launch plane; false if it misses
+   */
+  private pointOnLaunchPlane(target: THREE.Vector3): boolean {
+    this.raycaster.setFromCamera(this.mouse, this.camera);
+    return this.raycaster.ray.intersectPlane(this.launchPlane, target) !== null;
+  }
+
+  /**
+   * Abandon a launch in progress
+   */
+  cancelLaunch(): void {
+    if (!this.isLaunching) return;
+
+    this.isLaunching = false;
+    if (this.onLaunchCancel) {
+      this.onLaunchCancel();
+    }
+  }
+
   /**
    * Handle mouse move event
    */
   onMouseMove(event: MouseEvent): void {
     this.updateMousePosition(event);
 
+    // Slingshot: the launch velocity points from the pointer back to the launch point
+    if (this.isLaunching) {
+      const pointer = new THREE.Vector3();
+      if (this.pointOnLaunchPlane(pointer)) {
+        this.launchVelocity.subVectors(this.launchStart, pointer).multiplyScalar(this.launchSpeedScale);
+        if (this.onLaunchDrag) {
+          this.onLaunchDrag(this.launchStart.clone(), this.launchVelocity.clone(), event);
+        }
+      }
+      event.stopPropagation();
+      return;
+    }
+
     // Only handle dragging in Grab mode
     if (this.isDragging && this.selectedBody && this.currentMode === 'grab') {
       this.raycaster.setFromCamera(this.mouse, this.camera);
@@ -162,6 +282,10 @@ export class InputHandler {
       if (this.raycaster.ray.intersectPlane(this.dragPlane, intersection)) {
         this.selectedBody.position.copy(intersection.add(this.dragOffset));
         this.selectedBody.updateMesh();
+        this.recordDragSample(event.timeStamp, this.selectedBody.position);
+        if (this.onBodyMoved) {
+          this.onBodyMoved(this.selectedBody);
+        }
 
         // Clear trail when dragging
         this.selectedBody.clearTrail();
@@ -174,6 +298,54 @@ export class InputHandler {
     }
   }
 
+  /**
+   * Remember where the dragged body was at `time`, forgetting samples too old to matter for a throw
+   */
+  private recordDragSample(time: number, position: THREE.Vector3): void {
+    this.dragSamples.push({ time, position: position.clone() });
+    while (this.dragSamples.length > 0 && time - this.dragSamples[0].time > THROW_WINDOW) {
+      this.dragSamples.shift();
+    }
+  }
+
+  /**
+   * Pointer velocity on the drag plane over the last THROW_WINDOW milliseconds, in world units
+   * per second; zero if the pointer was held still before `time`
+   */
+  private pointerVelocity(time: number): THREE.Vector3 {
+    const samples = this.dragSamples.filter(sample => time - sample.time <= THROW_WINDOW);
+    if (samples.length < 2) return new THREE.Vector3();
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const seconds = (last.time - first.time) / 1000;
+    if (seconds <= 0) return new THREE.Vector3();
+
+    return last.position.clone().sub(first.position).divideScalar(seconds);
+  }
+
+  /**
+   * Let go of the dragged body, giving it the velocity `releaseMode` asks for
+   */
+  private releaseBody(time: number): void {
+    this.isDragging = false;
+    const body = this.selectedBody;
+    if (!body) return;
+
+    if (this.releaseMode === DragRelease.Throw) {
+      body.velocity.copy(this.pointerVelocity(time).multiplyScalar(this.throwScale));
+    } else if (this.releaseMode === DragRelease.Zero) {
+      body.velocity.set(0, 0, 0);
+    } else {
+      body.velocity.copy(this.dragStartVelocity);
+    }
+    this.dragSamples = [];
+
+    if (this.onBodyReleased) {
+      this.onBodyReleased(body);
+    }
+  }
+
   /**
    * Update cursor style based on current mode and hover state
    */
@@ -194,17 +366,24 @@ export class InputHandler {
       this.domElement.style.cursor = body ? 'not-allowed' : 'default';
     } else if (this.currentMode === 'edit') {
       this.domElement.style.cursor = body ? 'pointer' : 'default';
+    } else if (this.currentMode === 'launch') {
+      this.domElement.style.cursor = body ? 'default' : 'crosshair';
     }
   }
 
   /**
    * Handle mouse up event
    */
-  onMouseUp(_event: MouseEvent): void {
+  onMouseUp(event: MouseEvent): void {
+    if (this.isLaunching) {
+      this.isLaunching = false;
+      if (this.onLaunch) {
+        this.onLaunch(this.launchStart.clone(), this.launchVelocity.clone());
+      }
+    }
+
     if (this.isDragging) {
-      this.isDragging = false;
-      // Optionally reset velocity when dropping
-      // this.selectedBody.velocity.set(0, 0, 0);
+      this.releaseBody(event.timeStamp);
     }
   }
 
@@ -0,0 +1,243 @@
+import type { SimulationState } from './SimulationState.js';
+
+/**
+ * Available numerical integration schemes
+ */
+export type IntegratorType = 'symplectic-euler' | 'velocity-verlet' | 'rk4' | 'yoshida4';
+
+export const IntegratorType = {
+  SymplecticEuler: 'symplectic-euler' as IntegratorType,
+  VelocityVerlet: 'velocity-verlet' as IntegratorType,
+  RK4: 'rk4' as IntegratorType,
+  Yoshida4: 'yoshida4' as IntegratorType
+} as const;
+
+/**
+ * Anything that can provide gravitational accelerations for its bodies.
+ * Implemented by PhysicsEngine, which chooses between direct summation
+ * and the Barnes-Hut tree.
+ */
+export interface AccelerationSource {
+  state: SimulationState;
+  /**
+   * Write the accelerations for the current positions into `out` (3 entries per body)
+   */
+  computeAccelerations(out: Float64Array): void;
+}
+
+/**
+ * A time integration scheme for the N-body system
+ */
+export interface Integrator {
+  readonly type: IntegratorType;
+  readonly label: string;
+  /**
+   * Advance the system by deltaTime. Static bodies must not move.
+   */
+  step(system: AccelerationSource, deltaTime: number): void;
+}
+
+/**
+ * Return `buffer` if it holds at least `length` entries, otherwise a larger replacement
+ */
+export function ensureBuffer(buffer: Float64Array, length: number): Float64Array {
+  return buffer.length >= length ? buffer : new Float64Array(Math.max(length, 2 * buffer.length));
+}
+
+/**
+ * x = x + v * dt for every non-static body
+ */
+function drift(state: SimulationState, deltaTime: number): void {
+  const { positions, velocities } = state;
+  for (let i = 0; i < state.count; i++) {
+    if (state.isStatic(i)) continue;
+    const j = 3 * i;
+    positions[j] += velocities[j] * deltaTime;
+    positions[j + 1] += velocities[j + 1] * deltaTime;
+    positions[j + 2] += velocities[j + 2] * deltaTime;
+  }
+}
+
+/**
+ * v = v + a * dt for every non-static body
+ */
+function kick(state: SimulationState, accelerations: Float64Array, deltaTime: number): void {
+  const velocities = state.velocities;
+  for (let i = 0; i < state.count; i++) {
+    if (state.isStatic(i)) continue;
+    const j = 3 * i;
+    velocities[j] += accelerations[j] * deltaTime;
+    velocities[j + 1] += accelerations[j + 1] * deltaTime;
+    velocities[j + 2] += accelerations[j + 2] * deltaTime;
+  }
+}
+
+/**
+ * Base for integrators that need an acceleration buffer, reused across steps
+ */
+abstract class BufferedIntegrator {
+  protected accelerations: Float64Array = new Float64Array(0);
+
+  /**
+   * Evaluate accelerations into the shared buffer
+   */
+  protected evaluate(system: AccelerationSource): Float64Array {
+    this.accelerations = ensureBuffer(this.accelerations, 3 * system.state.count);
+    system.computeAccelerations(this.accelerations);
+    return this.accelerations;
+  }
+}
+
+/**
+ * Symplectic Euler (first order): kick with the current acceleration,
+ * then drift with the new velocity
+ */
+export class SymplecticEulerIntegrator extends BufferedIntegrator implements Integrator {
+  readonly type = IntegratorType.SymplecticEuler;
+  readonly label = 'Symplectic Euler';
+
+  step(system: AccelerationSource, deltaTime: number): void {
+    kick(system.state, this.evaluate(system), deltaTime);
+    drift(system.state, deltaTime);
+  }
+}
+
+/**
+ * Velocity Verlet in kick-drift-kick (leapfrog) form (second order, symplectic)
+ */
+export class VelocityVerletIntegrator extends BufferedIntegrator implements Integrator {
+  readonly type = IntegratorType.VelocityVerlet;
+  readonly label = 'Velocity Verlet';
+
+  step(system: AccelerationSource, deltaTime: number): void {
+    const halfStep = deltaTime / 2;
+    kick(system.state, this.evaluate(system), halfStep);
+    drift(system.state, deltaTime);
+    kick(system.state, this.evaluate(system), halfStep);
+  }
+}
+
+/**
+ * Classic fourth-order Runge-Kutta. Very accurate per step but not
+ * symplectic, so energy slowly drifts over long runs.
+ */
+export class RK4Integrator implements Integrator {
+  readonly type = IntegratorType.RK4;
+  readonly label = 'Runge-Kutta 4';
+
+  // Initial state and, per stage k, (dx/dt, dv/dt) = (v, a) evaluated at a trial state
+  private x0: Float64Array = new Float64Array(0);
+  private v0: Float64Array = new Float64Array(0);
+  private kx: Float64Array[] = [0, 1, 2, 3].map(() => new Float64Array(0));
+  private kv: Float64Array[] = [0, 1, 2, 3].map(() => new Float64Array(0));
+
+  step(system: AccelerationSource, deltaTime: number): void {
+    const state = system.state;
+    const length = 3 * state.count;
+    const { positions, velocities } = state;
+
+    this.x0 = ensureBuffer(this.x0, length);
+    this.v0 = ensureBuffer(this.v0, length);
+    this.x0.set(positions.subarray(0, length));
+    this.v0.set(velocities.subarray(0, length));
+    const { x0, v0, kx, kv } = this;
+    const stageFactors = [0, 0.5, 0.5, 1];
+
+    for (let stage = 0; stage < 4; stage++) {
+      kx[stage] = ensureBuffer(kx[stage], length);
+      kv[stage] = ensureBuffer(kv[stage], length);
+      const factor = stageFactors[stage] * deltaTime;
+
+      // Move bodies to the trial state for this stage
+      for (let i = 0; i < state.count; i++) {
+        const moving = stage > 0 && !state.isStatic(i);
+        for (let j = 3 * i; j < 3 * i + 3; j++) {
+          kx[stage][j] = moving ? v0[j] + kv[stage - 1][j] * factor : v0[j];
+          if (moving) {
+            positions[j] = x0[j] + kx[stage - 1][j] * factor;
+          }
+        }
+      }
+
+      system.computeAccelerations(kv[stage]);
+    }
+
+    // Combine stages: y = y0 + dt/6 * (k1 + 2k2 + 2k3 + k4)
+    for (let i = 0; i < state.count; i++) {
+      const isStatic = state.isStatic(i);
+      for (let j = 3 * i; j < 3 * i + 3; j++) {
+        if (isStatic) {
+          positions[j] = x0[j];
+          continue;
+        }
+        positions[j] = x0[j] + kx[0][j] * (deltaTime / 6) + kx[1][j] * (deltaTime / 3) +
+          kx[2][j] * (deltaTime / 3) + kx[3][j] * (deltaTime / 6);
+        velocities[j] = v0[j] + kv[0][j] * (deltaTime / 6) + kv[1][j] * (deltaTime / 3) +
+          kv[2][j] * (deltaTime / 3) + kv[3][j] * (deltaTime / 6);
+      }
+    }
+  }
+}
+
+/**
+ * Yoshida's fourth-order symplectic integrator: three leapfrog steps
+ * with carefully chosen (one negative) sub-step weights
+ */
+export class Yoshida4Integrator extends BufferedIntegrator implements Integrator {
+  readonly type = IntegratorType.Yoshida4;
+  readonly label = 'Yoshida 4th order';
+
+  private static readonly W1 = 1 / (2 - Math.cbrt(2));
+  private static readonly W0 = -Math.cbrt(2) / (2 - Math.cbrt(2));
+
+  // Drift (c) and kick (d) coefficients
+  private static readonly C = [
+    Yoshida4Integrator.W1 / 2,
+    (Yoshida4Integrator.W0 + Yoshida4Integrator.W1) / 2,
+    (Yoshida4Integrator.W0 + Yoshida4Integrator.W1) / 2,
+    Yoshida4Integrator.W1 / 2
+  ];
+  private static readonly D = [
+    Yoshida4Integrator.W1,
+    Yoshida4Integrator.W0,
+    Yoshida4Integrator.W1
+  ];
+
+  step(system: AccelerationSource, deltaTime: number): void {
+    const c = Yoshida4Integrator.C;
+    const d = Yoshida4Integrator.D;
+
+    for (let i = 0; i < 3; i++) {
+      drift(system.state, c[i] * deltaTime);
+      kick(system.state, this.evaluate(system), d[i] * deltaTime);
+    }
+    drift(system.state, c[3] * deltaTime);
+  }
+}
+
+/**
+ * Options for selecting an integrator in the UI (label -> type)
+ */
+export const INTEGRATOR_OPTIONS: Record<string, IntegratorType> = {
+  'Symplectic Euler': IntegratorType.SymplecticEuler,
+  'Velocity Verlet': IntegratorType.VelocityVerlet,
+  'Runge-Kutta 4': IntegratorType.RK4,
+  'Yoshida 4th order': IntegratorType.Yoshida4
+};
+
+/**
+ * Create an integrator instance for the given type
+ */
+export function createIntegrator(type: IntegratorType): Integrator {
+  switch (type) {
+    case IntegratorType.VelocityVerlet:
+      return new VelocityVerletIntegrator();
+    case IntegratorType.RK4:
+      return new RK4Integrator();
+    case IntegratorType.Yoshida4:
+      return new Yoshida4Integrator();
+    case IntegratorType.SymplecticEuler:
+    default:
+      return new SymplecticEulerIntegrator();
+  }
+}
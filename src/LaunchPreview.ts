@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+import type { PredictedTrajectory } from './Trajectory.js';
+import { TrajectoryLine } from './TrajectoryLine.js';
+
+/**
+ * On-screen feedback while launching a body in Launch mode: a ghost of the body at the
+ * launch point, an arrow along the launch velocity with its magnitude, and the predicted path
+ */
+export class LaunchPreview {
+  ghost: THREE.Mesh;
+  arrow: THREE.ArrowHelper;
+  trajectory: TrajectoryLine;
+  private readout: HTMLElement;
+  private arrowScale: number; // World units of arrow per unit of speed
+
+  constructor(scene: THREE.Scene, arrowScale: number = 10) {
+    this.arrowScale = arrowScale;
+
+    this.ghost = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 24, 24),
+      new THREE.MeshBasicMaterial({ color: 0xffffff, wireframe: true, transparent: true, opacity: 0.5 })
+    );
+    this.ghost.visible = false;
+    scene.add(this.ghost);
+
+    this.arrow = new THREE.ArrowHelper(new THREE.Vector3(1, 0, 0), new THREE.Vector3(), 1, 0xffff00);
+    this.arrow.visible = false;
+    scene.add(this.arrow);
+
+    this.trajectory = new TrajectoryLine(scene, 0xffff00);
+
+    this.readout = document.createElement('div');
+    this.readout.className = 'launch-readout';
+    this.readout.style.display = 'none';
+    document.body.appendChild(this.readout);
+  }
+
+  /**
+   * Show the body about to be launched
+   * @param screenX Pointer position for the speed read-out (client pixels)
+   */
+  show(position: THREE.Vector3, velocity: THREE.Vector3, radius: number, color: number, screenX: number, screenY: number): void {
+    this.ghost.position.copy(position);
+    this.ghost.scale.setScalar(radius);
+    (this.ghost.material as THREE.MeshBasicMaterial).color.setHex(color);
+    this.ghost.visible = true;
+
+    const speed = velocity.length();
+    this.arrow.visible = speed > 0;
+    if (speed > 0) {
+      const length = speed * this.arrowScale;
+      this.arrow.position.copy(position);
+      this.arrow.setDirection(velocity.clone().divideScalar(speed));
+      this.arrow.setLength(length, Math.min(2, 0.3 * length), Math.min(1, 0.15 * length));
+    }
+
+    this.readout.textContent = `|v| = ${speed.toFixed(3)}`;
+    this.readout.style.left = `${screenX + 16}px`;
+    this.readout.style.top = `${screenY + 16}px`;
+    this.readout.style.display = 'block';
+  }
+
+  /**
+   * Show the predicted path of the body being launched
+   */
+  showTrajectory(trajectory: PredictedTrajectory): void {
+    this.trajectory.update(trajectory);
+  }
+
+  /**
+   * Hide everything
+   */
+  hide(): void {
+    this.ghost.visible = false;
+    this.arrow.visible = false;
+    this.trajectory.hide();
+    this.readout.style.display = 'none';
+  }
+
+  /**
+   * Remove from the scene and the page
+   */
+  dispose(): void {
+    this.ghost.removeFromParent();
+    this.ghost.geometry.dispose();
+    (this.ghost.material as THREE.Material).dispose();
+    this.arrow.removeFromParent();
+    this.arrow.dispose();
+    this.trajectory.dispose();
+    this.readout.remove();
+  }
+}
@@ -1,10 +1,39 @@
-import * as THREE from 'three';
 import { ALL_PREMADE_BODIES, type PremadeBodyData } from './PremadeData.js';
 import { StorageManager, type SavedBody } from './StorageManager.js';
 import { ThumbnailGenerator } from './ThumbnailGenerator.js';
 import { CelestialBody } from './Body.js';
 
 export type LibraryFilter = 'all' | 'planets' | 'stars';
+export type LibraryBodyData = PremadeBodyData | SavedBody;
+
+/**
+ * Create a new body (at the origin, at rest) from a library entry
+ * Custom bodies have their textures loaded in the background.
+ */
+export function createLibraryBody(bodyData: LibraryBodyData): CelestialBody {
+  const body = new CelestialBody({
+    name: bodyData.name,
+    mass: bodyData.mass,
+    radius: bodyData.radius,
+    color: bodyData.color,
+    emissive: bodyData.emissive,
+    emissiveIntensity: bodyData.emissiveIntensity,
+    isStatic: bodyData.type === 'star' && bodyData.mass >= 10
+  });
+
+  if ('textureUrl' in bodyData && bodyData.textureUrl) {
+    body.loadTexture(bodyData.textureUrl).catch(err => {
+      console.error('Failed to load texture:', err);
+    });
+  }
+  if ('normalMapUrl' in bodyData && bodyData.normalMapUrl) {
+    body.loadNormalMap(bodyData.normalMapUrl).catch(err => {
+      console.error('Failed to load normal map:', err);
+    });
+  }
+
+  return body;
+}
 
 /**
  * Browser component for premade planets and stars
@@ -13,6 +42,8 @@ export class LibraryBrowser {
   private container: HTMLElement;
   private currentFilter: LibraryFilter = 'all';
   private onAddBody: ((body: CelestialBody) => void) | null = null;
+  private onChooseBody: ((bodyData: LibraryBodyData) => void) | null = null;
+  private chosen: LibraryBodyData | null = null; // Highlighted entry, used by Launch mode
   private thumbnailCache: Map<string, string> = new Map();
 
   constructor(container: HTMLElement) {
@@ -27,6 +58,21 @@ export class LibraryBrowser {
     this.onAddBody = callback;
   }
 
+  /**
+   * Set callback for when an entry is chosen (clicked)
+   */
+  setOnChooseBody(callback: (bodyData: LibraryBodyData) => void): void {
+    this.onChooseBody = callback;
+  }
+
+  /**
+   * Highlight an entry as chosen
+   */
+  setChosen(bodyData: LibraryBodyData | null): void {
+    this.chosen = bodyData;
+    this.render();
+  }
+
   /**
    * Set filter
    */
@@ -121,12 +167,23 @@ export class LibraryBrowser {
   /**
    * Create body item card
    */
-  private createBodyItem(bodyData: PremadeBodyData | SavedBody, isCustom: boolean): HTMLElement {
+  private createBodyItem(bodyData: LibraryBodyData, isCustom: boolean): HTMLElement {
     const item = document.createElement('div');
     item.className = 'library-item';
     if (isCustom) {
       item.classList.add('custom');
     }
+    if (this.chosen && this.chosen.name === bodyData.name && this.chosen.mass === bodyData.mass) {
+      item.classList.add('chosen');
+    }
+    item.onclick = () => {
+      this.chosen = bodyData;
+      this.container.querySelectorAll('.library-item.chosen').forEach(el => el.classList.remove('chosen'));
+      item.classList.add('chosen');
+      if (this.onChooseBody) {
+        this.onChooseBody(bodyData);
+      }
+    };
 
     // Thumbnail
     const thumbnail = document.createElement('div');
@@ -166,8 +223,9 @@ export class LibraryBrowser {
     const addBtn = document.createElement('button');
     addBtn.className = 'library-item-add';
     addBtn.textContent = 'ADD';
-    addBtn.onclick = () => {
-      this.addBodyToScene(bodyData, isCustom);
+    addBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.addBodyToScene(bodyData);
     };
     item.appendChild(addBtn);
 
@@ -210,55 +268,12 @@ export class LibraryBrowser {
   }
 
   /**
-   * Add body to scene
+   * Add body to scene (at the origin; the callback places it on an orbit)
    */
-  private addBodyToScene(bodyData: PremadeBodyData | SavedBody, isCustom: boolean): void {
+  private addBodyToScene(bodyData: LibraryBodyData): void {
     if (!this.onAddBody) return;
 
-    // Create body at a random position around origin
-    const angle = Math.random() * Math.PI * 2;
-    const distance = 50 + Math.random() * 50;
-    const position = new THREE.Vector3(
-      Math.cos(angle) * distance,
-      (Math.random() - 0.5) * 20,
-      Math.sin(angle) * distance
-    );
-
-    // Calculate orbital velocity (simplified)
-    const centralMass = 100; // Assume central mass
-    const G = 1.0;
-    const velocityMag = Math.sqrt(G * centralMass / distance);
-    const velocity = new THREE.Vector3(
-      -Math.sin(angle) * velocityMag,
-      0,
-      Math.cos(angle) * velocityMag
-    );
-
-    const body = new CelestialBody({
-      name: bodyData.name,
-      mass: bodyData.mass,
-      radius: bodyData.radius,
-      position: position,
-      velocity: velocity,
-      color: bodyData.color,
-      emissive: bodyData.emissive,
-      emissiveIntensity: bodyData.emissiveIntensity,
-      isStatic: bodyData.type === 'star' && bodyData.mass >= 10
-    });
-
-    // Load textures if available (for custom bodies)
-    if (isCustom && 'textureUrl' in bodyData && bodyData.textureUrl) {
-      body.loadTexture(bodyData.textureUrl).catch(err => {
-        console.error('Failed to load texture:', err);
-      });
-    }
-    if (isCustom && 'normalMapUrl' in bodyData && bodyData.normalMapUrl) {
-      body.loadNormalMap(bodyData.normalMapUrl).catch(err => {
-        console.error('Failed to load normal map:', err);
-      });
-    }
-
-    this.onAddBody(body);
+    this.onAddBody(createLibraryBody(bodyData));
   }
 
   /**
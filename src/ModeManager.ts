@@ -1,13 +1,14 @@
 /**
  * Interaction modes for the simulation
  */
-export type InteractionMode = 'camera' | 'grab' | 'delete' | 'edit';
+export type InteractionMode = 'camera' | 'grab' | 'delete' | 'edit' | 'launch';
 
 export const InteractionMode = {
   Camera: 'camera' as InteractionMode,
   Grab: 'grab' as InteractionMode,
   Delete: 'delete' as InteractionMode,
-  Edit: 'edit' as InteractionMode
+  Edit: 'edit' as InteractionMode,
+  Launch: 'launch' as InteractionMode
 } as const;
 
 /**
@@ -0,0 +1,216 @@
+import { Vec3, type Vector3Like } from './Vec3.js';
+
+/**
+ * Osculating Keplerian elements of a two-body orbit
+ * Angles are in radians. The reference plane is the simulation's xz plane (y up) and the
+ * reference direction is +x, so the premade systems' orbits (a body on +x moving towards +z)
+ * have zero inclination. Those orbits run clockwise seen from +y, so the orbit normal ("north")
+ * is -y and the ascending node is where a body crosses the plane towards -y.
+ * Unbound orbits have a negative semi-major axis and an infinite period.
+ */
+export interface OrbitalElements {
+  semiMajorAxis: number;
+  eccentricity: number;
+  inclination: number;
+  longitudeOfAscendingNode: number;
+  argumentOfPeriapsis: number;
+  trueAnomaly: number;
+  period: number;
+}
+
+/**
+ * Position and velocity of a body relative to its primary
+ */
+export interface StateVector {
+  position: Vec3;
+  velocity: Vec3;
+}
+
+/**
+ * Below this the orbit is treated as circular (no periapsis) or equatorial (no ascending node)
+ * and the undefined angle is set to zero.
+ */
+const DEGENERATE_TOLERANCE = 1e-10;
+
+/**
+ * Simulation axes to the orbital reference frame (X = x, Y = z, Z = -y)
+ */
+function toReferenceFrame(v: Vector3Like): Vec3 {
+  return new Vec3(v.x, v.z, -v.y);
+}
+
+function fromReferenceFrame(v: Vector3Like): Vec3 {
+  return new Vec3(v.x, -v.z, v.y);
+}
+
+/**
+ * Angle from `from` to `to` measured anticlockwise about `axis`, in [0, 2π)
+ */
+function angleAbout(from: Vec3, to: Vec3, axis: Vec3): number {
+  const angle = Math.atan2(new Vec3().crossVectors(from, to).dot(axis), from.dot(to));
+  return angle < 0 ? angle + 2 * Math.PI : angle;
+}
+
+/**
+ * Elements of the orbit with relative state (`position`, `velocity`) around a primary
+ * @param mu Gravitational parameter G * (primary mass + body mass)
+ */
+export function stateToElements(position: Vector3Like, velocity: Vector3Like, mu: number): OrbitalElements {
+  const r = toReferenceFrame(position);
+  const v = toReferenceFrame(velocity);
+  const radius = r.length();
+
+  const h = new Vec3().crossVectors(r, v);
+  const hUnit = h.clone().normalize();
+  const eccentricityVector = r.clone()
+    .multiplyScalar(v.lengthSq() - mu / radius)
+    .addScaledVector(v, -r.dot(v))
+    .divideScalar(mu);
+  const eccentricity = eccentricityVector.length();
+
+  const energy = v.lengthSq() / 2 - mu / radius;
+  const semiMajorAxis = energy === 0 ? Infinity : -mu / (2 * energy);
+  const inclination = Math.acos(Math.max(-1, Math.min(1, hUnit.z)));
+
+  // Ascending node direction, or +X for equatorial orbits
+  const node = new Vec3(-h.y, h.x, 0);
+  const inclined = node.length() > DEGENERATE_TOLERANCE * h.length();
+  if (inclined) {
+    node.normalize();
+  } else {
+    node.set(1, 0, 0);
+  }
+  const longitudeOfAscendingNode = inclined ? angleAbout(new Vec3(1, 0, 0), node, new Vec3(0, 0, 1)) : 0;
+
+  // Circular orbits measure the anomaly from the node instead of periapsis
+  const eccentric = eccentricity > DEGENERATE_TOLERANCE;
+  const periapsis = eccentric ? eccentricityVector.clone().normalize() : node;
+  const argumentOfPeriapsis = eccentric ? angleAbout(node, periapsis, hUnit) : 0;
+  const trueAnomaly = angleAbout(periapsis, r, hUnit);
+
+  return {
+    semiMajorAxis,
+    eccentricity,
+    inclination,
+    longitudeOfAscendingNode,
+    argumentOfPeriapsis,
+    trueAnomaly,
+    period: semiMajorAxis > 0 ? 2 * Math.PI * Math.sqrt(semiMajorAxis ** 3 / mu) : Infinity
+  };
+}
+
+/**
+ * Elements that fix a body's place on an orbit (the period follows from them)
+ */
+export type OrbitShape = Omit<OrbitalElements, 'period'>;
+
+/**
+ * Relative state vector of a body on the orbit described by `elements`
+ * The sign of the semi-major axis is taken from the eccentricity, so a hyperbolic orbit may be
+ * given with either sign.
+ * @param mu Gravitational parameter G * (primary mass + body mass)
+ */
+export function elementsToState(elements: OrbitShape, mu: number): StateVector {
+  const { eccentricity: e, trueAnomaly: nu } = elements;
+  const semiLatusRectum = Math.abs(elements.semiMajorAxis) * Math.abs(1 - e * e);
+  const denominator = 1 + e * Math.cos(nu);
+  if (!(semiLatusRectum > 0) || !Number.isFinite(semiLatusRectum)) {
+    throw new RangeError('Orbit needs a finite, non-zero semi-major axis and an eccentricity other than 1');
+  }
+  if (denominator <= 0) {
+    throw new RangeError('True anomaly is beyond the asymptote of this hyperbolic orbit');
+  }
+
+  // Perifocal frame: periapsis along +x, motion towards +y
+  const radius = semiLatusRectum / denominator;
+  const speed = Math.sqrt(mu / semiLatusRectum);
+  const position = new Vec3(radius * Math.cos(nu), radius * Math.sin(nu), 0);
+  const velocity = new Vec3(-speed * Math.sin(nu), speed * (e + Math.cos(nu)), 0);
+
+  // Rotate by argument of periapsis, inclination, then longitude of the ascending node
+  const rotate = (v: Vec3): Vec3 => {
+    const cosW = Math.cos(elements.argumentOfPeriapsis);
+    const sinW = Math.sin(elements.argumentOfPeriapsis);
+    const cosI = Math.cos(elements.inclination);
+    const sinI = Math.sin(elements.inclination);
+    const cosO = Math.cos(elements.longitudeOfAscendingNode);
+    const sinO = Math.sin(elements.longitudeOfAscendingNode);
+
+    const x1 = v.x * cosW - v.y * sinW;
+    const y1 = v.x * sinW + v.y * cosW;
+    const y2 = y1 * cosI;
+    const z2 = y1 * sinI;
+    return fromReferenceFrame(new Vec3(x1 * cosO - y2 * sinO, x1 * sinO + y2 * cosO, z2));
+  };
+
+  return { position: rotate(position), velocity: rotate(velocity) };
+}
+
+/**
+ * Anything with a mass and a position
+ */
+interface MassiveBody {
+  mass: number;
+  position: Vector3Like;
+}
+
+/**
+ * The body that `body` orbits: the most massive other body, unless `body` lies inside the
+ * Hill sphere of a smaller body (a moon around its planet), in which case the innermost one.
+ * Returns null if no other body is heavier.
+ */
+export function findPrimary<T extends MassiveBody>(body: T, bodies: T[]): T | null {
+  let root: T | null = null;
+  for (const other of bodies) {
+    if (other !== body && (!root || other.mass > root.mass)) {
+      root = other;
+    }
+  }
+  if (!root || root.mass <= body.mass) return null;
+
+  const position = new Vec3().copy(body.position);
+  let primary = root;
+  let primaryHillRadius = Infinity;
+  for (const other of bodies) {
+    if (other === body || other === root || other.mass <= body.mass) continue;
+
+    const hillRadius = new Vec3().copy(other.position).distanceTo(root.position) *
+      Math.cbrt(other.mass / (3 * root.mass));
+    if (position.distanceTo(other.position) < hillRadius && hillRadius < primaryHillRadius) {
+      primary = other;
+      primaryHillRadius = hillRadius;
+    }
+  }
+  return primary;
+}
+
+/**
+ * A circular orbit of radius `distance`, `angle` radians round from the ascending node
+ */
+export function circularOrbit(distance: number, inclination: number = 0, angle: number = 0): OrbitShape {
+  return {
+    semiMajorAxis: distance,
+    eccentricity: 0,
+    inclination,
+    longitudeOfAscendingNode: 0,
+    argumentOfPeriapsis: 0,
+    trueAnomaly: angle
+  };
+}
+
+/**
+ * Absolute state vector for a body of mass `mass` placed on `orbit` around `parent`,
+ * moving with the parent and using the gravitational parameter G * (parent mass + mass)
+ */
+export function placeOnOrbit(
+  parent: MassiveBody & { velocity: Vector3Like },
+  mass: number,
+  orbit: OrbitShape,
+  G: number
+): StateVector {
+  const state = elementsToState(orbit, G * (parent.mass + mass));
+  return {
+    position: state.position.add(parent.position),
+    velocity: state.velocity.add(parent.velocity)
+  };
+}
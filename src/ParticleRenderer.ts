@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+
+/**
+ * Draws every test particle as one THREE.Points object
+ * The position buffer grows by doubling and only the first `count` points are drawn.
+ */
+export class ParticleRenderer {
+  points: THREE.Points;
+  geometry: THREE.BufferGeometry;
+  material: THREE.PointsMaterial;
+  private capacity: number;
+
+  constructor(scene: THREE.Scene, color: number = 0xb8a48c, size: number = 0.25) {
+    this.capacity = 0;
+    this.geometry = new THREE.BufferGeometry();
+    this.material = new THREE.PointsMaterial({
+      color,
+      size,
+      sizeAttenuation: true,
+      transparent: true,
+      opacity: 0.85,
+      depthWrite: false
+    });
+    this.allocate(1024);
+
+    this.points = new THREE.Points(this.geometry, this.material);
+    this.points.frustumCulled = false; // Bounds change every frame
+    scene.add(this.points);
+  }
+
+  /**
+   * Replace the position buffer with one that holds `capacity` points
+   */
+  private allocate(capacity: number): void {
+    this.capacity = capacity;
+    const attribute = new THREE.BufferAttribute(new Float32Array(3 * capacity), 3);
+    attribute.setUsage(THREE.DynamicDrawUsage);
+    this.geometry.setAttribute('position', attribute);
+  }
+
+  /**
+   * Show `count` particles from `positions` (3 entries per particle)
+   */
+  update(positions: Float32Array, count: number): void {
+    if (count > this.capacity) {
+      this.allocate(Math.max(count, 2 * this.capacity));
+    }
+
+    const attribute = this.geometry.getAttribute('position') as THREE.BufferAttribute;
+    (attribute.array as Float32Array).set(positions.subarray(0, 3 * count));
+    attribute.addUpdateRange(0, 3 * count);
+    attribute.needsUpdate = true;
+    this.geometry.setDrawRange(0, count);
+  }
+
+  /**
+   * Remove from the scene and free GPU resources
+   */
+  dispose(): void {
+    this.points.removeFromParent();
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+}
@@ -0,0 +1,159 @@
+import type { SeededRandom } from './Random.js';
+import type { SimulationBody } from './SimulationState.js';
+
+/**
+ * Massless test particles in struct-of-arrays layout
+ * Particles feel gravity from the engine's bodies but exert none and never interact with
+ * each other, so each costs O(N) per step and thousands fit in a scene (rings, belts, debris).
+ * Removal moves the last particle into the gap, so indices are not stable.
+ */
+export class ParticleSystem {
+  count: number;
+  capacity: number;
+  positions: Float64Array;
+  velocities: Float64Array;
+
+  constructor(capacity: number = 256) {
+    this.count = 0;
+    this.capacity = capacity;
+    this.positions = new Float64Array(3 * capacity);
+    this.velocities = new Float64Array(3 * capacity);
+  }
+
+  /**
+   * Grow the arrays to hold at least `count` particles, keeping existing entries
+   */
+  ensureCapacity(count: number): void {
+    if (count <= this.capacity) return;
+
+    const capacity = Math.max(count, 2 * this.capacity);
+    const positions = new Float64Array(3 * capacity);
+    const velocities = new Float64Array(3 * capacity);
+    positions.set(this.positions);
+    velocities.set(this.velocities);
+
+    this.positions = positions;
+    this.velocities = velocities;
+    this.capacity = capacity;
+  }
+
+  /**
+   * Append a batch of particles (3 entries per particle in each array)
+   */
+  add(batch: ParticleBatch): void {
+    const added = batch.positions.length / 3;
+    this.ensureCapacity(this.count + added);
+    this.positions.set(batch.positions, 3 * this.count);
+    this.velocities.set(batch.velocities, 3 * this.count);
+    this.count += added;
+  }
+
+  /**
+   * Remove particle `index` by moving the last particle into its place
+   */
+  remove(index: number): void {
+    if (index < 0 || index >= this.count) return;
+
+    const last = --this.count;
+    this.positions.copyWithin(3 * index, 3 * last, 3 * last + 3);
+    this.velocities.copyWithin(3 * index, 3 * last, 3 * last + 3);
+  }
+
+  /**
+   * Remove every particle
+   */
+  clear(): void {
+    this.count = 0;
+  }
+}
+
+/**
+ * Positions and velocities of newly generated particles, 3 entries per particle
+ */
+export interface ParticleBatch {
+  positions: Float64Array;
+  velocities: Float64Array;
+}
+
+/**
+ * A ring of particles in circular orbits around a body
+ */
+export interface RingOptions {
+  count: number;
+  innerRadius: number;
+  outerRadius: number;
+  thickness: number; // Full vertical extent
+}
+
+/**
+ * A belt of particles in near-circular orbits between two radii
+ */
+export interface BeltOptions {
+  count: number;
+  innerRadius: number;
+  outerRadius: number;
+  thickness: number; // Full vertical extent
+  eccentricity: number; // Largest fractional deviation from the circular speed
+}
+
+/**
+ * Place `count` particles around `center` in the plane y = center.y, orbiting the same way as
+ * the premade systems (a body on +x moving towards +z)
+ * @param radiusAt Maps a uniform sample in [0, 1) to an orbital radius
+ * @param speedFactor Multiplier applied to each particle's circular speed
+ */
+function generateOrbits(
+  center: SimulationBody,
+  count: number,
+  thickness: number,
+  G: number,
+  random: SeededRandom,
+  radiusAt: (u: number) => number,
+  speedFactor: () => number
+): ParticleBatch {
+  const positions = new Float64Array(3 * count);
+  const velocities = new Float64Array(3 * count);
+
+  for (let i = 0; i < count; i++) {
+    const radius = radiusAt(random.next());
+    const angle = random.range(0, 2 * Math.PI);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const speed = Math.sqrt(G * center.mass / radius) * speedFactor();
+
+    positions[3 * i] = center.position.x + radius * cos;
+    positions[3 * i + 1] = center.position.y + thickness * (random.next() - 0.5);
+    positions[3 * i + 2] = center.position.z + radius * sin;
+    velocities[3 * i] = center.velocity.x - speed * sin;
+    velocities[3 * i + 1] = center.velocity.y;
+    velocities[3 * i + 2] = center.velocity.z + speed * cos;
+  }
+
+  return { positions, velocities };
+}
+
+/**
+ * Generate a planetary ring: uniform surface density between the two radii, circular orbits
+ * around `center` on top of its own motion
+ */
+export function generateRing(center: SimulationBody, options: RingOptions, G: number, random: SeededRandom): ParticleBatch {
+  const inner2 = options.innerRadius * options.innerRadius;
+  const outer2 = options.outerRadius * options.outerRadius;
+  return generateOrbits(
+    center, options.count, options.thickness, G, random,
+    u => Math.sqrt(inner2 + (outer2 - inner2) * u),
+    () => 1
+  );
+}
+
+/**
+ * Generate an asteroid belt between two orbits around `central` (e.g. between two planets)
+ * Radii are uniform between the orbits and speeds are perturbed to give mildly eccentric orbits.
+ */
+export function generateBelt(central: SimulationBody, options: BeltOptions, G: number, random: SeededRandom): ParticleBatch {
+  return generateOrbits(
+    central, options.count, options.thickness, G, random,
+    u => options.innerRadius + (options.outerRadius - options.innerRadius) * u,
+    () => 1 + options.eccentricity * (2 * random.next() - 1)
+  );
+}
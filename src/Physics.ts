@@ -1,160 +1,734 @@
-import * as THREE from 'three';
-import type { CelestialBody } from './Body.js';
-import { BarnesHutTree } from './BarnesHut.js';
+import { BarnesHutTree, MultipoleOrder } from './BarnesHut.js';
+import {
+  bounceBodies,
+  CollisionMode,
+  findCollidingPairs,
+  fragmentBodies,
+  mergeBodies,
+  type CollisionEvent,
+  type FragmentationOptions
+} from './Collisions.js';
+import { softenedForceFactor, softenedPotentialFactor, SofteningKernel } from './Softening.js';
+import {
+  createIntegrator,
+  ensureBuffer,
+  IntegratorType,
+  type AccelerationSource,
+  type Integrator
+} from './Integrators.js';
+import { ParticleSystem } from './Particles.js';
+import { BodyFlag, SimulationState, type SimulationBody } from './SimulationState.js';
+import { Vec3 } from './Vec3.js';
+
+/**
+ * Copy of the engine's state at one moment, enough to resume from there exactly
+ * Entry i of the body arrays belongs to the body at index i when the keyframe was captured.
+ * Integrators keep no state between steps, so positions and velocities are all they need.
+ */
+export interface PhysicsKeyframe {
+  time: number;
+  count: number;
+  positions: Float64Array;
+  velocities: Float64Array;
+  masses: Float64Array;
+  radii: Float64Array;
+  flags: Uint8Array;
+  particlePositions: Float64Array;
+  particleVelocities: Float64Array;
+}
+
+/**
+ * Smallest of `values` (Infinity if empty), without spreading them into Math.min's arguments
+ */
+function smallest(values: ArrayLike<number>): number {
+  let result = Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < result) result = values[i];
+  }
+  return result;
+}
 
 /**
  * Physics engine for N-body gravitational simulation
- * Uses Symplectic Euler integration for better energy conservation
+ * Time integration is delegated to a pluggable Integrator (Symplectic Euler by default)
  * Supports Barnes-Hut algorithm for efficient force calculations
+ * Optionally subdivides each update into adaptive (and per-body block) time steps
+ *
+ * Physical state lives in a struct-of-arrays SimulationState; `bodies[i]` is the view of
+ * entry i. Views are refreshed after every update(), and edits made to a view must be
+ * pushed back with syncBody(). The engine does not depend on Three.js.
  */
-export class PhysicsEngine {
+export class PhysicsEngine implements AccelerationSource {
   G: number;
-  bodies: CelestialBody[];
+  state: SimulationState;
+  bodies: SimulationBody[]; // Views, indexed like the state
+  particles: ParticleSystem; // Massless test particles, moved by the bodies' gravity
   useBarnesHut: boolean;
   barnesHutTheta: number; // Opening angle threshold (0.5 is typical)
+  barnesHutOrder: MultipoleOrder; // Expansion order used for distant nodes
+  integrator: Integrator;
+
+  // Gravitational softening, shared by direct summation, Barnes-Hut and energy
+  softeningLength: number;
+  softeningKernel: SofteningKernel;
+
+  // Adaptive time stepping
+  adaptiveTimeStep: boolean;
+  timeStepTolerance: number; // Accuracy parameter eta in dt = eta * sqrt(|a| / |jerk|)
+  minTimeStep: number;
+  maxTimeStep: number;
+  useBlockTimeSteps: boolean; // Hierarchical power-of-two steps per body
+  lastEffectiveStep: number; // Smallest step actually taken during the last update()
+  time: number; // Simulated time elapsed, advanced by every update()
+
+  // Collisions
+  collisionMode: CollisionMode;
+  fragmentation: FragmentationOptions; // Used when collisionMode is Fragment
+  onCollision: ((event: CollisionEvent) => void) | null; // Called after a merge or fragmentation
+  createBody: (data: SimulationBody) => SimulationBody; // Makes the views for fragments
 
-  constructor(gravitationalConstant = 1.0, useBarnesHut: boolean = true, barnesHutTheta: number = 0.5) {
+  private barnesHutTree: BarnesHutTree | null; // Rebuilt in place each step to reuse its node pool
+  private blockAccelerations: Float64Array; // Scratch buffer for block time steps
+  private timeStepCriteria: Float64Array; // Reused result of calculateTimeStepCriteria
+  private particleAccelerations: Float64Array;
+
+  constructor(
+    gravitationalConstant = 1.0,
+    useBarnesHut: boolean = true,
+    barnesHutTheta: number = 0.5,
+    integratorType: IntegratorType = IntegratorType.SymplecticEuler
+  ) {
     this.G = gravitationalConstant;
+    this.state = new SimulationState();
     this.bodies = [];
+    this.particles = new ParticleSystem();
     this.useBarnesHut = useBarnesHut;
     this.barnesHutTheta = barnesHutTheta;
+    this.barnesHutOrder = MultipoleOrder.Quadrupole;
+    this.integrator = createIntegrator(integratorType);
+
+    this.softeningLength = 0.1;
+    this.softeningKernel = SofteningKernel.Spline;
+
+    this.adaptiveTimeStep = false;
+    this.timeStepTolerance = 0.05;
+    this.minTimeStep = 1e-4;
+    this.maxTimeStep = 0.05;
+    this.useBlockTimeSteps = false;
+    this.lastEffectiveStep = 0;
+    this.time = 0;
+
+    this.collisionMode = CollisionMode.None;
+    this.fragmentation = {
+      fragmentCount: 6,
+      minFragmentMass: 0.01,
+      coneAngle: Math.PI / 6
+    };
+    this.onCollision = null;
+    this.createBody = (data) => data;
+
+    this.barnesHutTree = null;
+    this.blockAccelerations = new Float64Array(0);
+    this.timeStepCriteria = new Float64Array(0);
+    this.particleAccelerations = new Float64Array(0);
   }
 
   /**
-   * Add a body to the simulation
+   * Switch the integration scheme (no-op if already selected)
    */
-  addBody(body: CelestialBody): void {
-    this.bodies.push(body);
+  setIntegrator(type: IntegratorType): void {
+    if (this.integrator.type !== type) {
+      this.integrator = createIntegrator(type);
+    }
+  }
+
+  /**
+   * Add a body to the simulation (ignored if it is already present)
+   */
+  addBody(body: SimulationBody): void {
+    if (!this.bodies.includes(body)) {
+      this.bodies.push(body);
+      this.state.add(body);
+    }
   }
 
   /**
    * Remove a body from the simulation
    */
-  removeBody(body: CelestialBody): void {
+  removeBody(body: SimulationBody): void {
     const index = this.bodies.indexOf(body);
     if (index > -1) {
       this.bodies.splice(index, 1);
+      this.state.remove(index);
+    }
+  }
+
+  /**
+   * Push edits made to a body's view (position, velocity, mass, radius, static flag) into the state
+   */
+  syncBody(body: SimulationBody): void {
+    const index = this.bodies.indexOf(body);
+    if (index > -1) {
+      this.state.write(index, body);
+    }
+  }
+
+  /**
+   * Suspend (or resume) a body's motion, e.g. while the user drags it
+   * A held body still attracts the others but is not moved or accelerated.
+   */
+  holdBody(body: SimulationBody, held: boolean): void {
+    const index = this.bodies.indexOf(body);
+    if (index > -1) {
+      this.state.setHeld(index, held);
+    }
+  }
+
+  /**
+   * Copy the state of every body and test particle, and the simulated time
+   */
+  captureKeyframe(): PhysicsKeyframe {
+    const { state, particles } = this;
+    return {
+      time: this.time,
+      count: state.count,
+      positions: state.positions.slice(0, 3 * state.count),
+      velocities: state.velocities.slice(0, 3 * state.count),
+      masses: state.masses.slice(0, state.count),
+      radii: state.radii.slice(0, state.count),
+      flags: state.flags.slice(0, state.count),
+      particlePositions: particles.positions.slice(0, 3 * particles.count),
+      particleVelocities: particles.velocities.slice(0, 3 * particles.count)
+    };
+  }
+
+  /**
+   * Go back to a captured keyframe
+   * @param bodies Views for the keyframe's entries, in order; they replace the current bodies
+   * and are refreshed from the keyframe. Bodies held when it was captured are released.
+   */
+  restoreKeyframe(keyframe: PhysicsKeyframe, bodies: SimulationBody[]): void {
+    const { state, particles } = this;
+    state.ensureCapacity(keyframe.count);
+    state.count = keyframe.count;
+    state.positions.set(keyframe.positions);
+    state.velocities.set(keyframe.velocities);
+    state.masses.set(keyframe.masses);
+    state.radii.set(keyframe.radii);
+    state.flags.set(keyframe.flags);
+
+    const particleCount = keyframe.particlePositions.length / 3;
+    particles.ensureCapacity(particleCount);
+    particles.count = particleCount;
+    particles.positions.set(keyframe.particlePositions);
+    particles.velocities.set(keyframe.particleVelocities);
+
+    this.bodies = [...bodies];
+    for (let i = 0; i < this.bodies.length; i++) {
+      state.setHeld(i, false);
+      state.read(i, this.bodies[i]);
+      this.bodies[i].isStatic = (state.flags[i] & BodyFlag.Static) !== 0;
+    }
+    this.time = keyframe.time;
+  }
+
+  /**
+   * Copy positions and velocities from the state into every view
+   */
+  syncViews(): void {
+    for (let i = 0; i < this.bodies.length; i++) {
+      this.state.readMotion(i, this.bodies[i]);
     }
   }
 
   /**
    * Calculate gravitational force between two bodies
-   * F = G * (m1 * m2) / r^2
-   * Returns force vector acting on body1
+   * F = G * (m1 * m2) / r^2, softened at short range by the selected kernel
+   * Returns force vector acting on body1 (zero for coincident bodies)
    */
-  calculateGravityForce(body1: CelestialBody, body2: CelestialBody): THREE.Vector3 {
-    const direction = new THREE.Vector3().subVectors(body2.position, body1.position);
+  calculateGravityForce(body1: SimulationBody, body2: SimulationBody): Vec3 {
+    const direction = new Vec3().copy(body2.position).sub(body1.position);
     const distanceSquared = direction.lengthSq();
 
-    // Avoid division by zero and extreme forces at very close distances
-    const minDistance = 0.1;
-    const clampedDistanceSquared = Math.max(distanceSquared, minDistance * minDistance);
+    // Scaling the unnormalized direction by G * m1 * m2 * g(r) gives the force vector
+    const factor = softenedForceFactor(distanceSquared, this.softeningLength, this.softeningKernel);
+    return direction.multiplyScalar(this.G * body1.mass * body2.mass * factor);
+  }
 
-    // If bodies are at the same position, return a small random force to separate them
-    if (distanceSquared < 0.001) {
-      const randomDirection = new THREE.Vector3(
-        (Math.random() - 0.5) * 0.1,
-        (Math.random() - 0.5) * 0.1,
-        (Math.random() - 0.5) * 0.1
-      );
-      const forceMagnitude = this.G * (body1.mass * body2.mass) / clampedDistanceSquared;
-      return randomDirection.normalize().multiplyScalar(forceMagnitude);
+  /**
+   * Calculate total gravitational force on a body from all other bodies
+   * Uses direct summation over the state (Barnes-Hut is handled in computeAccelerations())
+   */
+  calculateTotalForce(body: SimulationBody): Vec3 {
+    const index = this.bodies.indexOf(body);
+    if (index < 0) {
+      return new Vec3();
     }
 
-    const forceMagnitude = this.G * (body1.mass * body2.mass) / clampedDistanceSquared;
+    const out = new Float64Array(3 * (index + 1));
+    this.addDirectAcceleration(index, out);
+    const mass = this.state.masses[index];
+    return new Vec3(out[3 * index] * mass, out[3 * index + 1] * mass, out[3 * index + 2] * mass);
+  }
 
-    // Normalize direction and scale by force magnitude
-    direction.normalize().multiplyScalar(forceMagnitude);
+  /**
+   * Add the directly summed acceleration of body `index` to entries 3 * index.. of `out`
+   */
+  private addDirectAcceleration(index: number, out: Float64Array): void {
+    const { positions, masses } = this.state;
+    const x = positions[3 * index];
+    const y = positions[3 * index + 1];
+    const z = positions[3 * index + 2];
+    let ax = 0, ay = 0, az = 0;
 
-    return direction;
+    for (let j = 0; j < this.state.count; j++) {
+      if (j === index) continue;
+
+      const dx = positions[3 * j] - x;
+      const dy = positions[3 * j + 1] - y;
+      const dz = positions[3 * j + 2] - z;
+      const factor = softenedForceFactor(dx * dx + dy * dy + dz * dz, this.softeningLength, this.softeningKernel);
+      const scale = this.G * masses[j] * factor;
+      ax += dx * scale;
+      ay += dy * scale;
+      az += dz * scale;
+    }
+
+    out[3 * index] += ax;
+    out[3 * index + 1] += ay;
+    out[3 * index + 2] += az;
   }
 
   /**
-   * Calculate total gravitational force on a body from all other bodies
-   * Uses direct calculation (Barnes-Hut is handled in update() for efficiency)
+   * Write the acceleration of every body at the current positions into `out`
+   * Rebuilds the Barnes-Hut tree once per call if enabled, otherwise uses direct summation.
+   * Static bodies, and bodies with active[i] === false, get a zero acceleration.
    */
-  calculateTotalForce(body: CelestialBody): THREE.Vector3 {
-    // Direct calculation (more accurate for small numbers of bodies)
-    const totalForce = new THREE.Vector3(0, 0, 0);
+  computeAccelerations(out: Float64Array, active?: boolean[]): void {
+    const state = this.state;
+    out.fill(0, 0, 3 * state.count);
+
+    const tree = this.buildTree();
+    for (let i = 0; i < state.count; i++) {
+      if (state.isStatic(i) || (active && !active[i])) continue;
+      if (tree) {
+        tree.accumulateAcceleration(i, this.G, out);
+      } else {
+        this.addDirectAcceleration(i, out);
+      }
+    }
+  }
+
+  /**
+   * Rebuild the Barnes-Hut tree over the current positions, or return null when it is not in use
+   */
+  private buildTree(): BarnesHutTree | null {
+    const state = this.state;
+    if (!this.useBarnesHut || state.count <= 2) {
+      return null;
+    }
+
+    const bounds = BarnesHutTree.calculateBounds(state, 10);
+    if (this.barnesHutTree) {
+      this.barnesHutTree.setParameters(
+        this.barnesHutTheta, this.softeningLength, this.softeningKernel, this.barnesHutOrder
+      );
+      this.barnesHutTree.build(state, bounds);
+    } else {
+      this.barnesHutTree = new BarnesHutTree(
+        state, bounds, this.barnesHutTheta, this.softeningLength, this.softeningKernel,
+        this.barnesHutOrder
+      );
+    }
+    return this.barnesHutTree;
+  }
+
+  /**
+   * Write the acceleration of every test particle, due to the bodies only, into `out`
+   * Particles outside the tree's bounds fall back to direct summation.
+   */
+  computeParticleAccelerations(out: Float64Array): void {
+    const { positions, masses, count } = this.state;
+    const particles = this.particles;
+    out.fill(0, 0, 3 * particles.count);
+
+    const tree = this.buildTree();
+
+    for (let p = 0; p < particles.count; p++) {
+      const x = particles.positions[3 * p];
+      const y = particles.positions[3 * p + 1];
+      const z = particles.positions[3 * p + 2];
+
+      if (tree && tree.contains(x, y, z)) {
+        tree.accumulateAccelerationAt(x, y, z, -1, this.G, out, 3 * p);
+        continue;
+      }
+
+      let ax = 0, ay = 0, az = 0;
+      for (let j = 0; j < count; j++) {
+        const dx = positions[3 * j] - x;
+        const dy = positions[3 * j + 1] - y;
+        const dz = positions[3 * j + 2] - z;
+        const factor = softenedForceFactor(dx * dx + dy * dy + dz * dz, this.softeningLength, this.softeningKernel);
+        const scale = this.G * masses[j] * factor;
+        ax += dx * scale;
+        ay += dy * scale;
+        az += dz * scale;
+      }
+      out[3 * p] = ax;
+      out[3 * p + 1] = ay;
+      out[3 * p + 2] = az;
+    }
+  }
 
-    for (const otherBody of this.bodies) {
-      if (otherBody === body) continue;
+  /**
+   * Kick every particle with the bodies' gravity at their current positions: v = v + a * dt
+   */
+  private kickParticles(deltaTime: number): void {
+    const particles = this.particles;
+    const accelerations = this.particleAccelerations = ensureBuffer(this.particleAccelerations, 3 * particles.count);
+    this.computeParticleAccelerations(accelerations);
 
-      const force = this.calculateGravityForce(body, otherBody);
-      totalForce.add(force);
+    for (let i = 0; i < 3 * particles.count; i++) {
+      particles.velocities[i] += accelerations[i] * deltaTime;
     }
+  }
 
-    return totalForce;
+  /**
+   * Remove particles that have hit a body (skipped when collisions are disabled)
+   */
+  private absorbParticles(): void {
+    if (this.collisionMode === CollisionMode.None) return;
+
+    const { positions, radii, count } = this.state;
+    const particles = this.particles;
+    let p = 0;
+    while (p < particles.count) {
+      let absorbed = false;
+      for (let j = 0; j < count && !absorbed; j++) {
+        const dx = positions[3 * j] - particles.positions[3 * p];
+        const dy = positions[3 * j + 1] - particles.positions[3 * p + 1];
+        const dz = positions[3 * j + 2] - particles.positions[3 * p + 2];
+        absorbed = dx * dx + dy * dy + dz * dz < radii[j] * radii[j];
+      }
+      if (absorbed) {
+        particles.remove(p); // The last particle moves into slot p, so check it next
+      } else {
+        p++;
+      }
+    }
   }
 
   /**
-   * Update simulation using Symplectic Euler integration
-   * This method is better than standard Euler for orbital mechanics
-   * as it conserves energy better
+   * Advance the simulation by deltaTime using the selected integrator
+   * In adaptive mode deltaTime is split into substeps chosen from each body's acceleration and jerk
+   * Views are refreshed before collisions are handled, so onCollision sees current positions
+   * Test particles take one kick-drift-kick step around the bodies' step (even in adaptive
+   * mode), then any that ended up inside a body are absorbed
    */
   update(deltaTime: number): void {
-    // Calculate all forces first
-    const forces = new Map<CelestialBody, THREE.Vector3>();
+    const hasParticles = this.particles.count > 0;
+    if (hasParticles) {
+      this.kickParticles(deltaTime / 2);
+    }
+
+    if (!this.adaptiveTimeStep) {
+      this.integrator.step(this, deltaTime);
+      this.lastEffectiveStep = deltaTime;
+    } else if (this.useBlockTimeSteps) {
+      this.updateBlockTimeSteps(deltaTime);
+    } else {
+      this.updateAdaptive(deltaTime);
+    }
+
+    if (hasParticles) {
+      const { positions, velocities } = this.particles;
+      for (let i = 0; i < 3 * this.particles.count; i++) {
+        positions[i] += velocities[i] * deltaTime;
+      }
+      this.kickParticles(deltaTime / 2);
+    }
+
+    this.time += deltaTime;
+    this.syncViews();
+    this.handleCollisions();
+    this.absorbParticles();
+  }
+
+  /**
+   * Detect overlapping bodies and resolve them according to collisionMode
+   * Absorbed bodies are removed from the engine and fragments added to it before onCollision is called
+   * In Fragment mode, impacts below the target's binding energy fall back to a merge
+   */
+  handleCollisions(): void {
+    if (this.collisionMode === CollisionMode.None) return;
+
+    // Indices shift as bodies are removed, so pairs are tracked by body
+    const pairs = findCollidingPairs(this.state).map(([a, b]) => [this.bodies[a], this.bodies[b]]);
+    const removed = new Set<SimulationBody>();
+
+    for (const [bodyA, bodyB] of pairs) {
+      if (removed.has(bodyA) || removed.has(bodyB)) continue;
+      const a = this.bodies.indexOf(bodyA);
+      const b = this.bodies.indexOf(bodyB);
 
-    // Build Barnes-Hut tree once per frame if using it
-    let tree: BarnesHutTree | null = null;
-    if (this.useBarnesHut && this.bodies.length > 2) {
-      const bounds = BarnesHutTree.calculateBounds(this.bodies, 10);
-      tree = new BarnesHutTree(this.bodies, bounds, this.barnesHutTheta);
+      if (this.collisionMode === CollisionMode.Bounce) {
+        bounceBodies(this.state, a, b);
+        this.state.readMotion(a, bodyA);
+        this.state.readMotion(b, bodyB);
+        continue;
+      }
+
+      const event = (this.collisionMode === CollisionMode.Fragment &&
+        fragmentBodies(this.state, this.bodies, a, b, this.G, this.fragmentation, this.createBody)) ||
+        mergeBodies(this.state, this.bodies, a, b);
+      for (const body of event.removed) {
+        removed.add(body);
+        this.removeBody(body);
+      }
+      for (const body of event.created) {
+        this.addBody(body);
+      }
+      if (this.onCollision) {
+        this.onCollision(event);
+      }
     }
+  }
+
+  /**
+   * Calculate the preferred time step of every body using the Aarseth-style
+   * criterion dt = eta * sqrt(|a| / |jerk|), by direct summation or, with Barnes-Hut on, the tree
+   * The softening length enters through a Plummer-form (r^2 + eps^2) for both kernels
+   * Static bodies, bodies without jerk and bodies masked out by `active` get Infinity
+   * The result is a view of a buffer reused by the next call.
+   */
+  calculateTimeStepCriteria(active?: boolean[]): Float64Array {
+    const softeningSquared = this.softeningLength * this.softeningLength;
+    const { positions, velocities, masses } = this.state;
+    const criteria = this.timeStepCriteria = ensureBuffer(this.timeStepCriteria, this.state.count);
+    const tree = this.buildTree();
 
-    for (const body of this.bodies) {
+    for (let i = 0; i < this.state.count; i++) {
+      if (this.state.isStatic(i) || (active && !active[i])) {
+        criteria[i] = Infinity;
+        continue;
+      }
       if (tree) {
-        // Use pre-built tree
-        forces.set(body, tree.calculateForce(body, this.G));
-      } else {
-        // Use direct calculation
-        forces.set(body, this.calculateTotalForce(body));
+        criteria[i] = tree.timeStepCriterion(i, this.G, this.timeStepTolerance);
+        continue;
       }
+
+      let ax = 0, ay = 0, az = 0;
+      let jx = 0, jy = 0, jz = 0;
+
+      for (let j = 0; j < this.state.count; j++) {
+        if (j === i) continue;
+
+        const rx = positions[3 * j] - positions[3 * i];
+        const ry = positions[3 * j + 1] - positions[3 * i + 1];
+        const rz = positions[3 * j + 2] - positions[3 * i + 2];
+        const vx = velocities[3 * j] - velocities[3 * i];
+        const vy = velocities[3 * j + 1] - velocities[3 * i + 1];
+        const vz = velocities[3 * j + 2] - velocities[3 * i + 2];
+
+        const r2 = rx * rx + ry * ry + rz * rz + softeningSquared;
+        if (r2 === 0) continue;
+        const invR3 = 1 / (r2 * Math.sqrt(r2));
+        const gm = this.G * masses[j];
+        const rv = 3 * (rx * vx + ry * vy + rz * vz) / r2;
+
+        ax += gm * rx * invR3;
+        ay += gm * ry * invR3;
+        az += gm * rz * invR3;
+        jx += gm * (vx - rv * rx) * invR3;
+        jy += gm * (vy - rv * ry) * invR3;
+        jz += gm * (vz - rv * rz) * invR3;
+      }
+
+      const acceleration = Math.sqrt(ax * ax + ay * ay + az * az);
+      const jerk = Math.sqrt(jx * jx + jy * jy + jz * jz);
+      criteria[i] = jerk > 0 ? this.timeStepTolerance * Math.sqrt(acceleration / jerk) : Infinity;
     }
 
-    // Update velocities based on forces (v = v + a * dt)
-    for (const body of this.bodies) {
-      if (body.isStatic) continue;
+    return criteria.subarray(0, this.state.count);
+  }
 
-      const force = forces.get(body)!;
-      const acceleration = force.clone().divideScalar(body.mass);
-      body.velocity.add(acceleration.multiplyScalar(deltaTime));
+  /**
+   * Shared step: every body advances with the smallest preferred step
+   */
+  private updateAdaptive(deltaTime: number): void {
+    let remaining = deltaTime;
+    let smallestStep = deltaTime;
+
+    while (remaining > 1e-12) {
+      const preferred = smallest(this.calculateTimeStepCriteria());
+      const step = Math.min(
+        Math.max(Math.min(preferred, this.maxTimeStep), this.minTimeStep),
+        remaining
+      );
+
+      this.integrator.step(this, step);
+      remaining -= step;
+      smallestStep = Math.min(smallestStep, step);
     }
 
-    // Update positions based on NEW velocities (x = x + v * dt)
-    // This is the key difference from standard Euler
-    for (const body of this.bodies) {
-      if (body.isStatic) continue;
+    this.lastEffectiveStep = smallestStep;
+  }
+
+  /**
+   * Hierarchical block time steps using kick-drift-kick leapfrog
+   * Each block of length H sits on a grid of 2^L ticks. A body on level k takes steps of
+   * H / 2^k and is only kicked (and has its force evaluated) at multiples of that step, so
+   * fast inner bodies substep more often than slow outer ones. Levels are re-chosen at
+   * every step boundary; a body may only coarsen where the coarser step stays aligned.
+   * The selected integrator is not used in this mode.
+   */
+  private updateBlockTimeSteps(deltaTime: number): void {
+    const state = this.state;
+    const { positions, velocities } = state;
+    let remaining = deltaTime;
+    let smallestStep = deltaTime;
+
+    // v = v + a * dt for one non-static body
+    const kickBody = (i: number, accelerations: Float64Array, dt: number) => {
+      if (state.isStatic(i)) return;
+      velocities[3 * i] += accelerations[3 * i] * dt;
+      velocities[3 * i + 1] += accelerations[3 * i + 1] * dt;
+      velocities[3 * i + 2] += accelerations[3 * i + 2] * dt;
+    };
+
+    while (remaining > 1e-12) {
+      const blockStep = Math.min(this.maxTimeStep, remaining);
+      const maxLevel = Math.max(0, Math.floor(Math.log2(blockStep / this.minTimeStep)));
+      const ticks = 2 ** maxLevel;
+      const tick = blockStep / ticks;
+      const count = state.count;
+
+      // Pick the coarsest level whose step satisfies dt, aligned with the current tick
+      const chooseStride = (dt: number, now: number): number => {
+        let level = Number.isFinite(dt) ? Math.ceil(Math.log2(blockStep / dt)) : 0;
+        level = Math.min(Math.max(level, 0), maxLevel);
+        let stride = ticks / 2 ** level;
+        while (now % stride !== 0) stride /= 2;
+        return stride;
+      };
+
+      const strides = Array.from(this.calculateTimeStepCriteria(), dt => chooseStride(dt, 0));
+      const nextTick = strides.slice();
+      const accelerations = this.blockAccelerations = ensureBuffer(this.blockAccelerations, 3 * count);
+      this.computeAccelerations(accelerations);
 
-      const displacement = body.velocity.clone().multiplyScalar(deltaTime);
-      body.position.add(displacement);
+      // Opening half-kick for every body
+      for (let i = 0; i < count; i++) {
+        kickBody(i, accelerations, strides[i] * tick / 2);
+      }
+
+      let now = 0;
+      while (now < ticks) {
+        const next = Math.min(smallest(nextTick), ticks);
+
+        for (let i = 0; i < count; i++) {
+          if (state.isStatic(i)) continue;
+          const dt = (next - now) * tick;
+          positions[3 * i] += velocities[3 * i] * dt;
+          positions[3 * i + 1] += velocities[3 * i + 1] * dt;
+          positions[3 * i + 2] += velocities[3 * i + 2] * dt;
+        }
+        now = next;
+
+        // Bodies finishing their step: closing half-kick, new level, opening half-kick
+        const closing = nextTick.map(t => t === now);
+        this.computeAccelerations(accelerations, closing);
+        const closingCriteria = now < ticks ? this.calculateTimeStepCriteria(closing) : null;
+
+        for (let i = 0; i < count; i++) {
+          if (!closing[i]) continue;
+          smallestStep = Math.min(smallestStep, strides[i] * tick);
+
+          kickBody(i, accelerations, strides[i] * tick / 2);
+          if (now === ticks) continue;
+
+          strides[i] = chooseStride(closingCriteria![i], now);
+          nextTick[i] = now + strides[i];
+          kickBody(i, accelerations, strides[i] * tick / 2);
+        }
+      }
+
+      remaining -= blockStep;
     }
+
+    this.lastEffectiveStep = smallestStep;
   }
 
   /**
-   * Calculate total energy of the system (for debugging/testing)
+   * Total kinetic energy: sum of 1/2 * m * v^2
    */
-  getTotalEnergy(): number {
+  getKineticEnergy(): number {
+    const { velocities, masses } = this.state;
     let kineticEnergy = 0;
-    let potentialEnergy = 0;
-
-    // Kinetic energy: KE = 0.5 * m * v^2
-    for (const body of this.bodies) {
-      kineticEnergy += 0.5 * body.mass * body.velocity.lengthSq();
+    for (let i = 0; i < this.state.count; i++) {
+      const vx = velocities[3 * i];
+      const vy = velocities[3 * i + 1];
+      const vz = velocities[3 * i + 2];
+      kineticEnergy += 0.5 * masses[i] * (vx * vx + vy * vy + vz * vz);
     }
+    return kineticEnergy;
+  }
 
-    // Potential energy: PE = -G * m1 * m2 / r
-    for (let i = 0; i < this.bodies.length; i++) {
-      for (let j = i + 1; j < this.bodies.length; j++) {
-        const body1 = this.bodies[i];
-        const body2 = this.bodies[j];
-        const distance = body1.position.distanceTo(body2.position);
-        potentialEnergy -= this.G * body1.mass * body2.mass / Math.max(distance, 0.1);
+  /**
+   * Total potential energy: sum of -G * m1 * m2 / r, softened with the same kernel as the forces
+   */
+  getPotentialEnergy(): number {
+    const { positions, masses } = this.state;
+    let potentialEnergy = 0;
+    for (let i = 0; i < this.state.count; i++) {
+      for (let j = i + 1; j < this.state.count; j++) {
+        const dx = positions[3 * j] - positions[3 * i];
+        const dy = positions[3 * j + 1] - positions[3 * i + 1];
+        const dz = positions[3 * j + 2] - positions[3 * i + 2];
+        potentialEnergy -= this.G * masses[i] * masses[j] *
+          softenedPotentialFactor(dx * dx + dy * dy + dz * dz, this.softeningLength, this.softeningKernel);
       }
     }
+    return potentialEnergy;
+  }
+
+  /**
+   * Calculate total energy of the system
+   */
+  getTotalEnergy(): number {
+    return this.getKineticEnergy() + this.getPotentialEnergy();
+  }
+
+  /**
+   * Total linear momentum: sum of m * v
+   */
+  getLinearMomentum(): Vec3 {
+    const { velocities, masses } = this.state;
+    const momentum = new Vec3();
+    for (let i = 0; i < this.state.count; i++) {
+      momentum.x += masses[i] * velocities[3 * i];
+      momentum.y += masses[i] * velocities[3 * i + 1];
+      momentum.z += masses[i] * velocities[3 * i + 2];
+    }
+    return momentum;
+  }
 
-    return kineticEnergy + potentialEnergy;
+  /**
+   * Total angular momentum about the origin: sum of r x m * v
+   */
+  getAngularMomentum(): Vec3 {
+    const { positions, velocities, masses } = this.state;
+    const angularMomentum = new Vec3();
+    const position = new Vec3();
+    const velocity = new Vec3();
+    const contribution = new Vec3();
+    for (let i = 0; i < this.state.count; i++) {
+      position.set(positions[3 * i], positions[3 * i + 1], positions[3 * i + 2]);
+      velocity.set(velocities[3 * i], velocities[3 * i + 1], velocities[3 * i + 2]);
+      contribution.crossVectors(position, velocity);
+      angularMomentum.addScaledVector(contribution, masses[i]);
+    }
+    return angularMomentum;
   }
 }
-
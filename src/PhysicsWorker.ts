@@ -0,0 +1,21 @@
+import { SimulationCore } from './SimulationCore.js';
+import { transferablesOf, type SimulationCommand, type SimulationEvent } from './SimulationProtocol.js';
+
+/**
+ * Web Worker entry point: runs the simulation off the main thread
+ * Commands arrive in order from SimulationHost and every resulting event is posted back.
+ */
+
+// The DOM lib types `self` as a Window, so describe the worker scope we actually use
+const scope = self as unknown as {
+  onmessage: ((message: MessageEvent<SimulationCommand>) => void) | null;
+  postMessage(event: SimulationEvent, transfer: Transferable[]): void;
+};
+
+const core = new SimulationCore();
+
+scope.onmessage = (message) => {
+  for (const event of core.handle(message.data)) {
+    scope.postMessage(event, transferablesOf(event));
+  }
+};
@@ -0,0 +1,306 @@
+import type { CelestialBody } from './Body.js';
+import { circularOrbit, placeOnOrbit, type OrbitShape, type StateVector } from './Orbits.js';
+import { randomService } from './Random.js';
+import { Vec3 } from './Vec3.js';
+
+export type PlacementMode = 'circular' | 'elements';
+
+/**
+ * Dialog for placing a new body on an orbit around a body already in the scene
+ * Either "circular at distance r" or full Keplerian elements (angles in degrees), relative
+ * to the chosen parent and moving with it.
+ */
+export class PlacementDialog {
+  private modal: HTMLElement;
+  private title: HTMLElement;
+  private form: HTMLElement;
+  private body: CelestialBody | null = null;
+  private getCandidates: () => CelestialBody[] = () => [];
+  private candidates: CelestialBody[] = []; // Copy taken when the form was built
+  private G: number = 1.0;
+
+  private formData: {
+    parentId: string | null; // ID of the parent, or null for none (placed at rest at the origin)
+    mode: PlacementMode;
+    distance: number;
+    angle: number;
+    semiMajorAxis: number;
+    eccentricity: number;
+    inclination: number;
+    longitudeOfAscendingNode: number;
+    argumentOfPeriapsis: number;
+    trueAnomaly: number;
+  } = {
+    parentId: null,
+    mode: 'circular',
+    distance: 50,
+    angle: 0,
+    semiMajorAxis: 50,
+    eccentricity: 0,
+    inclination: 0,
+    longitudeOfAscendingNode: 0,
+    argumentOfPeriapsis: 0,
+    trueAnomaly: 0
+  };
+
+  private resolveCallback: ((state: StateVector | null) => void) | null = null;
+
+  constructor() {
+    this.modal = this.createModal();
+    this.title = this.modal.querySelector('h2') as HTMLElement;
+    this.form = this.modal.querySelector('.create-planet-form') as HTMLElement;
+    document.body.appendChild(this.modal);
+  }
+
+  /**
+   * Show the dialog for `body`; resolves with its absolute state vector, or null if cancelled
+   * @param getCandidates Bodies that can be chosen as the parent, asked again on placing
+   *   since the scene keeps running while the dialog is open
+   * @param G Gravitational constant the simulation is running with
+   */
+  show(body: CelestialBody, getCandidates: () => CelestialBody[], G: number): Promise<StateVector | null> {
+    this.body = body;
+    this.getCandidates = getCandidates;
+    this.candidates = [...getCandidates()];
+    this.G = G;
+
+    // Default to the heaviest body, a little way out at a random (seeded) angle
+    let parent: CelestialBody | null = null;
+    for (const candidate of this.candidates) {
+      if (!parent || candidate.mass > parent.mass) {
+        parent = candidate;
+      }
+    }
+    const distance = parent ? 10 * parent.radius : 50;
+    const angle = randomService.stream('placement').next() * 360;
+    this.formData = {
+      ...this.formData,
+      parentId: parent ? parent.id : null,
+      distance,
+      angle,
+      semiMajorAxis: distance,
+      trueAnomaly: angle
+    };
+
+    this.title.textContent = `PLACE ${body.name.toUpperCase()}`;
+    this.renderForm();
+
+    return new Promise((resolve) => {
+      this.resolveCallback = resolve;
+      this.modal.style.display = 'flex';
+    });
+  }
+
+  /**
+   * Hide the dialog, resolving with `state`
+   */
+  private hide(state: StateVector | null = null): void {
+    this.modal.style.display = 'none';
+    this.body = null;
+    this.getCandidates = () => [];
+    this.candidates = [];
+    if (this.resolveCallback) {
+      this.resolveCallback(state);
+      this.resolveCallback = null;
+    }
+  }
+
+  /**
+   * Create the modal shell (the form is rebuilt on every show)
+   */
+  private createModal(): HTMLElement {
+    const modal = document.createElement('div');
+    modal.className = 'create-planet-modal placement-dialog';
+    modal.style.display = 'none';
+
+    const content = document.createElement('div');
+    content.className = 'create-planet-modal-content';
+
+    // Header
+    const header = document.createElement('div');
+    header.className = 'create-planet-modal-header';
+    header.innerHTML = '<h2>PLACE BODY</h2>';
+    const closeBtn = document.createElement('button');
+    closeBtn.className = 'create-planet-modal-close';
+    closeBtn.innerHTML = '×';
+    closeBtn.onclick = () => this.hide();
+    header.appendChild(closeBtn);
+    content.appendChild(header);
+
+    // Body with the form
+    const body = document.createElement('div');
+    body.className = 'create-planet-modal-body';
+    const formContainer = document.createElement('div');
+    formContainer.className = 'create-planet-form';
+    body.appendChild(formContainer);
+    content.appendChild(body);
+
+    // Footer with buttons
+    const footer = document.createElement('div');
+    footer.className = 'create-planet-modal-footer';
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'btn-cancel';
+    cancelBtn.textContent = 'CANCEL';
+    cancelBtn.onclick = () => this.hide();
+    const placeBtn = document.createElement('button');
+    placeBtn.className = 'btn-create';
+    placeBtn.textContent = 'PLACE';
+    placeBtn.onclick = () => this.place();
+    footer.appendChild(cancelBtn);
+    footer.appendChild(placeBtn);
+    content.appendChild(footer);
+
+    modal.appendChild(content);
+
+    // Close on backdrop click
+    modal.onclick = (e) => {
+      if (e.target === modal) {
+        this.hide();
+      }
+    };
+
+    return modal;
+  }
+
+  /**
+   * Rebuild the form for the current parent choice and mode
+   */
+  private renderForm(): void {
+    this.form.innerHTML = '';
+
+    // Parent selection
+    const parentGroup = document.createElement('div');
+    parentGroup.className = 'form-group';
+    parentGroup.innerHTML = '<label>PARENT</label>';
+    const parentSelect = document.createElement('select');
+    parentSelect.add(new Option('None (at rest at the origin)', ''));
+    for (const candidate of this.candidates) {
+      parentSelect.add(new Option(`${candidate.name} (M ${candidate.mass.toFixed(2)})`, candidate.id));
+    }
+    parentSelect.value = this.formData.parentId ?? '';
+    parentSelect.onchange = () => {
+      this.formData.parentId = parentSelect.value || null;
+      this.renderForm();
+    };
+    parentGroup.appendChild(parentSelect);
+    this.form.appendChild(parentGroup);
+
+    if (this.formData.parentId === null) return;
+
+    // Mode selection
+    const modeGroup = document.createElement('div');
+    modeGroup.className = 'form-group';
+    modeGroup.innerHTML = '<label>ORBIT</label>';
+    const modeContainer = document.createElement('div');
+    modeContainer.className = 'radio-group';
+    const modes: [PlacementMode, string][] = [['circular', 'CIRCULAR'], ['elements', 'ELEMENTS']];
+    for (const [mode, text] of modes) {
+      const radio = document.createElement('input');
+      radio.type = 'radio';
+      radio.name = 'placement-mode';
+      radio.checked = this.formData.mode === mode;
+      radio.onchange = () => {
+        this.formData.mode = mode;
+        this.renderForm();
+      };
+      const label = document.createElement('label');
+      label.textContent = text;
+      label.appendChild(radio);
+      modeContainer.appendChild(label);
+    }
+    modeGroup.appendChild(modeContainer);
+    this.form.appendChild(modeGroup);
+
+    if (this.formData.mode === 'circular') {
+      this.addNumberInput('DISTANCE', 'distance', 0.01);
+      this.addNumberInput('INCLINATION (DEG)', 'inclination', 1);
+      this.addNumberInput('ANGLE FROM NODE (DEG)', 'angle', 1);
+    } else {
+      this.addNumberInput('SEMI-MAJOR AXIS', 'semiMajorAxis', 0.01);
+      this.addNumberInput('ECCENTRICITY', 'eccentricity', 0.01);
+      this.addNumberInput('INCLINATION (DEG)', 'inclination', 1);
+      this.addNumberInput('ASCENDING NODE (DEG)', 'longitudeOfAscendingNode', 1);
+      this.addNumberInput('ARGUMENT OF PERIAPSIS (DEG)', 'argumentOfPeriapsis', 1);
+      this.addNumberInput('TRUE ANOMALY (DEG)', 'trueAnomaly', 1);
+    }
+
+    const hint = document.createElement('div');
+    hint.className = 'form-hint';
+    hint.textContent = `Relative to the parent, using G = ${this.G}`;
+    this.form.appendChild(hint);
+  }
+
+  /**
+   * Add a number input bound to a form field
+   */
+  private addNumberInput(label: string, key: Exclude<keyof PlacementDialog['formData'], 'mode' | 'parentId'>, step: number): void {
+    const group = document.createElement('div');
+    group.className = 'form-group';
+    group.innerHTML = `<label>${label}</label>`;
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.step = String(step);
+    input.value = String(Number(this.formData[key].toFixed(4)));
+    input.oninput = () => {
+      const value = parseFloat(input.value);
+      if (Number.isFinite(value)) {
+        this.formData[key] = value;
+      }
+    };
+    group.appendChild(input);
+    this.form.appendChild(group);
+  }
+
+  /**
+   * Compute the state vector from the form and close
+   * Refuses if the parent has left the scene (merged or deleted) since the form was built.
+   */
+  private place(): void {
+    if (!this.body) return;
+
+    const parentId = this.formData.parentId;
+    if (parentId === null) {
+      this.hide({ position: new Vec3(), velocity: new Vec3() });
+      return;
+    }
+
+    const parent = this.getCandidates().find(candidate => candidate.id === parentId);
+    if (!parent) {
+      const name = this.candidates.find(candidate => candidate.id === parentId)?.name ?? 'The parent';
+      alert(`${name} is no longer in the scene; choose another parent`);
+      this.candidates = [...this.getCandidates()];
+      this.formData.parentId = null;
+      this.renderForm();
+      return;
+    }
+
+    const radians = Math.PI / 180;
+    const data = this.formData;
+    const orbit: OrbitShape = data.mode === 'circular'
+      ? circularOrbit(data.distance, data.inclination * radians, data.angle * radians)
+      : {
+        semiMajorAxis: data.semiMajorAxis,
+        eccentricity: data.eccentricity,
+        inclination: data.inclination * radians,
+        longitudeOfAscendingNode: data.longitudeOfAscendingNode * radians,
+        argumentOfPeriapsis: data.argumentOfPeriapsis * radians,
+        trueAnomaly: data.trueAnomaly * radians
+      };
+
+    try {
+      this.hide(placeOnOrbit(parent, this.body.mass, orbit, this.G));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Remove the dialog from the page
+   */
+  dispose(): void {
+    this.hide();
+    if (this.modal.parentNode) {
+      this.modal.parentNode.removeChild(this.modal);
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import * as THREE from 'three';
+import type { Vector3Like } from './Vec3.js';
 
 /**
  * Minimum star mass in solar masses (red dwarf minimum)
@@ -314,8 +314,8 @@ export const ALL_PREMADE_BODIES: PremadeBodyData[] = [
  */
 export function createBodyFromPremade(
   premade: PremadeBodyData,
-  position: THREE.Vector3,
-  velocity: THREE.Vector3 = new THREE.Vector3(0, 0, 0),
+  position: Vector3Like,
+  velocity: Vector3Like = { x: 0, y: 0, z: 0 },
   isStatic: boolean = false
 ) {
   return {
@@ -0,0 +1,94 @@
+/**
+ * Seed used when nothing else has been chosen
+ */
+export const DEFAULT_SEED = 20240601;
+
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ * Produces the same sequence for the same seed on every platform.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number = DEFAULT_SEED) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+}
+
+/**
+ * Hash a stream name into a 32-bit value (FNV-1a)
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Central source of randomness for the simulation
+ * Each consumer draws from its own named stream derived from the global seed,
+ * so adding draws in one place (e.g. the starfield) never shifts another
+ * (e.g. body placement). Resetting the seed restarts every stream.
+ */
+export class RandomService {
+  private seed: number;
+  private streams: Map<string, SeededRandom>;
+
+  constructor(seed: number = DEFAULT_SEED) {
+    this.seed = seed >>> 0;
+    this.streams = new Map();
+  }
+
+  /**
+   * Get the current seed
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Set the seed and restart every stream from it
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.streams.clear();
+  }
+
+  /**
+   * Get (or create) the generator for a named stream
+   */
+  stream(name: string): SeededRandom {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new SeededRandom((this.seed ^ hashString(name)) >>> 0);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+}
+
+/**
+ * Shared random service used everywhere the simulation needs randomness
+ */
+export const randomService = new RandomService();
@@ -0,0 +1,193 @@
+import type { PhysicsKeyframe } from './Physics.js';
+import type { BodyRecord } from './SimulationProtocol.js';
+import type { SimulationBody } from './SimulationState.js';
+
+/**
+ * How the simulation records keyframes to rewind to
+ */
+export interface RewindSettings {
+  keyframeInterval: number; // Simulated time between keyframes
+  memoryBudget: number; // Bytes the keyframes may take; the oldest are dropped beyond it
+}
+
+export const DEFAULT_REWIND_SETTINGS: RewindSettings = {
+  keyframeInterval: 1,
+  memoryBudget: 64 * 1024 * 1024
+};
+
+/**
+ * The bodies that came back or disappeared when the simulation went back to a keyframe
+ */
+export interface RewindEvent {
+  time: number; // Simulated time of the keyframe
+  removed: SimulationBody[]; // Bodies added since the keyframe (including fragments)
+  created: SimulationBody[]; // Views for bodies removed since the keyframe (e.g. absorbed)
+}
+
+/**
+ * Rough size of one body's handle, name and colours in a keyframe
+ */
+const BODY_RECORD_BYTES = 256;
+
+/**
+ * A physics keyframe with the handle and properties of every body in it, so bodies removed
+ * since (e.g. absorbed in a collision) can be brought back
+ */
+export interface SimulationKeyframe {
+  physics: PhysicsKeyframe;
+  records: BodyRecord[]; // Entry i describes body i of the physics keyframe
+}
+
+/**
+ * Approximate memory taken by a keyframe
+ */
+export function keyframeByteLength(keyframe: SimulationKeyframe): number {
+  const { physics } = keyframe;
+  return physics.positions.byteLength +
+    physics.velocities.byteLength +
+    physics.masses.byteLength +
+    physics.radii.byteLength +
+    physics.flags.byteLength +
+    physics.particlePositions.byteLength +
+    physics.particleVelocities.byteLength +
+    keyframe.records.length * BODY_RECORD_BYTES;
+}
+
+/**
+ * Ring buffer of keyframes in time order, bounded by a memory budget
+ * Recording past the budget drops the oldest keyframes and reuses their slots; the ring
+ * only grows (by doubling) while every slot is in use and the budget still has room.
+ */
+export class KeyframeBuffer {
+  length: number;
+  byteLength: number;
+  private memoryBudget: number;
+  private slots: (SimulationKeyframe | null)[];
+  private sizes: Float64Array;
+  private head: number; // Slot of the oldest keyframe
+
+  constructor(memoryBudget: number = DEFAULT_REWIND_SETTINGS.memoryBudget, capacity: number = 16) {
+    this.length = 0;
+    this.byteLength = 0;
+    this.memoryBudget = memoryBudget;
+    this.slots = new Array(capacity).fill(null);
+    this.sizes = new Float64Array(capacity);
+    this.head = 0;
+  }
+
+  /**
+   * Time of the oldest keyframe, or NaN if there are none
+   */
+  get earliestTime(): number {
+    return this.length > 0 ? this.get(0).physics.time : NaN;
+  }
+
+  /**
+   * Time of the newest keyframe, or NaN if there are none
+   */
+  get latestTime(): number {
+    return this.length > 0 ? this.get(this.length - 1).physics.time : NaN;
+  }
+
+  /**
+   * Keyframe `index`, counting from the oldest
+   */
+  get(index: number): SimulationKeyframe {
+    return this.slots[(this.head + index) % this.slots.length]!;
+  }
+
+  /**
+   * Append a keyframe newer than every one already recorded
+   * A keyframe larger than the whole budget is still kept, on its own.
+   */
+  push(keyframe: SimulationKeyframe): void {
+    const size = keyframeByteLength(keyframe);
+    while (this.length > 0 && this.byteLength + size > this.memoryBudget) {
+      this.dropOldest();
+    }
+    if (this.length === this.slots.length) {
+      this.grow();
+    }
+
+    const slot = (this.head + this.length) % this.slots.length;
+    this.slots[slot] = keyframe;
+    this.sizes[slot] = size;
+    this.length++;
+    this.byteLength += size;
+  }
+
+  /**
+   * The newest keyframe taken at or before `time` (the oldest one if `time` is earlier than all)
+   */
+  latestAtOrBefore(time: number): SimulationKeyframe | null {
+    if (this.length === 0) return null;
+
+    let low = 0;
+    let high = this.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (this.get(middle).physics.time <= time) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return this.get(low);
+  }
+
+  /**
+   * Drop every keyframe taken after `time`
+   */
+  discardAfter(time: number): void {
+    while (this.length > 0 && this.get(this.length - 1).physics.time > time) {
+      const slot = (this.head + this.length - 1) % this.slots.length;
+      this.byteLength -= this.sizes[slot];
+      this.slots[slot] = null;
+      this.length--;
+    }
+  }
+
+  /**
+   * Change the budget, dropping the oldest keyframes that no longer fit
+   */
+  setMemoryBudget(memoryBudget: number): void {
+    this.memoryBudget = memoryBudget;
+    while (this.length > 1 && this.byteLength > this.memoryBudget) {
+      this.dropOldest();
+    }
+  }
+
+  /**
+   * Drop every keyframe
+   */
+  clear(): void {
+    this.slots.fill(null);
+    this.length = 0;
+    this.byteLength = 0;
+    this.head = 0;
+  }
+
+  private dropOldest(): void {
+    this.byteLength -= this.sizes[this.head];
+    this.slots[this.head] = null;
+    this.head = (this.head + 1) % this.slots.length;
+    this.length--;
+  }
+
+  /**
+   * Double the number of slots, moving the keyframes to the start in order
+   */
+  private grow(): void {
+    const capacity = 2 * this.slots.length;
+    const slots: (SimulationKeyframe | null)[] = new Array(capacity).fill(null);
+    const sizes = new Float64Array(capacity);
+    for (let i = 0; i < this.length; i++) {
+      const slot = (this.head + i) % this.slots.length;
+      slots[i] = this.slots[slot];
+      sizes[i] = this.sizes[slot];
+    }
+    this.slots = slots;
+    this.sizes = sizes;
+    this.head = 0;
+  }
+}
@@ -0,0 +1,278 @@
+import type { CollisionEvent } from './Collisions.js';
+import { DiagnosticsMonitor } from './Diagnostics.js';
+import { generateBelt, generateRing } from './Particles.js';
+import { PhysicsEngine } from './Physics.js';
+import { SeededRandom } from './Random.js';
+import { DEFAULT_REWIND_SETTINGS, KeyframeBuffer, type RewindSettings, type SimulationKeyframe } from './Rewind.js';
+import {
+  applyBodyData,
+  applyPhysicsSettings,
+  toBodyData,
+  type BodyRecord,
+  type PhysicsSettings,
+  type SimulationCommand,
+  type SimulationEvent
+} from './SimulationProtocol.js';
+import { createBodyId, type SimulationBody } from './SimulationState.js';
+import { predictTrajectory } from './Trajectory.js';
+
+/**
+ * Simulation side of the worker protocol
+ * Owns the PhysicsEngine and its diagnostics, applies commands from the main thread and
+ * returns the events they produced. Runs inside PhysicsWorker, or on the main thread as
+ * the synchronous fallback when workers are unavailable (e.g. under Vitest).
+ * While stepping it records keyframes to rewind to; stepping on from an earlier keyframe
+ * discards the ones after it. Trajectory predictions run here too, so they never hold up rendering.
+ */
+export class SimulationCore {
+  physics: PhysicsEngine;
+  diagnostics: DiagnosticsMonitor;
+  keyframes: KeyframeBuffer;
+  private keyframeInterval: number;
+  private settings: PhysicsSettings | null; // Last configured, for trajectory predictions
+  private bodiesByHandle: Map<number, SimulationBody>;
+  private handles: Map<SimulationBody, number>;
+  private nextCreatedHandle: number; // Fragments count down from -1 so they never clash with host handles
+  private sequence: number; // Last command applied
+  private outbox: SimulationEvent[];
+
+  constructor() {
+    this.physics = new PhysicsEngine(1.0);
+    this.diagnostics = new DiagnosticsMonitor();
+    this.keyframes = new KeyframeBuffer(DEFAULT_REWIND_SETTINGS.memoryBudget);
+    this.keyframeInterval = DEFAULT_REWIND_SETTINGS.keyframeInterval;
+    this.settings = null;
+    this.bodiesByHandle = new Map();
+    this.handles = new Map();
+    this.nextCreatedHandle = -1;
+    this.sequence = 0;
+    this.outbox = [];
+
+    // Fragments get their IDs here, so a rewind that brings one back keeps its identity
+    this.physics.createBody = (data) => ({ ...data, id: createBodyId() });
+    this.physics.onCollision = (event: CollisionEvent) => {
+      this.onCollision(event);
+    };
+    this.diagnostics.onUpdate = (snapshot, drift) => {
+      this.outbox.push({ type: 'diagnostics', snapshot, drift });
+    };
+  }
+
+  /**
+   * Apply a command and return the events it produced, in order
+   */
+  handle(command: SimulationCommand): SimulationEvent[] {
+    this.sequence = command.sequence;
+
+    switch (command.type) {
+      case 'add':
+        this.register(command.record.handle, command.record.body);
+        this.physics.addBody(command.record.body);
+        break;
+      case 'remove': {
+        const body = this.bodiesByHandle.get(command.handle);
+        if (body) {
+          this.unregister(command.handle);
+          this.physics.removeBody(body);
+        }
+        break;
+      }
+      case 'modify': {
+        const body = this.bodiesByHandle.get(command.record.handle);
+        if (body) {
+          applyBodyData(body, command.record.body);
+          this.physics.syncBody(body);
+        }
+        break;
+      }
+      case 'hold': {
+        const body = this.bodiesByHandle.get(command.handle);
+        if (body) {
+          this.physics.holdBody(body, command.held);
+        }
+        break;
+      }
+      case 'configure':
+        this.configure(command.settings);
+        break;
+      case 'step':
+        this.keyframes.discardAfter(this.physics.time);
+        for (let i = 0; i < command.steps; i++) {
+          this.recordKeyframe();
+          this.physics.update(command.deltaTime);
+          this.diagnostics.recordStep(this.physics);
+        }
+        this.recordKeyframe();
+        this.outbox.push(this.takeSnapshot(command.steps));
+        break;
+      case 'resetDiagnostics':
+        this.diagnostics.reset(this.physics);
+        break;
+      case 'addRing':
+      case 'addBelt': {
+        const center = this.bodiesByHandle.get(command.handle);
+        if (center) {
+          const random = new SeededRandom(command.seed);
+          this.physics.particles.add(command.type === 'addRing'
+            ? generateRing(center, command.options, this.physics.G, random)
+            : generateBelt(center, command.options, this.physics.G, random));
+        }
+        // Post the change straight away so it shows while paused
+        this.outbox.push(this.takeSnapshot(0));
+        break;
+      }
+      case 'clearParticles':
+        this.physics.particles.clear();
+        this.outbox.push(this.takeSnapshot(0));
+        break;
+      case 'configureRewind':
+        this.configureRewind(command.settings);
+        break;
+      case 'rewind': {
+        // Always answered, even with nothing to rewind to, so the host can count replies
+        const keyframe = this.keyframes.latestAtOrBefore(command.time);
+        if (keyframe) {
+          this.restoreKeyframe(keyframe);
+        }
+        this.outbox.push({
+          type: 'rewound',
+          time: this.physics.time,
+          bodies: this.physics.bodies.map(body => ({ handle: this.handles.get(body)!, body: toBodyData(body) }))
+        });
+        this.outbox.push(this.takeSnapshot(0));
+        break;
+      }
+      case 'resetTime':
+        // A new run: nothing before it can be rewound to
+        this.keyframes.clear();
+        this.physics.time = 0;
+        this.outbox.push(this.takeSnapshot(0));
+        break;
+      case 'predict': {
+        // The target is the live body if it is in the simulation (e.g. not a launch being aimed)
+        const target = this.bodiesByHandle.get(command.target.handle) ?? command.target.body;
+        this.outbox.push({
+          type: 'trajectory',
+          request: command.request,
+          trajectory: this.settings
+            ? predictTrajectory(this.physics.bodies, target, this.settings, command.options)
+            : { points: new Float32Array(0), count: 0, collided: false }
+        });
+        break;
+      }
+    }
+
+    const events = this.outbox;
+    this.outbox = [];
+    return events;
+  }
+
+  /**
+   * Copy the UI settings into the engine
+   */
+  private configure(settings: PhysicsSettings): void {
+    this.settings = settings;
+    applyPhysicsSettings(this.physics, settings);
+    this.diagnostics.interval = settings.diagnosticsInterval;
+  }
+
+  /**
+   * Change how often keyframes are recorded and how much memory they may take
+   */
+  private configureRewind(settings: RewindSettings): void {
+    this.keyframeInterval = settings.keyframeInterval;
+    this.keyframes.setMemoryBudget(settings.memoryBudget);
+  }
+
+  /**
+   * Record a keyframe if none was taken in the last keyframeInterval of simulated time
+   */
+  private recordKeyframe(): void {
+    const { keyframes, physics } = this;
+    // Allow for rounding in the accumulated time, so an interval of 1 s is 60 steps of 1/60 s
+    if (keyframes.length > 0 && physics.time - keyframes.latestTime < this.keyframeInterval - 1e-9) return;
+
+    keyframes.push({
+      physics: physics.captureKeyframe(),
+      records: physics.bodies.map(body => ({ handle: this.handles.get(body)!, body: toBodyData(body) }))
+    });
+  }
+
+  /**
+   * Put the engine back to a keyframe
+   * Bodies that still exist keep their views; the others get new ones from the keyframe.
+   */
+  private restoreKeyframe(keyframe: SimulationKeyframe): void {
+    const views = keyframe.records.map(({ handle, body: data }) => {
+      const body = this.bodiesByHandle.get(handle) ?? toBodyData(data);
+      applyBodyData(body, data);
+      return body;
+    });
+
+    this.bodiesByHandle.clear();
+    this.handles.clear();
+    keyframe.records.forEach(({ handle }, i) => this.register(handle, views[i]));
+    this.physics.restoreKeyframe(keyframe.physics, views);
+  }
+
+  /**
+   * Copy the positions and velocities of every body, tagged with their handles,
+   * and the positions of every test particle
+   */
+  private takeSnapshot(steps: number): SimulationEvent {
+    const { state, bodies, particles } = this.physics;
+    return {
+      type: 'snapshot',
+      sequence: this.sequence,
+      steps,
+      handles: Int32Array.from(bodies, body => this.handles.get(body)!),
+      positions: state.positions.slice(0, 3 * state.count),
+      velocities: state.velocities.slice(0, 3 * state.count),
+      particles: new Float32Array(particles.positions.subarray(0, 3 * particles.count)),
+      lastEffectiveStep: this.physics.lastEffectiveStep,
+      time: this.physics.time,
+      earliestKeyframe: this.keyframes.earliestTime,
+      latestKeyframe: this.keyframes.latestTime
+    };
+  }
+
+  /**
+   * Track handles for bodies the engine removed or created, and report the collision
+   */
+  private onCollision(event: CollisionEvent): void {
+    const record = (body: SimulationBody): BodyRecord => ({
+      handle: this.handles.get(body)!,
+      body: toBodyData(body)
+    });
+
+    const removed = event.removed.map(record);
+    for (const { handle } of removed) {
+      this.unregister(handle);
+    }
+    for (const body of event.created) {
+      this.register(this.nextCreatedHandle--, body);
+    }
+
+    this.outbox.push({
+      type: 'collision',
+      mode: event.mode,
+      survivor: record(event.survivor),
+      survivorBefore: event.survivorBefore,
+      removed,
+      created: event.created.map(record)
+    });
+  }
+
+  private register(handle: number, body: SimulationBody): void {
+    this.bodiesByHandle.set(handle, body);
+    this.handles.set(body, handle);
+  }
+
+  private unregister(handle: number): void {
+    const body = this.bodiesByHandle.get(handle);
+    if (body) {
+      this.handles.delete(body);
+      this.bodiesByHandle.delete(handle);
+    }
+  }
+}
@@ -0,0 +1,513 @@
+import type { CollisionEvent } from './Collisions.js';
+import type { ConservationDrift, ConservationSnapshot } from './Diagnostics.js';
+import type { BeltOptions, RingOptions } from './Particles.js';
+import type { RewindEvent, RewindSettings } from './Rewind.js';
+import { SimulationCore } from './SimulationCore.js';
+import {
+  applyBodyData,
+  toBodyData,
+  type CollisionMessage,
+  type PhysicsSettings,
+  type RewoundMessage,
+  type SimulationCommandData,
+  type SimulationEvent,
+  type SimulationSnapshot
+} from './SimulationProtocol.js';
+import type { SimulationBody } from './SimulationState.js';
+import type { PredictedTrajectory, TrajectoryOptions } from './Trajectory.js';
+import { Vec3 } from './Vec3.js';
+
+/**
+ * Most steps requested in one batch; steps beyond this are dropped, so a simulation that
+ * cannot keep up falls behind real time instead of queueing ever larger batches
+ */
+const MAX_STEPS_PER_BATCH = 8;
+
+/**
+ * A snapshot with the time it arrived and where each handle sits in its arrays
+ */
+interface ReceivedSnapshot {
+  snapshot: SimulationSnapshot;
+  indices: Map<number, number>;
+  receivedAt: number;
+}
+
+/**
+ * Main-thread side of the simulation
+ * Mirrors body additions, removals and edits to a SimulationCore running in a Web Worker,
+ * requests batches of steps and interpolates the bodies between the snapshots it posts
+ * back. Without a worker (e.g. under Vitest) the core runs synchronously in-process
+ * through the same messages.
+ */
+export class SimulationHost {
+  readonly usesWorker: boolean;
+  lastEffectiveStep: number; // Reported with every snapshot
+  time: number; // Simulated time of the latest snapshot
+  earliestKeyframe: number; // Time range that can be rewound to (NaN before the first keyframe)
+  latestKeyframe: number;
+  rewindsPending: number; // Rewinds sent but not yet reported through onRewind
+  particleCount: number;
+  particlePositions: Float32Array; // Interpolated test particle positions, 3 entries per particle
+  onCollision: ((event: CollisionEvent) => void) | null; // Called after a merge or fragmentation
+  onDiagnostics: ((snapshot: ConservationSnapshot, drift: ConservationDrift) => void) | null;
+  onRewind: ((event: RewindEvent) => void) | null; // Called after going back to a keyframe
+  createBody: (data: SimulationBody) => SimulationBody; // Makes the views for fragments and rewound bodies
+  private worker: Worker | null;
+  private core: SimulationCore | null;
+  private bodiesByHandle: Map<number, SimulationBody>;
+  private handles: Map<SimulationBody, number>;
+  private editSequences: Map<number, number>; // Handle -> sequence of its latest local edit
+  private heldHandles: Set<number>; // Bodies held here, positioned by the user rather than snapshots
+  private predictions: Map<number, (trajectory: PredictedTrajectory) => void>; // Request -> resolve
+  private nextHandle: number;
+  private nextRequest: number;
+  private sequence: number;
+  private settings: PhysicsSettings | null;
+  private stepInFlight: boolean;
+  private pendingSteps: number;
+  private pendingDeltaTime: number;
+  private previous: ReceivedSnapshot | null;
+  private current: ReceivedSnapshot | null;
+
+  /**
+   * @param worker Worker running PhysicsWorker, or null to simulate synchronously
+   */
+  constructor(worker: Worker | null = null) {
+    this.usesWorker = worker !== null;
+    this.lastEffectiveStep = 0;
+    this.time = 0;
+    this.earliestKeyframe = NaN;
+    this.latestKeyframe = NaN;
+    this.rewindsPending = 0;
+    this.particleCount = 0;
+    this.particlePositions = new Float32Array(0);
+    this.onCollision = null;
+    this.onDiagnostics = null;
+    this.onRewind = null;
+    this.createBody = (data) => data;
+    this.worker = worker;
+    this.core = worker ? null : new SimulationCore();
+    this.bodiesByHandle = new Map();
+    this.handles = new Map();
+    this.editSequences = new Map();
+    this.heldHandles = new Set();
+    this.predictions = new Map();
+    this.nextHandle = 1;
+    this.nextRequest = 1;
+    this.sequence = 0;
+    this.settings = null;
+    this.stepInFlight = false;
+    this.pendingSteps = 0;
+    this.pendingDeltaTime = 0;
+    this.previous = null;
+    this.current = null;
+
+    if (worker) {
+      worker.onmessage = (message: MessageEvent<SimulationEvent>) => {
+        this.receive(message.data);
+      };
+    }
+  }
+
+  /**
+   * Create a host backed by a Web Worker where available, otherwise by the synchronous fallback
+   */
+  static create(): SimulationHost {
+    if (typeof Worker === 'undefined') {
+      return new SimulationHost();
+    }
+    return new SimulationHost(new Worker(new URL('./PhysicsWorker.ts', import.meta.url), { type: 'module' }));
+  }
+
+  /**
+   * Gravitational constant the engine was last configured with
+   */
+  get G(): number {
+    return this.settings ? this.settings.G : 1.0;
+  }
+
+  /**
+   * Add a body to the simulation (ignored if it is already present)
+   */
+  addBody(body: SimulationBody): void {
+    if (this.handles.has(body)) return;
+
+    const handle = this.nextHandle++;
+    this.register(handle, body);
+    this.send({ type: 'add', record: { handle, body: toBodyData(body) } });
+  }
+
+  /**
+   * Remove a body from the simulation
+   */
+  removeBody(body: SimulationBody): void {
+    const handle = this.handles.get(body);
+    if (handle === undefined) return;
+
+    this.unregister(handle);
+    this.send({ type: 'remove', handle });
+  }
+
+  /**
+   * Send local edits of a body (drags, UI changes, undo) to the simulation
+   * Snapshots taken before the edit arrived no longer move the body.
+   */
+  syncBody(body: SimulationBody): void {
+    const handle = this.handles.get(body);
+    if (handle === undefined) return;
+
+    this.send({ type: 'modify', record: { handle, body: toBodyData(body) } });
+    this.editSequences.set(handle, this.sequence);
+  }
+
+  /**
+   * Suspend a body's motion while it is held (e.g. dragged), or resume it
+   * While held, the local view keeps whatever position it is given instead of following snapshots.
+   */
+  holdBody(body: SimulationBody, held: boolean): void {
+    const handle = this.handles.get(body);
+    if (handle === undefined) return;
+
+    if (held) {
+      this.heldHandles.add(handle);
+    } else {
+      this.heldHandles.delete(handle);
+    }
+    this.send({ type: 'hold', handle, held });
+  }
+
+  /**
+   * Update the engine settings (only sent when something changed)
+   */
+  configure(settings: PhysicsSettings): void {
+    const previous = this.settings;
+    if (previous && (Object.keys(settings) as (keyof PhysicsSettings)[]).every(key => previous[key] === settings[key])) {
+      return;
+    }
+    this.settings = { ...settings };
+    this.send({ type: 'configure', settings: this.settings });
+  }
+
+  /**
+   * Request `steps` fixed steps of deltaTime
+   * Requests made while a batch is running are merged into the next batch.
+   */
+  step(deltaTime: number, steps: number): void {
+    this.pendingSteps += steps;
+    this.pendingDeltaTime = deltaTime;
+    this.flushSteps();
+  }
+
+  /**
+   * Add a ring of test particles orbiting `body`
+   * @param seed Seed for the particle placement, so runs replay exactly
+   */
+  addRing(body: SimulationBody, options: RingOptions, seed: number): void {
+    const handle = this.handles.get(body);
+    if (handle === undefined) return;
+    this.send({ type: 'addRing', handle, options: { ...options }, seed });
+  }
+
+  /**
+   * Add a belt of test particles orbiting `central` between two radii
+   * @param seed Seed for the particle placement, so runs replay exactly
+   */
+  addBelt(central: SimulationBody, options: BeltOptions, seed: number): void {
+    const handle = this.handles.get(central);
+    if (handle === undefined) return;
+    this.send({ type: 'addBelt', handle, options: { ...options }, seed });
+  }
+
+  /**
+   * Remove every test particle
+   */
+  clearParticles(): void {
+    this.send({ type: 'clearParticles' });
+  }
+
+  /**
+   * Change how often keyframes are recorded and how much memory they may take
+   */
+  configureRewind(settings: RewindSettings): void {
+    this.send({ type: 'configureRewind', settings: { ...settings } });
+  }
+
+  /**
+   * Go back to the latest keyframe at or before `time`
+   * Stepping on from there discards the keyframes after it. Bodies that differ from the
+   * keyframe are reported through onRewind once it has been restored.
+   */
+  rewind(time: number): void {
+    this.rewindsPending++;
+    this.send({ type: 'rewind', time });
+  }
+
+  /**
+   * Start the simulated clock again from zero and drop every keyframe (e.g. when the system is replaced)
+   */
+  resetTime(): void {
+    this.send({ type: 'resetTime' });
+  }
+
+  /**
+   * Predict where `target` will go, in the simulation rather than on the main thread
+   * The prediction starts from the simulation's latest state, after every edit sent so far.
+   * `target` need not have been added (e.g. a body about to be launched).
+   */
+  predictTrajectory(target: SimulationBody, options: Partial<TrajectoryOptions> = {}): Promise<PredictedTrajectory> {
+    const request = this.nextRequest++;
+    const handle = this.handles.get(target) ?? 0;
+    return new Promise(resolve => {
+      this.predictions.set(request, resolve);
+      this.send({ type: 'predict', request, target: { handle, body: toBodyData(target) }, options: { ...options } });
+    });
+  }
+
+  /**
+   * Take a new diagnostics baseline once every earlier command has been applied
+   */
+  resetDiagnostics(): void {
+    this.send({ type: 'resetDiagnostics' });
+  }
+
+  /**
+   * Move every body to its position between the last two snapshots
+   * The render runs one snapshot behind, blending towards the latest one as time passes.
+   * Held bodies are left where they are, and bodies edited since the previous snapshot
+   * jump to the latest one rather than blending from their state before the edit.
+   */
+  interpolate(now: number = performance.now()): void {
+    if (!this.current) return;
+
+    const { snapshot, receivedAt } = this.current;
+    const previous = this.previous;
+    const span = previous ? receivedAt - previous.receivedAt : 0;
+    const alpha = span > 0 ? Math.min(Math.max((now - receivedAt) / span, 0), 1) : 1;
+    const { positions, velocities } = snapshot;
+
+    for (let i = 0; i < snapshot.handles.length; i++) {
+      const handle = snapshot.handles[i];
+      const body = this.bodiesByHandle.get(handle);
+      // Skip bodies edited here since the snapshot was taken
+      const edited = this.editSequences.get(handle) ?? 0;
+      if (!body || this.heldHandles.has(handle) || edited > snapshot.sequence) continue;
+
+      const blend = previous !== null && previous.indices.has(handle) && edited <= previous.snapshot.sequence;
+      const from = blend ? previous.indices.get(handle)! : i;
+      const fromPositions = blend ? previous.snapshot.positions : positions;
+      body.position.x = fromPositions[3 * from] + (positions[3 * i] - fromPositions[3 * from]) * alpha;
+      body.position.y = fromPositions[3 * from + 1] + (positions[3 * i + 1] - fromPositions[3 * from + 1]) * alpha;
+      body.position.z = fromPositions[3 * from + 2] + (positions[3 * i + 2] - fromPositions[3 * from + 2]) * alpha;
+      body.velocity.x = velocities[3 * i];
+      body.velocity.y = velocities[3 * i + 1];
+      body.velocity.z = velocities[3 * i + 2];
+    }
+
+    // Particles are only blended while their number is unchanged, since absorption reorders them
+    const particles = snapshot.particles;
+    const fromParticles = previous && previous.snapshot.particles.length === particles.length
+      ? previous.snapshot.particles
+      : particles;
+    if (this.particlePositions.length < particles.length) {
+      this.particlePositions = new Float32Array(particles.length);
+    }
+    for (let i = 0; i < particles.length; i++) {
+      this.particlePositions[i] = fromParticles[i] + (particles[i] - fromParticles[i]) * alpha;
+    }
+    this.particleCount = particles.length / 3;
+  }
+
+  /**
+   * Stop the worker
+   */
+  dispose(): void {
+    if (this.worker) {
+      this.worker.terminate();
+    }
+  }
+
+  /**
+   * Send the next batch of steps if none is running
+   */
+  private flushSteps(): void {
+    if (this.stepInFlight || this.pendingSteps === 0) return;
+
+    const steps = Math.min(this.pendingSteps, MAX_STEPS_PER_BATCH);
+    this.pendingSteps = 0;
+    this.stepInFlight = true;
+    this.send({ type: 'step', deltaTime: this.pendingDeltaTime, steps });
+  }
+
+  /**
+   * Post a command to the worker, or apply it directly in the synchronous fallback
+   */
+  private send(command: SimulationCommandData): void {
+    const sequenced = { ...command, sequence: ++this.sequence };
+    if (this.worker) {
+      this.worker.postMessage(sequenced);
+    } else {
+      for (const event of this.core!.handle(sequenced)) {
+        this.receive(event);
+      }
+    }
+  }
+
+  /**
+   * Handle an event posted back by the simulation
+   */
+  private receive(event: SimulationEvent): void {
+    switch (event.type) {
+      case 'snapshot':
+        this.receiveSnapshot(event);
+        break;
+      case 'collision':
+        this.receiveCollision(event);
+        break;
+      case 'rewound':
+        this.receiveRewound(event);
+        break;
+      case 'trajectory': {
+        const resolve = this.predictions.get(event.request);
+        this.predictions.delete(event.request);
+        if (resolve) {
+          resolve(event.trajectory);
+        }
+        break;
+      }
+      case 'diagnostics': {
+        // Structured cloning drops the Vec3 prototype
+        const snapshot = {
+          ...event.snapshot,
+          linearMomentum: new Vec3().copy(event.snapshot.linearMomentum),
+          angularMomentum: new Vec3().copy(event.snapshot.angularMomentum)
+        };
+        if (this.onDiagnostics) {
+          this.onDiagnostics(snapshot, event.drift);
+        }
+        break;
+      }
+    }
+  }
+
+  private receiveSnapshot(snapshot: SimulationSnapshot): void {
+    if (snapshot.steps > 0) {
+      this.stepInFlight = false;
+    }
+    this.lastEffectiveStep = snapshot.lastEffectiveStep;
+    this.time = snapshot.time;
+    this.earliestKeyframe = snapshot.earliestKeyframe;
+    this.latestKeyframe = snapshot.latestKeyframe;
+
+    const indices = new Map<number, number>();
+    snapshot.handles.forEach((handle, i) => indices.set(handle, i));
+    this.previous = this.current;
+    this.current = { snapshot, indices, receivedAt: performance.now() };
+
+    // Edits both blended snapshots include no longer need protecting
+    const previous = this.previous;
+    for (const [handle, sequence] of this.editSequences) {
+      if (previous && sequence <= previous.snapshot.sequence) {
+        this.editSequences.delete(handle);
+      }
+    }
+
+    this.flushSteps();
+  }
+
+  /**
+   * Bring the local views in line with a collision and report it with those views
+   */
+  private receiveCollision(message: CollisionMessage): void {
+    const survivor = this.bodiesByHandle.get(message.survivor.handle);
+    if (!survivor) {
+      // The survivor was deleted here before the collision arrived: undo it in the simulation
+      for (const { handle } of message.created) {
+        this.send({ type: 'remove', handle });
+      }
+      for (const record of message.removed) {
+        if (this.bodiesByHandle.has(record.handle)) {
+          this.send({ type: 'add', record });
+        }
+      }
+      return;
+    }
+
+    applyBodyData(survivor, message.survivor.body);
+
+    const removed: SimulationBody[] = [];
+    for (const { handle, body: data } of message.removed) {
+      const body = this.bodiesByHandle.get(handle);
+      if (body) {
+        applyBodyData(body, data);
+        this.unregister(handle);
+        removed.push(body);
+      }
+    }
+
+    const created = message.created.map(({ handle, body: data }) => {
+      const body = this.createBody(data);
+      this.register(handle, body);
+      return body;
+    });
+
+    if (this.onCollision) {
+      this.onCollision({
+        mode: message.mode,
+        survivor,
+        survivorBefore: message.survivorBefore,
+        removed,
+        created
+      });
+    }
+  }
+
+  /**
+   * Bring the local views in line with the keyframe the simulation went back to
+   */
+  private receiveRewound(message: RewoundMessage): void {
+    const handles = new Set(message.bodies.map(({ handle }) => handle));
+    const removed: SimulationBody[] = [];
+    for (const [handle, body] of this.bodiesByHandle) {
+      if (!handles.has(handle)) {
+        this.unregister(handle);
+        removed.push(body);
+      }
+    }
+
+    const created: SimulationBody[] = [];
+    for (const { handle, body: data } of message.bodies) {
+      const body = this.bodiesByHandle.get(handle);
+      if (body) {
+        applyBodyData(body, data);
+      } else {
+        const view = this.createBody(data);
+        this.register(handle, view);
+        created.push(view);
+      }
+    }
+
+    // Jump to the keyframe instead of blending towards it from the last snapshot
+    this.previous = null;
+    this.current = null;
+    this.rewindsPending--;
+
+    if (this.onRewind) {
+      this.onRewind({ time: message.time, removed, created });
+    }
+  }
+
+  private register(handle: number, body: SimulationBody): void {
+    this.bodiesByHandle.set(handle, body);
+    this.handles.set(body, handle);
+  }
+
+  private unregister(handle: number): void {
+    const body = this.bodiesByHandle.get(handle);
+    if (body) {
+      this.handles.delete(body);
+      this.bodiesByHandle.delete(handle);
+      this.editSequences.delete(handle);
+      this.heldHandles.delete(handle);
+    }
+  }
+}
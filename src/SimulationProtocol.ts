@@ -0,0 +1,201 @@
+import type { MultipoleOrder } from './BarnesHut.js';
+import type { BodyPhysicalState, CollisionMode } from './Collisions.js';
+import type { ConservationDrift, ConservationSnapshot } from './Diagnostics.js';
+import type { IntegratorType } from './Integrators.js';
+import type { BeltOptions, RingOptions } from './Particles.js';
+import type { PhysicsEngine } from './Physics.js';
+import type { RewindSettings } from './Rewind.js';
+import type { SimulationBody } from './SimulationState.js';
+import type { SofteningKernel } from './Softening.js';
+import type { PredictedTrajectory, TrajectoryOptions } from './Trajectory.js';
+
+/**
+ * Engine settings mirrored from the UI into the simulation
+ */
+export interface PhysicsSettings {
+  G: number;
+  useBarnesHut: boolean;
+  barnesHutTheta: number;
+  barnesHutOrder: MultipoleOrder;
+  integrator: IntegratorType;
+  softeningLength: number;
+  softeningKernel: SofteningKernel;
+  collisionMode: CollisionMode;
+  fragmentCount: number;
+  minFragmentMass: number;
+  adaptiveTimeStep: boolean;
+  useBlockTimeSteps: boolean;
+  timeStepTolerance: number;
+  minTimeStep: number;
+  maxTimeStep: number;
+  diagnosticsInterval: number;
+}
+
+/**
+ * A body together with the handle both sides use to refer to it
+ * Handles from the host are positive; bodies created by the simulation (fragments) get negative ones.
+ */
+export interface BodyRecord {
+  handle: number;
+  body: SimulationBody;
+}
+
+/**
+ * Commands sent from the main thread to the simulation, before sequencing
+ */
+export type SimulationCommandData =
+  | { type: 'add'; record: BodyRecord }
+  | { type: 'remove'; handle: number }
+  | { type: 'modify'; record: BodyRecord }
+  | { type: 'hold'; handle: number; held: boolean }
+  | { type: 'configure'; settings: PhysicsSettings }
+  | { type: 'step'; deltaTime: number; steps: number }
+  | { type: 'resetDiagnostics' }
+  | { type: 'addRing'; handle: number; options: RingOptions; seed: number }
+  | { type: 'addBelt'; handle: number; options: BeltOptions; seed: number }
+  | { type: 'clearParticles' }
+  | { type: 'configureRewind'; settings: RewindSettings }
+  | { type: 'rewind'; time: number }
+  | { type: 'resetTime' }
+  | { type: 'predict'; request: number; target: BodyRecord; options: Partial<TrajectoryOptions> };
+
+/**
+ * A command as posted: `sequence` increases with every command, so snapshots can say which edits they include
+ */
+export type SimulationCommand = SimulationCommandData & { sequence: number };
+
+/**
+ * Positions and velocities of every body after a batch of steps (or after particles changed)
+ */
+export interface SimulationSnapshot {
+  type: 'snapshot';
+  sequence: number; // Last command applied before the snapshot was taken
+  steps: number; // Steps taken since the previous snapshot
+  handles: Int32Array;
+  positions: Float64Array;
+  velocities: Float64Array;
+  particles: Float32Array; // Test particle positions, 3 entries per particle
+  lastEffectiveStep: number;
+  time: number; // Simulated time
+  earliestKeyframe: number; // Time range that can be rewound to (NaN before the first keyframe)
+  latestKeyframe: number;
+}
+
+/**
+ * A merge or fragmentation, with the state of every body involved right after it
+ */
+export interface CollisionMessage {
+  type: 'collision';
+  mode: CollisionMode;
+  survivor: BodyRecord;
+  survivorBefore: BodyPhysicalState;
+  removed: BodyRecord[];
+  created: BodyRecord[];
+}
+
+/**
+ * The simulation went back to a keyframe; lists every body it now has
+ */
+export interface RewoundMessage {
+  type: 'rewound';
+  time: number;
+  bodies: BodyRecord[];
+}
+
+/**
+ * Answer to a 'predict' command
+ */
+export interface TrajectoryMessage {
+  type: 'trajectory';
+  request: number;
+  trajectory: PredictedTrajectory;
+}
+
+/**
+ * A conservation measurement from the simulation's diagnostics monitor
+ */
+export interface DiagnosticsMessage {
+  type: 'diagnostics';
+  snapshot: ConservationSnapshot;
+  drift: ConservationDrift;
+}
+
+/**
+ * Messages sent from the simulation back to the main thread
+ */
+export type SimulationEvent =
+  | SimulationSnapshot
+  | CollisionMessage
+  | RewoundMessage
+  | TrajectoryMessage
+  | DiagnosticsMessage;
+
+/**
+ * Copy the identity, physical and visual properties of a body into a plain, cloneable object
+ */
+export function toBodyData(body: SimulationBody): SimulationBody {
+  const data: SimulationBody = {
+    name: body.name,
+    mass: body.mass,
+    radius: body.radius,
+    isStatic: body.isStatic,
+    color: body.color,
+    emissive: body.emissive,
+    emissiveIntensity: body.emissiveIntensity,
+    position: { x: body.position.x, y: body.position.y, z: body.position.z },
+    velocity: { x: body.velocity.x, y: body.velocity.y, z: body.velocity.z }
+  };
+  if (body.id !== undefined) {
+    data.id = body.id;
+  }
+  return data;
+}
+
+/**
+ * Copy plain body data onto an existing body (the inverse of toBodyData)
+ */
+export function applyBodyData(target: SimulationBody, data: SimulationBody): void {
+  target.name = data.name;
+  target.mass = data.mass;
+  target.radius = data.radius;
+  target.isStatic = data.isStatic;
+  target.color = data.color;
+  target.emissive = data.emissive;
+  target.emissiveIntensity = data.emissiveIntensity;
+  target.position.x = data.position.x;
+  target.position.y = data.position.y;
+  target.position.z = data.position.z;
+  target.velocity.x = data.velocity.x;
+  target.velocity.y = data.velocity.y;
+  target.velocity.z = data.velocity.z;
+}
+
+/**
+ * Apply engine settings to a PhysicsEngine (diagnosticsInterval is left to the caller)
+ */
+export function applyPhysicsSettings(physics: PhysicsEngine, settings: PhysicsSettings): void {
+  physics.G = settings.G;
+  physics.useBarnesHut = settings.useBarnesHut;
+  physics.barnesHutTheta = settings.barnesHutTheta;
+  physics.barnesHutOrder = settings.barnesHutOrder;
+  physics.setIntegrator(settings.integrator);
+  physics.softeningLength = settings.softeningLength;
+  physics.softeningKernel = settings.softeningKernel;
+  physics.collisionMode = settings.collisionMode;
+  physics.fragmentation.fragmentCount = settings.fragmentCount;
+  physics.fragmentation.minFragmentMass = settings.minFragmentMass;
+  physics.adaptiveTimeStep = settings.adaptiveTimeStep;
+  physics.useBlockTimeSteps = settings.useBlockTimeSteps;
+  physics.timeStepTolerance = settings.timeStepTolerance;
+  physics.minTimeStep = settings.minTimeStep;
+  physics.maxTimeStep = Math.max(settings.maxTimeStep, settings.minTimeStep);
+}
+
+/**
+ * Buffers that can be transferred rather than copied when posting an event
+ */
+export function transferablesOf(event: SimulationEvent): ArrayBuffer[] {
+  if (event.type === 'trajectory') return [event.trajectory.points.buffer] as ArrayBuffer[];
+  if (event.type !== 'snapshot') return [];
+  return [event.handles.buffer, event.positions.buffer, event.velocities.buffer, event.particles.buffer] as ArrayBuffer[];
+}
@@ -0,0 +1,179 @@
+import type { Vector3Like } from './Vec3.js';
+
+/**
+ * Per-body flag bits stored in SimulationState.flags
+ */
+export const BodyFlag = {
+  Static: 1,
+  Held: 2 // Pinned by the user (e.g. while dragged); kept across write()
+} as const;
+
+/**
+ * A body as seen by the physics engine
+ * The engine's SimulationState is the source of truth while stepping; bodies are views
+ * whose position and velocity are refreshed after every step. CelestialBody implements
+ * this for rendering, but plain objects work too (e.g. when running headless).
+ */
+export interface SimulationBody {
+  id?: string; // Stable identity (see createBodyId); fragments start without one
+  name: string;
+  mass: number;
+  radius: number;
+  isStatic: boolean;
+  color: number;
+  emissive: number;
+  emissiveIntensity: number;
+  position: Vector3Like;
+  velocity: Vector3Like;
+}
+
+/**
+ * Create a new unique body ID
+ * Not drawn from randomService, so creating bodies never shifts the seeded random streams.
+ */
+export function createBodyId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `body_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Core simulation state in struct-of-arrays layout
+ * Body i uses entry i of masses, radii and flags and entries 3i..3i+2 of positions
+ * and velocities. Arrays are preallocated and grow by doubling.
+ */
+export class SimulationState {
+  count: number;
+  capacity: number;
+  positions: Float64Array;
+  velocities: Float64Array;
+  masses: Float64Array;
+  radii: Float64Array;
+  flags: Uint8Array;
+
+  constructor(capacity: number = 16) {
+    this.count = 0;
+    this.capacity = capacity;
+    this.positions = new Float64Array(3 * capacity);
+    this.velocities = new Float64Array(3 * capacity);
+    this.masses = new Float64Array(capacity);
+    this.radii = new Float64Array(capacity);
+    this.flags = new Uint8Array(capacity);
+  }
+
+  /**
+   * Grow the arrays to hold at least `count` bodies, keeping existing entries
+   */
+  ensureCapacity(count: number): void {
+    if (count <= this.capacity) return;
+
+    const capacity = Math.max(count, 2 * this.capacity);
+    const positions = new Float64Array(3 * capacity);
+    const velocities = new Float64Array(3 * capacity);
+    const masses = new Float64Array(capacity);
+    const radii = new Float64Array(capacity);
+    const flags = new Uint8Array(capacity);
+
+    positions.set(this.positions);
+    velocities.set(this.velocities);
+    masses.set(this.masses);
+    radii.set(this.radii);
+    flags.set(this.flags);
+
+    this.positions = positions;
+    this.velocities = velocities;
+    this.masses = masses;
+    this.radii = radii;
+    this.flags = flags;
+    this.capacity = capacity;
+  }
+
+  /**
+   * Append a body and return its index
+   */
+  add(body: SimulationBody): number {
+    this.ensureCapacity(this.count + 1);
+    const index = this.count++;
+    this.flags[index] = 0;
+    this.write(index, body);
+    return index;
+  }
+
+  /**
+   * Remove a body, shifting later bodies down so order is preserved
+   */
+  remove(index: number): void {
+    if (index < 0 || index >= this.count) return;
+
+    this.positions.copyWithin(3 * index, 3 * (index + 1), 3 * this.count);
+    this.velocities.copyWithin(3 * index, 3 * (index + 1), 3 * this.count);
+    this.masses.copyWithin(index, index + 1, this.count);
+    this.radii.copyWithin(index, index + 1, this.count);
+    this.flags.copyWithin(index, index + 1, this.count);
+    this.count--;
+  }
+
+  /**
+   * Remove every body
+   */
+  clear(): void {
+    this.count = 0;
+  }
+
+  /**
+   * Copy a body's physical properties into entry `index`
+   */
+  write(index: number, body: SimulationBody): void {
+    const i = 3 * index;
+    this.positions[i] = body.position.x;
+    this.positions[i + 1] = body.position.y;
+    this.positions[i + 2] = body.position.z;
+    this.velocities[i] = body.velocity.x;
+    this.velocities[i + 1] = body.velocity.y;
+    this.velocities[i + 2] = body.velocity.z;
+    this.masses[index] = body.mass;
+    this.radii[index] = body.radius;
+    this.flags[index] = (body.isStatic ? BodyFlag.Static : 0) | (this.flags[index] & BodyFlag.Held);
+  }
+
+  /**
+   * Copy the position and velocity of entry `index` into a body (its view)
+   */
+  readMotion(index: number, body: SimulationBody): void {
+    const i = 3 * index;
+    body.position.x = this.positions[i];
+    body.position.y = this.positions[i + 1];
+    body.position.z = this.positions[i + 2];
+    body.velocity.x = this.velocities[i];
+    body.velocity.y = this.velocities[i + 1];
+    body.velocity.z = this.velocities[i + 2];
+  }
+
+  /**
+   * Copy every physical property of entry `index` into a body (its view)
+   */
+  read(index: number, body: SimulationBody): void {
+    this.readMotion(index, body);
+    body.mass = this.masses[index];
+    body.radius = this.radii[index];
+  }
+
+  /**
+   * Whether body `index` is pinned in place (static, or held)
+   */
+  isStatic(index: number): boolean {
+    return (this.flags[index] & (BodyFlag.Static | BodyFlag.Held)) !== 0;
+  }
+
+  /**
+   * Pin or release body `index` without changing its own static flag
+   */
+  setHeld(index: number, held: boolean): void {
+    if (held) {
+      this.flags[index] |= BodyFlag.Held;
+    } else {
+      this.flags[index] &= ~BodyFlag.Held;
+    }
+  }
+}
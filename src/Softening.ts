@@ -0,0 +1,79 @@
+/**
+ * Gravitational softening kernels
+ * Softening replaces the point-mass 1/r potential with a smooth one near r = 0 so that
+ * close encounters do not produce unbounded forces. Force and potential come from the
+ * same kernel, so energy stays consistent with the forces actually applied.
+ */
+export type SofteningKernel = 'plummer' | 'spline';
+
+export const SofteningKernel = {
+  Plummer: 'plummer' as SofteningKernel,
+  Spline: 'spline' as SofteningKernel
+} as const;
+
+/**
+ * Options for selecting a kernel in the UI (label -> kernel)
+ */
+export const SOFTENING_KERNEL_OPTIONS: Record<string, SofteningKernel> = {
+  'Plummer': SofteningKernel.Plummer,
+  'Cubic Spline': SofteningKernel.Spline
+};
+
+/**
+ * Support radius of the spline kernel in units of the softening length.
+ * 2.8 makes the potential at r = 0 equal to that of a Plummer sphere (-1 / epsilon).
+ */
+export const SPLINE_SUPPORT_FACTOR = 2.8;
+
+/**
+ * Force factor g such that the acceleration towards a mass m at separation vector r
+ * (squared length r2) is G * m * g * r. Unsoftened this is 1 / r^3.
+ * Returns 0 for coincident points without softening.
+ */
+export function softenedForceFactor(r2: number, softeningLength: number, kernel: SofteningKernel): number {
+  if (kernel === SofteningKernel.Spline) {
+    const h = SPLINE_SUPPORT_FACTOR * softeningLength;
+    const r = Math.sqrt(r2);
+    if (r >= h) {
+      return r > 0 ? 1 / (r2 * r) : 0;
+    }
+
+    // Monaghan & Lattanzio cubic spline (as used in GADGET-2)
+    const u = r / h;
+    const invH3 = 1 / (h * h * h);
+    if (u < 0.5) {
+      return invH3 * (10.666666666667 + u * u * (32.0 * u - 38.4));
+    }
+    return invH3 * (21.333333333333 - 48.0 * u + 38.4 * u * u -
+      10.666666666667 * u * u * u - 0.066666666667 / (u * u * u));
+  }
+
+  // Plummer: 1 / (r^2 + eps^2)^(3/2)
+  const softenedR2 = r2 + softeningLength * softeningLength;
+  return softenedR2 > 0 ? 1 / (softenedR2 * Math.sqrt(softenedR2)) : 0;
+}
+
+/**
+ * Potential factor phi such that the potential energy of masses m1, m2 at squared
+ * separation r2 is -G * m1 * m2 * phi. Unsoftened this is 1 / r.
+ * Returns 0 for coincident points without softening.
+ */
+export function softenedPotentialFactor(r2: number, softeningLength: number, kernel: SofteningKernel): number {
+  if (kernel === SofteningKernel.Spline) {
+    const h = SPLINE_SUPPORT_FACTOR * softeningLength;
+    const r = Math.sqrt(r2);
+    if (r >= h) {
+      return r > 0 ? 1 / r : 0;
+    }
+
+    const u = r / h;
+    if (u < 0.5) {
+      return -(-2.8 + u * u * (5.333333333333 + u * u * (6.4 * u - 9.6))) / h;
+    }
+    return -(-3.2 + 0.066666666667 / u +
+      u * u * (10.666666666667 + u * (-16.0 + u * (9.6 - 2.133333333333 * u)))) / h;
+  }
+
+  const softenedR2 = r2 + softeningLength * softeningLength;
+  return softenedR2 > 0 ? 1 / Math.sqrt(softenedR2) : 0;
+}
@@ -1,9 +1,11 @@
 import type { CelestialBody } from './Body.js';
+import { createBodyId } from './SimulationState.js';
 
 /**
  * Saved body data structure
  */
 export interface SavedBody {
+  id?: string; // Missing in data saved before bodies had IDs
   name: string;
   type: 'planet' | 'star';
   mass: number;
@@ -29,6 +31,7 @@ export interface SavedSystem {
   createdAt: number;
   isPremade: boolean;
   description?: string;
+  seed?: number; // Random seed, so the system replays exactly
 }
 
 /**
@@ -95,7 +98,10 @@ export class StorageManager {
    */
   static saveCustomBody(body: SavedBody): void {
     const bodies = this.loadCustomBodies();
-    const existingIndex = bodies.findIndex(b => b.name === body.name);
+    if (!body.id) {
+      body.id = createBodyId();
+    }
+    const existingIndex = bodies.findIndex(b => b.id === body.id);
 
     if (existingIndex >= 0) {
       bodies[existingIndex] = body;
@@ -113,12 +119,19 @@ export class StorageManager {
 
   /**
    * Load all custom bodies from localStorage
+   * Bodies saved without an ID are given one, and the IDs are stored so they stay the same.
    */
   static loadCustomBodies(): SavedBody[] {
     try {
       const data = localStorage.getItem(STORAGE_KEY_CUSTOM_BODIES);
       if (!data) return [];
-      return JSON.parse(data) as SavedBody[];
+      const bodies = JSON.parse(data) as SavedBody[];
+      const missing = bodies.filter(body => !body.id);
+      if (missing.length > 0) {
+        missing.forEach(body => body.id = createBodyId());
+        localStorage.setItem(STORAGE_KEY_CUSTOM_BODIES, JSON.stringify(bodies));
+      }
+      return bodies;
     } catch (error) {
       console.error('Failed to load bodies from localStorage:', error);
       return [];
@@ -128,9 +141,9 @@ export class StorageManager {
   /**
    * Delete a custom body
    */
-  static deleteCustomBody(bodyName: string): void {
+  static deleteCustomBody(bodyId: string): void {
     const bodies = this.loadCustomBodies();
-    const filtered = bodies.filter(b => b.name !== bodyName);
+    const filtered = bodies.filter(b => b.id !== bodyId);
 
     try {
       localStorage.setItem(STORAGE_KEY_CUSTOM_BODIES, JSON.stringify(filtered));
@@ -146,7 +159,8 @@ export class StorageManager {
     bodies: CelestialBody[],
     name: string,
     description?: string,
-    thumbnail?: string
+    thumbnail?: string,
+    seed?: number
   ): SavedSystem {
     return {
       id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -155,7 +169,8 @@ export class StorageManager {
       bodies: bodies.map(body => body.toJSON()),
       thumbnail,
       createdAt: Date.now(),
-      isPremade: false
+      isPremade: false,
+      seed
     };
   }
 
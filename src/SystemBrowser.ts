@@ -12,7 +12,7 @@ export type SystemFilter = 'all' | 'premade' | 'custom';
 export class SystemBrowser {
   private container: HTMLElement;
   private currentFilter: SystemFilter = 'all';
-  private onLoadSystem: ((bodies: CelestialBody[]) => void) | null = null;
+  private onLoadSystem: ((bodies: CelestialBody[], seed?: number, name?: string) => void) | null = null;
   private onSaveSystem: (() => void) | null = null;
   private thumbnailCache: Map<string, string> = new Map();
 
@@ -24,7 +24,7 @@ export class SystemBrowser {
   /**
    * Set callback for when a system is loaded
    */
-  setOnLoadSystem(callback: (bodies: CelestialBody[]) => void): void {
+  setOnLoadSystem(callback: (bodies: CelestialBody[], seed?: number, name?: string) => void): void {
     this.onLoadSystem = callback;
   }
 
@@ -286,7 +286,8 @@ export class SystemBrowser {
         emissiveIntensity: bodyData.emissiveIntensity,
         isStatic: bodyData.isStatic,
         textureUrl: 'textureUrl' in bodyData ? bodyData.textureUrl : undefined,
-        normalMapUrl: 'normalMapUrl' in bodyData ? bodyData.normalMapUrl : undefined
+        normalMapUrl: 'normalMapUrl' in bodyData ? bodyData.normalMapUrl : undefined,
+        id: 'id' in bodyData ? bodyData.id : undefined
       });
 
       // Load textures if available
@@ -304,7 +305,7 @@ export class SystemBrowser {
       bodies.push(body);
     }
 
-    this.onLoadSystem(bodies);
+    this.onLoadSystem(bodies, 'seed' in system ? system.seed : undefined, system.name);
   }
 
   /**
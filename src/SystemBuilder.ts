@@ -1,9 +1,11 @@
-import { LibraryBrowser } from './LibraryBrowser.js';
+import { LibraryBrowser, createLibraryBody, type LibraryBodyData } from './LibraryBrowser.js';
 import { SystemBrowser } from './SystemBrowser.js';
 import { CreatePlanetModal } from './CreatePlanetModal.js';
+import { PlacementDialog } from './PlacementDialog.js';
 import { StorageManager } from './StorageManager.js';
 import { ThumbnailGenerator } from './ThumbnailGenerator.js';
 import { CelestialBody } from './Body.js';
+import { randomService } from './Random.js';
 
 export type SystemBuilderTab = 'library' | 'systems' | 'create';
 
@@ -16,16 +18,20 @@ export class SystemBuilder {
   private libraryBrowser: LibraryBrowser | null = null;
   private systemBrowser: SystemBrowser | null = null;
   private createPlanetModal: CreatePlanetModal;
+  private placementDialog: PlacementDialog;
   private isExpanded: boolean = true;
+  private chosenBody: LibraryBodyData | null = null; // Library entry Launch mode creates
 
   // Callbacks
   private onAddBody: ((body: CelestialBody) => void) | null = null;
-  private onLoadSystem: ((bodies: CelestialBody[]) => void) | null = null;
+  private onLoadSystem: ((bodies: CelestialBody[], seed?: number, name?: string) => void) | null = null;
   private onGetCurrentBodies: (() => CelestialBody[]) | null = null;
+  private onGetGravitationalConstant: (() => number) | null = null;
 
   constructor() {
     this.container = this.createContainer();
     this.createPlanetModal = new CreatePlanetModal();
+    this.placementDialog = new PlacementDialog();
     document.body.appendChild(this.container);
     this.render();
   }
@@ -40,7 +46,7 @@ export class SystemBuilder {
   /**
    * Set callback for loading a system
    */
-  setOnLoadSystem(callback: (bodies: CelestialBody[]) => void): void {
+  setOnLoadSystem(callback: (bodies: CelestialBody[], seed?: number, name?: string) => void): void {
     this.onLoadSystem = callback;
   }
 
@@ -51,6 +57,40 @@ export class SystemBuilder {
     this.onGetCurrentBodies = callback;
   }
 
+  /**
+   * Set callback for getting the gravitational constant the simulation is running with
+   */
+  setOnGetGravitationalConstant(callback: () => number): void {
+    this.onGetGravitationalConstant = callback;
+  }
+
+  /**
+   * Create a new body from the library entry chosen for Launch mode, if any
+   */
+  createChosenBody(): CelestialBody | null {
+    return this.chosenBody ? createLibraryBody(this.chosenBody) : null;
+  }
+
+  /**
+   * Ask where to put a new body, then add it (nothing is added if the dialog is cancelled)
+   */
+  private async placeBody(body: CelestialBody): Promise<void> {
+    if (!this.onAddBody) return;
+
+    const getBodies = () => this.onGetCurrentBodies ? this.onGetCurrentBodies() : [];
+    const G = this.onGetGravitationalConstant ? this.onGetGravitationalConstant() : 1.0;
+    const state = await this.placementDialog.show(body, getBodies, G);
+    if (!state) {
+      body.dispose();
+      return;
+    }
+
+    body.position.copy(state.position);
+    body.velocity.copy(state.velocity);
+    body.updateMesh();
+    this.onAddBody(body);
+  }
+
   /**
    * Create main container
    */
@@ -106,8 +146,14 @@ export class SystemBuilder {
       const libraryContainer = document.createElement('div');
       libraryContainer.className = 'system-builder-tab-content';
       this.libraryBrowser = new LibraryBrowser(libraryContainer);
-      if (this.onAddBody) {
-        this.libraryBrowser.setOnAddBody(this.onAddBody);
+      this.libraryBrowser.setOnAddBody((body) => {
+        this.placeBody(body);
+      });
+      this.libraryBrowser.setOnChooseBody((bodyData) => {
+        this.chosenBody = bodyData;
+      });
+      if (this.chosenBody) {
+        this.libraryBrowser.setChosen(this.chosenBody);
       }
       content.appendChild(libraryContainer);
     } else if (this.currentTab === 'systems') {
@@ -159,8 +205,8 @@ export class SystemBuilder {
    */
   private async showCreateModal(): Promise<void> {
     const result = await this.createPlanetModal.show();
-    if (result && this.onAddBody) {
-      this.onAddBody(result.body);
+    if (result) {
+      await this.placeBody(result.body);
     }
   }
 
@@ -192,7 +238,9 @@ export class SystemBuilder {
     }
 
     // Create system
-    const system = StorageManager.bodiesToSystem(bodies, name.trim(), description, thumbnail);
+    const system = StorageManager.bodiesToSystem(
+      bodies, name.trim(), description, thumbnail, randomService.getSeed()
+    );
 
     // Save to storage
     try {
@@ -225,6 +273,7 @@ export class SystemBuilder {
     if (this.createPlanetModal) {
       this.createPlanetModal.dispose();
     }
+    this.placementDialog.dispose();
     if (this.container.parentNode) {
       this.container.parentNode.removeChild(this.container);
     }
@@ -28,7 +28,8 @@ export class Toolbar {
       { mode: InteractionMode.Camera, icon: '🎥', label: 'Camera', shortcut: 'C' },
       { mode: InteractionMode.Grab, icon: '✋', label: 'Grab', shortcut: 'G' },
       { mode: InteractionMode.Delete, icon: '🗑️', label: 'Delete', shortcut: 'D' },
-      { mode: InteractionMode.Edit, icon: '✏️', label: 'Edit', shortcut: 'E' }
+      { mode: InteractionMode.Edit, icon: '✏️', label: 'Edit', shortcut: 'E' },
+      { mode: InteractionMode.Launch, icon: '🚀', label: 'Launch', shortcut: 'L' }
     ];
 
     this.container = this.createToolbar();
@@ -0,0 +1,83 @@
+import { PhysicsEngine } from './Physics.js';
+import { applyPhysicsSettings, toBodyData, type PhysicsSettings } from './SimulationProtocol.js';
+import type { SimulationBody } from './SimulationState.js';
+
+/**
+ * How far ahead to predict
+ */
+export interface TrajectoryOptions {
+  steps: number; // Physics steps to integrate
+  timeStep: number; // Passed to PhysicsEngine.update() each step
+  sampleInterval: number; // Steps between recorded points
+}
+
+export const DEFAULT_TRAJECTORY_OPTIONS: TrajectoryOptions = {
+  steps: 600,
+  timeStep: 1 / 60,
+  sampleInterval: 2
+};
+
+/**
+ * Predicted path of one body
+ */
+export interface PredictedTrajectory {
+  points: Float32Array; // 3 entries per point, starting at the body's current position
+  count: number;
+  collided: boolean; // The body was removed by a collision before the horizon
+}
+
+/**
+ * Forward-integrate a copy of a system and record where `target` goes
+ * The bodies are copied into a private PhysicsEngine configured with `settings`, so the
+ * live simulation is never touched. `target` need not be in `bodies` (e.g. a body about to
+ * be launched). The prediction stops early if a collision removes the target.
+ */
+export function predictTrajectory(
+  bodies: SimulationBody[],
+  target: SimulationBody,
+  settings: PhysicsSettings,
+  options: Partial<TrajectoryOptions> = {}
+): PredictedTrajectory {
+  const { steps, timeStep, sampleInterval } = { ...DEFAULT_TRAJECTORY_OPTIONS, ...options };
+  const interval = Math.max(1, Math.floor(sampleInterval));
+
+  const physics = new PhysicsEngine(settings.G, settings.useBarnesHut);
+  applyPhysicsSettings(physics, settings);
+
+  let copy: SimulationBody | null = null;
+  for (const body of bodies) {
+    const data = toBodyData(body);
+    if (body === target) copy = data;
+    physics.addBody(data);
+  }
+  if (!copy) {
+    copy = toBodyData(target);
+    physics.addBody(copy);
+  }
+
+  let collided = false;
+  physics.onCollision = (event) => {
+    if (event.removed.includes(copy!)) {
+      collided = true;
+    }
+  };
+
+  const points = new Float32Array(3 * (Math.floor(steps / interval) + 1));
+  let count = 0;
+  const record = () => {
+    points[3 * count] = copy!.position.x;
+    points[3 * count + 1] = copy!.position.y;
+    points[3 * count + 2] = copy!.position.z;
+    count++;
+  };
+
+  record();
+  for (let step = 1; step <= steps && !collided; step++) {
+    physics.update(timeStep);
+    if (step % interval === 0 && !collided) {
+      record();
+    }
+  }
+
+  return { points, count, collided };
+}
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import type { PredictedTrajectory } from './Trajectory.js';
+
+/**
+ * Dashed line showing a predicted trajectory
+ */
+export class TrajectoryLine {
+  line: THREE.Line;
+  geometry: THREE.BufferGeometry;
+  material: THREE.LineDashedMaterial;
+  private capacity: number;
+
+  constructor(scene: THREE.Scene, color: number = 0x00ff88) {
+    this.capacity = 0;
+    this.geometry = new THREE.BufferGeometry();
+    this.material = new THREE.LineDashedMaterial({
+      color,
+      dashSize: 1,
+      gapSize: 0.6,
+      transparent: true,
+      opacity: 0.8,
+      depthWrite: false
+    });
+    this.allocate(512);
+
+    this.line = new THREE.Line(this.geometry, this.material);
+    this.line.frustumCulled = false;
+    this.line.visible = false;
+    scene.add(this.line);
+  }
+
+  /**
+   * Replace the position buffer with one that holds `capacity` points
+   */
+  private allocate(capacity: number): void {
+    this.capacity = capacity;
+    const attribute = new THREE.BufferAttribute(new Float32Array(3 * capacity), 3);
+    attribute.setUsage(THREE.DynamicDrawUsage);
+    this.geometry.setAttribute('position', attribute);
+  }
+
+  /**
+   * Show a trajectory
+   */
+  update(trajectory: PredictedTrajectory): void {
+    if (trajectory.count > this.capacity) {
+      this.allocate(Math.max(trajectory.count, 2 * this.capacity));
+    }
+
+    const attribute = this.geometry.getAttribute('position') as THREE.BufferAttribute;
+    (attribute.array as Float32Array).set(trajectory.points.subarray(0, 3 * trajectory.count));
+    attribute.needsUpdate = true;
+    this.geometry.setDrawRange(0, trajectory.count);
+
+    // Dashes are laid out along the line's length, so recompute them for the new points
+    this.line.computeLineDistances();
+    this.line.visible = trajectory.count > 1;
+  }
+
+  /**
+   * Hide the line until the next update
+   */
+  hide(): void {
+    this.line.visible = false;
+  }
+
+  /**
+   * Remove from the scene and free GPU resources
+   */
+  dispose(): void {
+    this.line.removeFromParent();
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+}
@@ -1,16 +1,105 @@
 import { Pane } from 'tweakpane';
-import * as THREE from 'three';
 import type { CelestialBody } from './Body.js';
+import { MULTIPOLE_ORDER_OPTIONS, MultipoleOrder } from './BarnesHut.js';
+import { COLLISION_MODE_OPTIONS, CollisionMode } from './Collisions.js';
+import { INTEGRATOR_OPTIONS, IntegratorType } from './Integrators.js';
+import { SOFTENING_KERNEL_OPTIONS, SofteningKernel } from './Softening.js';
+import { DEFAULT_SEED } from './Random.js';
+import type { ConservationDrift, ConservationSnapshot } from './Diagnostics.js';
+import { DRAG_RELEASE_OPTIONS, DragRelease } from './Input.js';
+import { elementsToState, findPrimary, stateToElements, type OrbitalElements } from './Orbits.js';
+import { DEFAULT_REWIND_SETTINGS, type RewindSettings } from './Rewind.js';
 
 interface Settings {
   timeScale: number;
   gravitationalConstant: number;
   showTrails: boolean;
+  instancedBodies: boolean; // Batch untextured bodies into one instanced draw call
+  showTrajectory: boolean; // Draw the selected body's predicted path
+  trajectoryHorizon: number; // Simulated time the prediction covers
+  dragRelease: DragRelease; // Velocity given to a body dropped in Grab mode
+  throwScale: number; // Multiplies the pointer velocity when throwing
   paused: boolean;
   useBarnesHut: boolean;
   barnesHutTheta: number;
+  barnesHutOrder: MultipoleOrder;
+  integrator: IntegratorType;
+  softeningLength: number;
+  softeningKernel: SofteningKernel;
+  adaptiveTimeStep: boolean;
+  timeStepTolerance: number;
+  minTimeStep: number;
+  maxTimeStep: number;
+  blockTimeSteps: boolean;
+  effectiveTimeStep: number; // Read-only, reported by the physics engine
+  collisionMode: CollisionMode;
+  fragmentCount: number;
+  minFragmentMass: number;
+  seed: number;
+  diagnosticsInterval: number; // Physics steps between diagnostics measurements
 }
 
+/**
+ * Values shown in the diagnostics folder (all read-only)
+ */
+interface DiagnosticsDisplay {
+  totalEnergy: number;
+  kineticEnergy: number;
+  potentialEnergy: number;
+  linearMomentum: number;
+  angularMomentum: number;
+  virialRatio: number;
+  energyDrift: number; // log10 of the relative drift since the last load
+  momentumDrift: number;
+  angularMomentumDrift: number;
+}
+
+/**
+ * Generator settings for test particle rings and belts
+ */
+interface ParticleSettings {
+  count: number;
+  ringInner: number; // Multiples of the selected body's radius
+  ringOuter: number;
+  ringThickness: number;
+  beltInner: number; // Distance from the central body
+  beltOuter: number;
+  beltThickness: number;
+  beltEccentricity: number;
+  particleCount: number; // Read-only, particles currently in the simulation
+}
+
+/**
+ * Simulation time readout, timeline scrubber and keyframe settings
+ */
+interface RewindControls {
+  time: number; // Read-only, simulated time
+  recorded: number; // Read-only, length of the timeline in simulated time
+  timeline: number; // Scrubber position, percent of the way from the earliest keyframe to the latest
+  keyframeInterval: number;
+  memoryBudget: number; // Megabytes
+}
+
+/**
+ * Orbital elements of the selected body as shown in the UI (angles in degrees)
+ */
+interface OrbitDisplay {
+  semiMajorAxis: number;
+  eccentricity: number;
+  inclination: number;
+  longitudeOfAscendingNode: number;
+  argumentOfPeriapsis: number;
+  trueAnomaly: number;
+  period: number;
+}
+
+type EditableElement = Exclude<keyof OrbitDisplay, 'period'>;
+
+/**
+ * Smallest drift shown on the log-scale graphs
+ */
+const MIN_LOG_DRIFT = -16;
+
 /**
  * Manages the UI panel for editing celestial body properties
  */
@@ -19,8 +108,35 @@ export class UIManager {
   selectedBody: CelestialBody | null;
   bodyFolder: any; // Tweakpane folder type
   globalFolder: any; // Tweakpane folder type
+  diagnosticsFolder: any; // Tweakpane folder type
+  particleFolder: any; // Tweakpane folder type
+  rewindFolder: any; // Tweakpane folder type
+  orbitFolder: any; // Tweakpane folder type
   settings: Settings;
+  diagnostics: DiagnosticsDisplay;
+  particleSettings: ParticleSettings;
+  rewind: RewindControls;
+  orbit: OrbitDisplay; // Live readout for the selected body
+  orbitEdit: OrbitDisplay; // Values in the element editor
+  orbitPrimary: CelestialBody | null; // Chosen primary, or null for the dominant body
   onBodyPropertyChange: (() => void) | null = null;
+  onBodyEdited: ((body: CelestialBody) => void) | null = null; // Called when a physical property is edited
+  onSettingsChange: (() => void) | null = null; // Called when any global setting is edited
+  onBodyEditStart: ((body: CelestialBody) => void) | null = null; // Pointer down or focus in the body folder
+  onBodyEditEnd: ((body: CelestialBody, motion: boolean) => void) | null = null; // An edit gesture finished; `motion` if it set position, velocity or Static
+  private refreshingBody: boolean = false; // Set while bindings are refreshed from the body, not edited
+  onSeedChange: ((seed: number) => void) | null = null;
+  onResetDiagnostics: (() => void) | null = null;
+  onAddRing: (() => void) | null = null;
+  onAddBelt: (() => void) | null = null;
+  onClearParticles: (() => void) | null = null;
+  onScrubStart: (() => void) | null = null; // The timeline scrubber was grabbed
+  onScrub: ((time: number) => void) | null = null; // Rewind to this simulated time
+  onRewindSettingsChange: (() => void) | null = null;
+  private timelineRange: { start: number; end: number } = { start: 0, end: 0 }; // Times at 0% and 100%
+  private scrubRange: { start: number; end: number } | null = null; // Timeline range when the scrub began
+  private refreshingTimeline: boolean = false; // Set while the scrubber follows the simulation, not the user
+  getBodies: (() => CelestialBody[]) | null = null; // Candidate primaries for the orbit readout
 
   // Make settings accessible for direct modification
   get paused(): boolean {
@@ -40,18 +156,89 @@ export class UIManager {
     this.selectedBody = null;
     this.bodyFolder = null;
     this.globalFolder = null;
+    this.diagnosticsFolder = null;
+    this.particleFolder = null;
+    this.rewindFolder = null;
+    this.orbitFolder = null;
+    this.orbitPrimary = null;
 
     // Global settings
     this.settings = {
       timeScale: 1.0,
       gravitationalConstant: 1.0,
       showTrails: true,
+      instancedBodies: true,
+      showTrajectory: false,
+      trajectoryHorizon: 20,
+      dragRelease: DragRelease.Throw,
+      throwScale: 1.0,
       paused: false,
       useBarnesHut: true,
-      barnesHutTheta: 0.5
+      barnesHutTheta: 0.5,
+      barnesHutOrder: MultipoleOrder.Quadrupole,
+      integrator: IntegratorType.VelocityVerlet,
+      softeningLength: 0.1,
+      softeningKernel: SofteningKernel.Spline,
+      adaptiveTimeStep: false,
+      timeStepTolerance: 0.05,
+      minTimeStep: 0.0001,
+      maxTimeStep: 0.05,
+      blockTimeSteps: false,
+      effectiveTimeStep: 0,
+      collisionMode: CollisionMode.None,
+      fragmentCount: 6,
+      minFragmentMass: 0.01,
+      seed: DEFAULT_SEED,
+      diagnosticsInterval: 10
+    };
+
+    this.diagnostics = {
+      totalEnergy: 0,
+      kineticEnergy: 0,
+      potentialEnergy: 0,
+      linearMomentum: 0,
+      angularMomentum: 0,
+      virialRatio: 0,
+      energyDrift: MIN_LOG_DRIFT,
+      momentumDrift: MIN_LOG_DRIFT,
+      angularMomentumDrift: MIN_LOG_DRIFT
+    };
+
+    this.particleSettings = {
+      count: 2000,
+      ringInner: 1.5,
+      ringOuter: 2.5,
+      ringThickness: 0.05,
+      beltInner: 20,
+      beltOuter: 26,
+      beltThickness: 1,
+      beltEccentricity: 0.05,
+      particleCount: 0
+    };
+
+    this.rewind = {
+      time: 0,
+      recorded: 0,
+      timeline: 100,
+      keyframeInterval: DEFAULT_REWIND_SETTINGS.keyframeInterval,
+      memoryBudget: DEFAULT_REWIND_SETTINGS.memoryBudget / (1024 * 1024)
+    };
+
+    this.orbit = {
+      semiMajorAxis: NaN,
+      eccentricity: NaN,
+      inclination: NaN,
+      longitudeOfAscendingNode: NaN,
+      argumentOfPeriapsis: NaN,
+      trueAnomaly: NaN,
+      period: NaN
     };
+    this.orbitEdit = { ...this.orbit };
 
     this.setupGlobalControls();
+    this.setupDiagnostics();
+    this.setupParticleControls();
+    this.setupRewindControls();
   }
 
   /**
@@ -81,6 +268,33 @@ export class UIManager {
       label: 'Show Trails'
     });
 
+    this.globalFolder.addBinding(this.settings, 'instancedBodies', {
+      label: 'Instanced Bodies'
+    });
+
+    this.globalFolder.addBinding(this.settings, 'showTrajectory', {
+      label: 'Predict Path'
+    });
+
+    this.globalFolder.addBinding(this.settings, 'trajectoryHorizon', {
+      label: 'Path Horizon',
+      min: 1,
+      max: 100,
+      step: 1
+    });
+
+    this.globalFolder.addBinding(this.settings, 'dragRelease', {
+      label: 'Drag Release',
+      options: DRAG_RELEASE_OPTIONS
+    });
+
+    this.globalFolder.addBinding(this.settings, 'throwScale', {
+      label: 'Throw Scale',
+      min: 0,
+      max: 5,
+      step: 0.05
+    });
+
     this.globalFolder.addBinding(this.settings, 'paused', {
       label: 'Paused'
     });
@@ -96,9 +310,487 @@ export class UIManager {
       step: 0.1
     });
 
+    this.globalFolder.addBinding(this.settings, 'barnesHutOrder', {
+      label: 'BH Expansion',
+      options: MULTIPOLE_ORDER_OPTIONS
+    });
+
+    this.globalFolder.addBinding(this.settings, 'integrator', {
+      label: 'Integrator',
+      options: INTEGRATOR_OPTIONS
+    });
+
+    this.globalFolder.addBinding(this.settings, 'softeningKernel', {
+      label: 'Softening Kernel',
+      options: SOFTENING_KERNEL_OPTIONS
+    });
+
+    this.globalFolder.addBinding(this.settings, 'softeningLength', {
+      label: 'Softening Length',
+      min: 0,
+      max: 2,
+      step: 0.01
+    });
+
+    this.globalFolder.addBinding(this.settings, 'collisionMode', {
+      label: 'Collisions',
+      options: COLLISION_MODE_OPTIONS
+    });
+
+    // Fragmentation (used by the Merge / Fragment collision mode)
+    const fragmentFolder = this.globalFolder.addFolder({
+      title: 'Fragmentation',
+      expanded: false
+    });
+
+    fragmentFolder.addBinding(this.settings, 'fragmentCount', {
+      label: 'Max Fragments',
+      min: 2,
+      max: 32,
+      step: 1
+    });
+
+    fragmentFolder.addBinding(this.settings, 'minFragmentMass', {
+      label: 'Min Fragment Mass',
+      min: 0.001,
+      max: 1,
+      step: 0.001
+    });
+
+    // Adaptive time stepping
+    const stepFolder = this.globalFolder.addFolder({
+      title: 'Adaptive Time Step',
+      expanded: false
+    });
+
+    stepFolder.addBinding(this.settings, 'adaptiveTimeStep', {
+      label: 'Adaptive'
+    });
+
+    stepFolder.addBinding(this.settings, 'blockTimeSteps', {
+      label: 'Block Steps'
+    });
+
+    stepFolder.addBinding(this.settings, 'timeStepTolerance', {
+      label: 'Tolerance',
+      min: 0.001,
+      max: 0.5,
+      step: 0.001
+    });
+
+    stepFolder.addBinding(this.settings, 'minTimeStep', {
+      label: 'Min Step',
+      min: 0.00001,
+      max: 0.01,
+      step: 0.00001
+    });
+
+    stepFolder.addBinding(this.settings, 'maxTimeStep', {
+      label: 'Max Step',
+      min: 0.001,
+      max: 0.5,
+      step: 0.001
+    });
+
+    stepFolder.addBinding(this.settings, 'effectiveTimeStep', {
+      label: 'Effective Step',
+      readonly: true,
+      format: (value: number) => value.toExponential(2)
+    });
+
+    this.globalFolder.addBinding(this.settings, 'seed', {
+      label: 'Random Seed',
+      step: 1,
+      min: 0
+    }).on('change', () => {
+      if (this.onSeedChange) {
+        this.onSeedChange(this.settings.seed);
+      }
+    });
+
     this.globalFolder.addButton({
       title: 'Reset Trails'
     });
+
+    // Change events bubble up from every binding in the folder
+    this.globalFolder.on('change', () => {
+      if (this.onSettingsChange) {
+        this.onSettingsChange();
+      }
+    });
+  }
+
+  /**
+   * Setup the conservation diagnostics monitors and drift graphs
+   */
+  setupDiagnostics(): void {
+    this.diagnosticsFolder = (this.pane as any).addFolder({
+      title: 'Diagnostics',
+      expanded: false
+    });
+
+    const formatValue = (value: number) => value.toPrecision(6);
+    this.diagnosticsFolder.addBinding(this.diagnostics, 'totalEnergy', {
+      label: 'Total Energy',
+      readonly: true,
+      format: formatValue
+    });
+    this.diagnosticsFolder.addBinding(this.diagnostics, 'kineticEnergy', {
+      label: 'Kinetic',
+      readonly: true,
+      format: formatValue
+    });
+    this.diagnosticsFolder.addBinding(this.diagnostics, 'potentialEnergy', {
+      label: 'Potential',
+      readonly: true,
+      format: formatValue
+    });
+    this.diagnosticsFolder.addBinding(this.diagnostics, 'linearMomentum', {
+      label: '|Momentum|',
+      readonly: true,
+      format: formatValue
+    });
+    this.diagnosticsFolder.addBinding(this.diagnostics, 'angularMomentum', {
+      label: '|Ang. Momentum|',
+      readonly: true,
+      format: formatValue
+    });
+    this.diagnosticsFolder.addBinding(this.diagnostics, 'virialRatio', {
+      label: 'Virial 2K/|W|',
+      readonly: true,
+      view: 'graph',
+      min: 0,
+      max: 2
+    });
+
+    // Drift graphs are log10 of the relative change since the last load
+    const driftGraph = { readonly: true, view: 'graph', min: MIN_LOG_DRIFT, max: 0 };
+    this.diagnosticsFolder.addBinding(this.diagnostics, 'energyDrift', {
+      ...driftGraph,
+      label: 'log dE/E'
+    });
+    this.diagnosticsFolder.addBinding(this.diagnostics, 'momentumDrift', {
+      ...driftGraph,
+      label: 'log dP/P'
+    });
+    this.diagnosticsFolder.addBinding(this.diagnostics, 'angularMomentumDrift', {
+      ...driftGraph,
+      label: 'log dL/L'
+    });
+
+    this.diagnosticsFolder.addBinding(this.settings, 'diagnosticsInterval', {
+      label: 'Every N Steps',
+      min: 1,
+      max: 100,
+      step: 1
+    });
+
+    this.diagnosticsFolder.addButton({
+      title: 'Reset Baseline'
+    }).on('click', () => {
+      if (this.onResetDiagnostics) {
+        this.onResetDiagnostics();
+      }
+    });
+  }
+
+  /**
+   * Show a new diagnostics measurement
+   */
+  updateDiagnostics(snapshot: ConservationSnapshot, drift: ConservationDrift): void {
+    const logDrift = (value: number) => Math.max(MIN_LOG_DRIFT, Math.log10(value));
+
+    this.diagnostics.totalEnergy = snapshot.totalEnergy;
+    this.diagnostics.kineticEnergy = snapshot.kineticEnergy;
+    this.diagnostics.potentialEnergy = snapshot.potentialEnergy;
+    this.diagnostics.linearMomentum = snapshot.linearMomentum.length();
+    this.diagnostics.angularMomentum = snapshot.angularMomentum.length();
+    this.diagnostics.virialRatio = snapshot.virialRatio;
+    this.diagnostics.energyDrift = logDrift(drift.energy);
+    this.diagnostics.momentumDrift = logDrift(drift.linearMomentum);
+    this.diagnostics.angularMomentumDrift = logDrift(drift.angularMomentum);
+  }
+
+  /**
+   * Setup the test particle generators (rings and belts)
+   */
+  setupParticleControls(): void {
+    this.particleFolder = (this.pane as any).addFolder({
+      title: 'Particles',
+      expanded: false
+    });
+
+    this.particleFolder.addBinding(this.particleSettings, 'count', {
+      label: 'Count',
+      min: 100,
+      max: 20000,
+      step: 100
+    });
+
+    const ringFolder = this.particleFolder.addFolder({
+      title: 'Ring (x body radius)',
+      expanded: true
+    });
+
+    ringFolder.addBinding(this.particleSettings, 'ringInner', {
+      label: 'Inner',
+      min: 1,
+      max: 10,
+      step: 0.1
+    });
+
+    ringFolder.addBinding(this.particleSettings, 'ringOuter', {
+      label: 'Outer',
+      min: 1,
+      max: 10,
+      step: 0.1
+    });
+
+    ringFolder.addBinding(this.particleSettings, 'ringThickness', {
+      label: 'Thickness',
+      min: 0,
+      max: 1,
+      step: 0.01
+    });
+
+    ringFolder.addButton({
+      title: 'Add Ring to Selected Body'
+    }).on('click', () => {
+      if (this.onAddRing) {
+        this.onAddRing();
+      }
+    });
+
+    const beltFolder = this.particleFolder.addFolder({
+      title: 'Belt',
+      expanded: true
+    });
+
+    beltFolder.addBinding(this.particleSettings, 'beltInner', {
+      label: 'Inner Orbit',
+      min: 1,
+      max: 200,
+      step: 0.5
+    });
+
+    beltFolder.addBinding(this.particleSettings, 'beltOuter', {
+      label: 'Outer Orbit',
+      min: 1,
+      max: 200,
+      step: 0.5
+    });
+
+    beltFolder.addBinding(this.particleSettings, 'beltThickness', {
+      label: 'Thickness',
+      min: 0,
+      max: 10,
+      step: 0.1
+    });
+
+    beltFolder.addBinding(this.particleSettings, 'beltEccentricity', {
+      label: 'Eccentricity',
+      min: 0,
+      max: 0.3,
+      step: 0.01
+    });
+
+    beltFolder.addButton({
+      title: 'Add Belt Around Selected Body'
+    }).on('click', () => {
+      if (this.onAddBelt) {
+        this.onAddBelt();
+      }
+    });
+
+    this.particleFolder.addBinding(this.particleSettings, 'particleCount', {
+      label: 'In Simulation',
+      readonly: true,
+      format: (value: number) => value.toFixed(0)
+    });
+
+    this.particleFolder.addButton({
+      title: 'Clear Particles'
+    }).on('click', () => {
+      if (this.onClearParticles) {
+        this.onClearParticles();
+      }
+    });
+  }
+
+  /**
+   * Setup the simulation time readout, the timeline scrubber and keyframe recording
+   */
+  setupRewindControls(): void {
+    this.rewindFolder = (this.pane as any).addFolder({
+      title: 'Rewind',
+      expanded: false
+    });
+
+    this.rewindFolder.addBinding(this.rewind, 'time', {
+      label: 'Sim Time',
+      readonly: true,
+      format: (value: number) => value.toFixed(2)
+    });
+
+    this.rewindFolder.addBinding(this.rewind, 'recorded', {
+      label: 'Recorded',
+      readonly: true,
+      format: (value: number) => value.toFixed(1)
+    });
+
+    // The range is fixed while the scrubber is held, so rewinding does not shift it under the pointer
+    this.rewindFolder.addBinding(this.rewind, 'timeline', {
+      label: 'Timeline (%)',
+      min: 0,
+      max: 100,
+      step: 0.1
+    }).on('change', (event: { last: boolean }) => {
+      if (this.refreshingTimeline) return;
+
+      if (!this.scrubRange) {
+        this.scrubRange = { ...this.timelineRange };
+        if (this.onScrubStart) {
+          this.onScrubStart();
+        }
+      }
+      const { start, end } = this.scrubRange;
+      if (this.onScrub) {
+        this.onScrub(start + (end - start) * this.rewind.timeline / 100);
+      }
+      if (event.last) {
+        this.scrubRange = null;
+      }
+    });
+
+    this.rewindFolder.addBinding(this.rewind, 'keyframeInterval', {
+      label: 'Keyframe Every',
+      min: 0.1,
+      max: 10,
+      step: 0.1
+    }).on('change', () => {
+      if (this.onRewindSettingsChange) {
+        this.onRewindSettingsChange();
+      }
+    });
+
+    this.rewindFolder.addBinding(this.rewind, 'memoryBudget', {
+      label: 'Memory (MB)',
+      min: 8,
+      max: 1024,
+      step: 8
+    }).on('change', () => {
+      if (this.onRewindSettingsChange) {
+        this.onRewindSettingsChange();
+      }
+    });
+  }
+
+  /**
+   * Show the simulated time and where it sits between the recorded keyframes (call once per frame)
+   * The timeline runs from the earliest keyframe to the latest one, or to the current time
+   * if that is later. The scrubber follows the current time unless it is being dragged.
+   * @param earliestKeyframe Keyframe time range (NaN if nothing is recorded yet)
+   */
+  updateRewind(time: number, earliestKeyframe: number, latestKeyframe: number): void {
+    const recorded = !Number.isNaN(earliestKeyframe);
+    const start = recorded ? earliestKeyframe : time;
+    const end = recorded ? Math.max(latestKeyframe, time) : time;
+    this.timelineRange = { start, end };
+    this.rewind.time = time;
+    this.rewind.recorded = end - start;
+    if (this.scrubRange) return;
+
+    const timeline = end > start ? Math.round(1000 * (time - start) / (end - start)) / 10 : 100;
+    if (Math.abs(timeline - this.rewind.timeline) < 0.05) return;
+
+    this.rewind.timeline = timeline;
+    this.refreshingTimeline = true;
+    this.rewindFolder.refresh();
+    this.refreshingTimeline = false;
+  }
+
+  /**
+   * Keyframe recording settings for the simulation
+   */
+  getRewindSettings(): RewindSettings {
+    return {
+      keyframeInterval: this.rewind.keyframeInterval,
+      memoryBudget: this.rewind.memoryBudget * 1024 * 1024
+    };
+  }
+
+  /**
+   * Pause or resume the simulation, updating the checkbox
+   */
+  setPaused(paused: boolean): void {
+    this.settings.paused = paused;
+    this.globalFolder.refresh();
+  }
+
+  /**
+   * Set the random seed shown in the UI (e.g. from a loaded system)
+   */
+  setSeed(seed: number): void {
+    this.settings.seed = seed;
+    this.globalFolder.refresh();
+  }
+
+  /**
+   * The body the selected body's orbit is measured around: the chosen primary while it
+   * still exists, otherwise the dominant gravitational body
+   */
+  getOrbitPrimary(body: CelestialBody): CelestialBody | null {
+    const bodies = this.getBodies ? this.getBodies() : [];
+    if (this.orbitPrimary && this.orbitPrimary !== body && bodies.includes(this.orbitPrimary)) {
+      return this.orbitPrimary;
+    }
+    return findPrimary(body, bodies);
+  }
+
+  /**
+   * Osculating elements of `body` around `primary`
+   */
+  measureOrbit(body: CelestialBody, primary: CelestialBody): OrbitalElements {
+    const position = body.position.clone().sub(primary.position);
+    const velocity = body.velocity.clone().sub(primary.velocity);
+    const mu = this.settings.gravitationalConstant * (primary.mass + body.mass);
+    return stateToElements(position, velocity, mu);
+  }
+
+  /**
+   * Copy elements into a display object, converting angles to degrees (NaN if there is no orbit)
+   */
+  private showElements(target: OrbitDisplay, elements: OrbitalElements | null): void {
+    const degrees = (radians: number) => radians * 180 / Math.PI;
+    target.semiMajorAxis = elements ? elements.semiMajorAxis : NaN;
+    target.eccentricity = elements ? elements.eccentricity : NaN;
+    target.inclination = elements ? degrees(elements.inclination) : NaN;
+    target.longitudeOfAscendingNode = elements ? degrees(elements.longitudeOfAscendingNode) : NaN;
+    target.argumentOfPeriapsis = elements ? degrees(elements.argumentOfPeriapsis) : NaN;
+    target.trueAnomaly = elements ? degrees(elements.trueAnomaly) : NaN;
+    target.period = elements ? elements.period : NaN;
+  }
+
+  /**
+   * Refresh the orbit readout for the selected body (call once per frame)
+   */
+  updateOrbit(): void {
+    const body = this.selectedBody;
+    if (!body || !this.orbitFolder) return;
+
+    const primary = this.getOrbitPrimary(body);
+    this.showElements(this.orbit, primary ? this.measureOrbit(body, primary) : null);
+  }
+
+  /**
+   * Show the selected body's current values after it was changed elsewhere (e.g. by undo)
+   */
+  refreshBody(): void {
+    if (!this.bodyFolder) return;
+
+    this.refreshingBody = true;
+    this.bodyFolder.refresh();
+    this.refreshingBody = false;
   }
 
   /**
@@ -109,22 +801,49 @@ export class UIManager {
     if (this.bodyFolder) {
       this.bodyFolder.dispose();
       this.bodyFolder = null;
+      this.orbitFolder = null;
     }
 
+    if (body !== this.selectedBody) {
+      this.orbitPrimary = null;
+    }
     this.selectedBody = body;
 
     if (!body) return;
 
+    const notifyEdited = () => {
+      if (this.onBodyEdited) {
+        this.onBodyEdited(body);
+      }
+    };
+
+    // Slider drags and colour picks emit many changes; only the last one of a gesture ends the edit
+    const notifyEditEnd = (event: { last: boolean }, motion: boolean = false) => {
+      if (event.last && !this.refreshingBody && this.onBodyEditEnd) {
+        this.onBodyEditEnd(body, motion);
+      }
+    };
+
     // Create new folder for selected body
     this.bodyFolder = (this.pane as any).addFolder({
       title: `Selected: ${body.name}`,
       expanded: true
     });
 
+    // Every edit gesture starts with a pointer press or a focus change inside the folder
+    const notifyEditStart = () => {
+      if (this.onBodyEditStart) {
+        this.onBodyEditStart(body);
+      }
+    };
+    const folderElement = this.bodyFolder.element as HTMLElement;
+    folderElement.addEventListener('pointerdown', notifyEditStart, true);
+    folderElement.addEventListener('focusin', notifyEditStart, true);
+
     // Name
     this.bodyFolder.addBinding(body, 'name', {
       label: 'Name'
-    });
+    }).on('change', notifyEditEnd);
 
     // Mass
     this.bodyFolder.addBinding(body, 'mass', {
@@ -132,6 +851,9 @@ export class UIManager {
       min: 0.1,
       max: 1000,
       step: 0.1
+    }).on('change', (event: { last: boolean }) => {
+      notifyEdited();
+      notifyEditEnd(event);
     });
 
     // Radius
@@ -140,30 +862,32 @@ export class UIManager {
       min: 0.1,
       max: 10,
       step: 0.1
-    }).on('change', () => {
+    }).on('change', (event: { last: boolean }) => {
       // Update mesh geometry when radius changes
-      body.geometry.dispose();
-      body.geometry = new THREE.SphereGeometry(body.radius, 32, 32);
-      body.mesh.geometry = body.geometry;
+      body.setRadius(body.radius);
+      notifyEdited();
+      notifyEditEnd(event);
     });
 
     // Color
     this.bodyFolder.addBinding(body, 'color', {
       label: 'Color',
       view: 'color'
-    }).on('change', () => {
+    }).on('change', (event: { last: boolean }) => {
       body.updateVisuals();
+      notifyEditEnd(event);
     });
 
     // Emissive color
     this.bodyFolder.addBinding(body, 'emissive', {
       label: 'Emission Color',
       view: 'color'
-    }).on('change', () => {
+    }).on('change', (event: { last: boolean }) => {
       body.updateVisuals();
       if (this.onBodyPropertyChange) {
         this.onBodyPropertyChange();
       }
+      notifyEditEnd(event);
     });
 
     // Emissive intensity
@@ -172,35 +896,46 @@ export class UIManager {
       min: 0,
       max: 2,
       step: 0.01
-    }).on('change', () => {
+    }).on('change', (event: { last: boolean }) => {
       body.updateVisuals();
       if (this.onBodyPropertyChange) {
         this.onBodyPropertyChange();
       }
+      notifyEditEnd(event);
     });
 
+    const notifyMotionEditEnd = (event: { last: boolean }) => {
+      notifyEditEnd(event, true);
+    };
+    const notifyMotionEdited = (event: { last: boolean }) => {
+      notifyEdited();
+      notifyMotionEditEnd(event);
+    };
+
     // Position
     const posFolder = (this.bodyFolder as any).addFolder({
       title: 'Position',
       expanded: false
     });
-    posFolder.addBinding(body.position, 'x', { min: -100, max: 100 });
-    posFolder.addBinding(body.position, 'y', { min: -100, max: 100 });
-    posFolder.addBinding(body.position, 'z', { min: -100, max: 100 });
+    posFolder.addBinding(body.position, 'x', { min: -100, max: 100 }).on('change', notifyMotionEdited);
+    posFolder.addBinding(body.position, 'y', { min: -100, max: 100 }).on('change', notifyMotionEdited);
+    posFolder.addBinding(body.position, 'z', { min: -100, max: 100 }).on('change', notifyMotionEdited);
 
     // Velocity
     const velFolder = (this.bodyFolder as any).addFolder({
       title: 'Velocity',
       expanded: false
     });
-    velFolder.addBinding(body.velocity, 'x', { min: -10, max: 10, step: 0.1 });
-    velFolder.addBinding(body.velocity, 'y', { min: -10, max: 10, step: 0.1 });
-    velFolder.addBinding(body.velocity, 'z', { min: -10, max: 10, step: 0.1 });
+    velFolder.addBinding(body.velocity, 'x', { min: -10, max: 10, step: 0.1 }).on('change', notifyMotionEdited);
+    velFolder.addBinding(body.velocity, 'y', { min: -10, max: 10, step: 0.1 }).on('change', notifyMotionEdited);
+    velFolder.addBinding(body.velocity, 'z', { min: -10, max: 10, step: 0.1 }).on('change', notifyMotionEdited);
+
+    this.setupOrbitFolder(body, posFolder, velFolder, notifyEdited, notifyMotionEditEnd);
 
     // Static toggle
     this.bodyFolder.addBinding(body, 'isStatic', {
       label: 'Static (Fixed)'
-    });
+    }).on('change', notifyMotionEdited);
 
     // Clear trail button
     this.bodyFolder.addButton({
@@ -210,6 +945,124 @@ export class UIManager {
     });
   }
 
+  /**
+   * Add the orbital elements readout and editor for the selected body
+   */
+  private setupOrbitFolder(
+    body: CelestialBody,
+    posFolder: any,
+    velFolder: any,
+    notifyEdited: () => void,
+    notifyEditEnd: (event: { last: boolean }) => void
+  ): void {
+    this.orbitFolder = (this.bodyFolder as any).addFolder({
+      title: 'Orbit',
+      expanded: false
+    });
+
+    // Primary: -1 follows the dominant body, otherwise an index into `candidates`
+    const candidates = (this.getBodies ? this.getBodies() : []).filter(other => other !== body);
+    const primaryChoice = { primary: this.orbitPrimary ? candidates.indexOf(this.orbitPrimary) : -1 };
+    const primaryOptions = [{ text: 'Dominant body', value: -1 }]
+      .concat(candidates.map((other, index) => ({ text: `${other.name} (#${index + 1})`, value: index })));
+
+    let loading = false;
+    const loadCurrent = () => {
+      const primary = this.getOrbitPrimary(body);
+      this.showElements(this.orbitEdit, primary ? this.measureOrbit(body, primary) : null);
+      loading = true;
+      editFolder.refresh();
+      loading = false;
+    };
+
+    this.orbitFolder.addBinding(primaryChoice, 'primary', {
+      label: 'Primary',
+      options: primaryOptions
+    }).on('change', () => {
+      this.orbitPrimary = primaryChoice.primary >= 0 ? candidates[primaryChoice.primary] : null;
+      this.updateOrbit();
+      loadCurrent();
+    });
+
+    const formatNumber = (digits: number) => (value: number) =>
+      Number.isFinite(value) ? value.toFixed(digits) : Number.isNaN(value) ? '-' : '∞';
+    const readouts: [keyof OrbitDisplay, string, number][] = [
+      ['semiMajorAxis', 'Semi-major Axis', 3],
+      ['eccentricity', 'Eccentricity', 4],
+      ['inclination', 'Inclination (deg)', 2],
+      ['longitudeOfAscendingNode', 'Asc. Node (deg)', 2],
+      ['argumentOfPeriapsis', 'Arg. Periapsis (deg)', 2],
+      ['trueAnomaly', 'True Anomaly (deg)', 2],
+      ['period', 'Period', 3]
+    ];
+    for (const [key, label, digits] of readouts) {
+      this.orbitFolder.addBinding(this.orbit, key, {
+        label,
+        readonly: true,
+        format: formatNumber(digits)
+      });
+    }
+
+    // Editing one element keeps the others at their current values and recomputes the state vector
+    const editFolder = this.orbitFolder.addFolder({
+      title: 'Edit Elements',
+      expanded: false
+    });
+
+    const applyElement = (key: EditableElement) => {
+      const primary = this.getOrbitPrimary(body);
+      if (loading || this.refreshingBody || !primary) return;
+
+      const elements = this.measureOrbit(body, primary);
+      const value = this.orbitEdit[key];
+      elements[key] = key === 'semiMajorAxis' || key === 'eccentricity' ? value : value * Math.PI / 180;
+
+      const mu = this.settings.gravitationalConstant * (primary.mass + body.mass);
+      let state;
+      try {
+        state = elementsToState(elements, mu);
+      } catch (error) {
+        loadCurrent();
+        alert(error instanceof Error ? error.message : String(error));
+        return;
+      }
+
+      body.position.copy(primary.position).add(state.position);
+      body.velocity.copy(primary.velocity).add(state.velocity);
+      body.updateMesh();
+      this.refreshingBody = true;
+      posFolder.refresh();
+      velFolder.refresh();
+      this.refreshingBody = false;
+      notifyEdited();
+      this.updateOrbit();
+    };
+
+    const editors: [EditableElement, string, object][] = [
+      ['semiMajorAxis', 'Semi-major Axis', { step: 0.1 }],
+      ['eccentricity', 'Eccentricity', { min: 0, step: 0.01 }],
+      ['inclination', 'Inclination (deg)', { min: 0, max: 180, step: 1 }],
+      ['longitudeOfAscendingNode', 'Asc. Node (deg)', { min: 0, max: 360, step: 1 }],
+      ['argumentOfPeriapsis', 'Arg. Periapsis (deg)', { min: 0, max: 360, step: 1 }],
+      ['trueAnomaly', 'True Anomaly (deg)', { min: 0, max: 360, step: 1 }]
+    ];
+    for (const [key, label, options] of editors) {
+      editFolder.addBinding(this.orbitEdit, key, { label, ...options }).on('change', (event: { last: boolean }) => {
+        applyElement(key);
+        if (!loading) {
+          notifyEditEnd(event);
+        }
+      });
+    }
+
+    editFolder.addButton({
+      title: 'Load Current Elements'
+    }).on('click', loadCurrent);
+
+    this.updateOrbit();
+    loadCurrent();
+  }
+
   /**
    * Get current settings
    */
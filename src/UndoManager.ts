@@ -1,12 +1,14 @@
 import type { CelestialBody } from './Body.js';
 import { CelestialBody as CelestialBodyClass } from './Body.js';
+import type { BodyPhysicalState } from './Collisions.js';
+import type { SimulationBody } from './SimulationState.js';
 import * as THREE from 'three';
 
 /**
  * Represents a snapshot of a body's state for undo/redo
  */
-interface BodySnapshot {
-  id: string; // Unique identifier for the body
+export interface BodySnapshot {
+  id: string; // The body's CelestialBody.id
   name: string;
   mass: number;
   radius: number;
@@ -16,26 +18,87 @@ interface BodySnapshot {
   emissive: number;
   emissiveIntensity: number;
   isStatic: boolean;
+  textureUrl: string | null; // As recorded on the body; blob: URLs stop working once the body is disposed
+  normalMapUrl: string | null;
+  texture: THREE.Texture | null; // Shares the loaded image, so it outlives the body's own texture
+  normalMap: THREE.Texture | null;
+  trailPoints: { x: number; y: number; z: number }[];
+}
+
+/**
+ * Copy of a texture that shares its image, for a snapshot to hold on to
+ */
+function shareTexture(texture: THREE.Texture | null): THREE.Texture | null {
+  return texture ? texture.clone() : null;
+}
+
+/**
+ * Whether two snapshots of a body describe the same state (the trail is ignored, it grows by itself)
+ */
+function sameBodyState(a: BodySnapshot, b: BodySnapshot): boolean {
+  return a.id === b.id &&
+    a.name === b.name &&
+    a.mass === b.mass &&
+    a.radius === b.radius &&
+    a.position.x === b.position.x && a.position.y === b.position.y && a.position.z === b.position.z &&
+    a.velocity.x === b.velocity.x && a.velocity.y === b.velocity.y && a.velocity.z === b.velocity.z &&
+    a.color === b.color &&
+    a.emissive === b.emissive &&
+    a.emissiveIntensity === b.emissiveIntensity &&
+    a.isStatic === b.isStatic &&
+    a.textureUrl === b.textureUrl &&
+    a.normalMapUrl === b.normalMapUrl &&
+    a.texture?.source === b.texture?.source &&
+    a.normalMap?.source === b.normalMap?.source;
 }
 
 /**
  * Types of operations that can be undone
  */
-export type UndoOperationType = 'add' | 'remove' | 'modify';
+export type UndoOperationType = 'add' | 'remove' | 'modify' | 'collision' | 'transaction';
 
 export const UndoOperationType = {
   AddBody: 'add' as UndoOperationType,
   RemoveBody: 'remove' as UndoOperationType,
-  ModifyBody: 'modify' as UndoOperationType
+  ModifyBody: 'modify' as UndoOperationType,
+  Collision: 'collision' as UndoOperationType,
+  Transaction: 'transaction' as UndoOperationType
 } as const;
 
+/**
+ * A body removed by an operation, with its index in the bodies array
+ */
+interface RemovedBodyRecord {
+  snapshot: BodySnapshot;
+  index: number;
+}
+
 /**
  * Represents an undoable operation
  */
-interface UndoOperation {
+export interface UndoOperation {
   type: UndoOperationType;
-  bodySnapshot: BodySnapshot;
+  bodySnapshot?: BodySnapshot; // Every type except transactions
   bodyIndex?: number; // For remove operations, track original index
+  afterSnapshot?: BodySnapshot; // For modifications and collisions, state of the (surviving) body afterwards
+  keepMotion?: boolean; // For modifications that left position and velocity alone: undo and redo keep the live motion
+  removedBodies?: RemovedBodyRecord[]; // For collisions, bodies that were absorbed
+  addedBodies?: BodySnapshot[]; // For collisions, fragments that were created
+  operations?: UndoOperation[]; // For transactions, the grouped operations in the order they happened
+  label: string; // What happened, for the history panel (e.g. "Added Mars", "Loaded Solar System")
+  timestamp: number; // When it happened (ms since epoch)
+}
+
+/**
+ * Describe a modification: "Moved" if the body was repositioned (and maybe given a new velocity),
+ * "Edited" for any other change
+ */
+function describeModification(before: BodySnapshot, after: BodySnapshot): string {
+  const repositioned = before.position.x !== after.position.x ||
+    before.position.y !== after.position.y ||
+    before.position.z !== after.position.z;
+  const onlyMotion = sameBodyState({ ...before, position: after.position, velocity: after.velocity }, after);
+  return repositioned && onlyMotion ? `Moved ${after.name}` : `Edited ${after.name}`;
 }
 
 /**
@@ -45,22 +108,94 @@ export class UndoManager {
   private undoStack: UndoOperation[];
   private redoStack: UndoOperation[];
   private maxStackSize: number;
-  private bodyIdMap: Map<CelestialBody, string>; // Map bodies to unique IDs
+  private transaction: UndoOperation | null; // Open transaction collecting operations
+  private transactionDepth: number; // Nested begin calls; the outermost commit closes the transaction
+  onChange: (() => void) | null; // Called whenever the undo or redo stack changes
 
   constructor(maxStackSize: number = 50) {
     this.undoStack = [];
     this.redoStack = [];
     this.maxStackSize = maxStackSize;
-    this.bodyIdMap = new Map();
+    this.transaction = null;
+    this.transactionDepth = 0;
+    this.onChange = null;
+  }
+
+  /**
+   * Most operations the undo stack keeps
+   */
+  getMaxStackSize(): number {
+    return this.maxStackSize;
+  }
+
+  /**
+   * Change how many operations the undo stack keeps, dropping the oldest ones that no longer fit
+   */
+  setMaxStackSize(maxStackSize: number): void {
+    this.maxStackSize = Math.max(1, Math.floor(maxStackSize));
+    if (this.undoStack.length > this.maxStackSize) {
+      this.undoStack.splice(0, this.undoStack.length - this.maxStackSize);
+    }
+    this.notifyChange();
+  }
+
+  /**
+   * Operations that can be undone, oldest first
+   */
+  getUndoStack(): readonly UndoOperation[] {
+    return this.undoStack;
+  }
+
+  /**
+   * Operations that can be redone, the next one to redo last
+   */
+  getRedoStack(): readonly UndoOperation[] {
+    return this.redoStack;
+  }
+
+  /**
+   * Start grouping recorded operations into one undo step
+   * Calls may nest; only the outermost label is kept.
+   */
+  beginTransaction(label: string): void {
+    if (this.transactionDepth++ === 0) {
+      this.transaction = {
+        type: UndoOperationType.Transaction,
+        operations: [],
+        label,
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  /**
+   * Close the transaction opened by the matching beginTransaction()
+   * Nothing is recorded if no operation happened inside it.
+   */
+  commitTransaction(): void {
+    if (this.transactionDepth === 0) return;
+    if (--this.transactionDepth > 0) return;
+
+    const transaction = this.transaction!;
+    this.transaction = null;
+    if (transaction.operations!.length > 0) {
+      this.addToUndoStack(transaction);
+    }
+  }
+
+  /**
+   * Whether operations are currently being grouped
+   */
+  isInTransaction(): boolean {
+    return this.transactionDepth > 0;
   }
 
   /**
    * Create a snapshot of a body's current state
    */
-  private createBodySnapshot(body: CelestialBody, id?: string): BodySnapshot {
-    const bodyId = id || this.getBodyId(body);
+  private createBodySnapshot(body: CelestialBody): BodySnapshot {
     return {
-      id: bodyId,
+      id: body.id,
       name: body.name,
       mass: body.mass,
       radius: body.radius,
@@ -77,38 +212,29 @@ export class UndoManager {
       color: body.color,
       emissive: body.emissive,
       emissiveIntensity: body.emissiveIntensity,
-      isStatic: body.isStatic
+      isStatic: body.isStatic,
+      textureUrl: body.textureUrl,
+      normalMapUrl: body.normalMapUrl,
+      texture: shareTexture(body.texture),
+      normalMap: shareTexture(body.normalMap),
+      trailPoints: body.trailPoints.map(point => ({ x: point.x, y: point.y, z: point.z }))
     };
   }
 
-  /**
-   * Get or create a unique ID for a body
-   */
-  private getBodyId(body: CelestialBody): string {
-    if (!this.bodyIdMap.has(body)) {
-      this.bodyIdMap.set(body, `body_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-    }
-    return this.bodyIdMap.get(body)!;
-  }
-
   /**
    * Find a body by its ID
    */
   findBodyById(bodies: CelestialBody[], id: string): CelestialBody | null {
-    for (const body of bodies) {
-      const bodyId = this.getBodyId(body);
-      if (bodyId === id) {
-        return body;
-      }
-    }
-    return null;
+    return bodies.find(body => body.id === id) ?? null;
   }
 
   /**
    * Create a body from a snapshot
+   * The new body takes over the snapshot's ID so later operations can still find it
    */
   createBodyFromSnapshot(snapshot: BodySnapshot): CelestialBody {
-    return new CelestialBodyClass({
+    const body = new CelestialBodyClass({
+      id: snapshot.id,
       name: snapshot.name,
       mass: snapshot.mass,
       radius: snapshot.radius,
@@ -119,6 +245,85 @@ export class UndoManager {
       emissiveIntensity: snapshot.emissiveIntensity,
       isStatic: snapshot.isStatic
     });
+    this.restoreAppearance(body, snapshot);
+    return body;
+  }
+
+  /**
+   * The most recent snapshot of the body with `id` held by any operation, or null
+   * Searches the open transaction, then the undo stack, then the redo stack, newest first.
+   */
+  findSnapshot(id: string): BodySnapshot | null {
+    const search = (operations: readonly UndoOperation[]): BodySnapshot | null => {
+      for (let i = operations.length - 1; i >= 0; i--) {
+        const operation = operations[i];
+        const snapshots = [
+          operation.afterSnapshot,
+          operation.bodySnapshot,
+          ...(operation.removedBodies || []).map(removed => removed.snapshot),
+          ...(operation.addedBodies || [])
+        ];
+        const found = snapshots.find(snapshot => snapshot?.id === id) ??
+          (operation.operations ? search(operation.operations) : null);
+        if (found) return found;
+      }
+      return null;
+    };
+    return (this.transaction ? search(this.transaction.operations!) : null) ??
+      search(this.undoStack) ??
+      search(this.redoStack);
+  }
+
+  /**
+   * Make a body for data from the simulation, e.g. one a rewind brought back after it was deleted
+   * The body keeps the data's ID; if that ID was recorded here, its textures come back too.
+   */
+  recreateBody(data: SimulationBody): CelestialBody {
+    const body = new CelestialBodyClass({
+      ...data,
+      position: new THREE.Vector3(data.position.x, data.position.y, data.position.z),
+      velocity: new THREE.Vector3(data.velocity.x, data.velocity.y, data.velocity.z)
+    });
+    const snapshot = data.id !== undefined ? this.findSnapshot(data.id) : null;
+    if (snapshot) {
+      this.restoreAppearance(body, snapshot);
+    }
+    return body;
+  }
+
+  /**
+   * Put a body back to the properties recorded in a snapshot
+   * @param keepMotion Leave the body's current position and velocity as they are
+   */
+  applySnapshot(body: CelestialBody, snapshot: BodySnapshot, keepMotion: boolean = false): void {
+    body.name = snapshot.name;
+    body.mass = snapshot.mass;
+    if (body.radius !== snapshot.radius) {
+      body.setRadius(snapshot.radius);
+    }
+    if (!keepMotion) {
+      body.position.set(snapshot.position.x, snapshot.position.y, snapshot.position.z);
+      body.velocity.set(snapshot.velocity.x, snapshot.velocity.y, snapshot.velocity.z);
+    }
+    body.color = snapshot.color;
+    body.emissive = snapshot.emissive;
+    body.emissiveIntensity = snapshot.emissiveIntensity;
+    body.isStatic = snapshot.isStatic;
+    this.restoreAppearance(body, snapshot);
+  }
+
+  /**
+   * Give a body the textures and trail recorded in a snapshot
+   * Textures are only replaced if the snapshot holds different images.
+   */
+  restoreAppearance(body: CelestialBody, snapshot: BodySnapshot): void {
+    if (snapshot.texture?.source !== body.texture?.source || snapshot.textureUrl !== body.textureUrl) {
+      body.setTexture(shareTexture(snapshot.texture), snapshot.textureUrl);
+    }
+    if (snapshot.normalMap?.source !== body.normalMap?.source || snapshot.normalMapUrl !== body.normalMapUrl) {
+      body.setNormalMap(shareTexture(snapshot.normalMap), snapshot.normalMapUrl);
+    }
+    body.setTrailPoints(snapshot.trailPoints);
   }
 
   /**
@@ -128,9 +333,10 @@ export class UndoManager {
     const snapshot = this.createBodySnapshot(body);
     this.addToUndoStack({
       type: UndoOperationType.AddBody,
-      bodySnapshot: snapshot
+      bodySnapshot: snapshot,
+      label: `Added ${body.name}`,
+      timestamp: Date.now()
     });
-    this.redoStack = []; // Clear redo stack when new operation is performed
   }
 
   /**
@@ -141,20 +347,64 @@ export class UndoManager {
     this.addToUndoStack({
       type: UndoOperationType.RemoveBody,
       bodySnapshot: snapshot,
-      bodyIndex: bodyIndex
+      bodyIndex: bodyIndex,
+      label: `Deleted ${body.name}`,
+      timestamp: Date.now()
     });
-    this.redoStack = []; // Clear redo stack when new operation is performed
   }
 
   /**
-   * Record a body modification for undo
+   * Record a body modification for undo; the body's current state is kept for redo
+   * Nothing is recorded if the body is unchanged since `beforeSnapshot`.
+   * @param keepMotion The edit did not touch position or velocity (e.g. a new mass while the
+   *   body orbits), so undo and redo should not move the body back to where it was
    */
-  recordModifyBody(_body: CelestialBody, beforeSnapshot: BodySnapshot): void {
+  recordModifyBody(body: CelestialBody, beforeSnapshot: BodySnapshot, keepMotion: boolean = false): void {
+    const afterSnapshot = this.createBodySnapshot(body);
+    const compared = keepMotion
+      ? { ...afterSnapshot, position: beforeSnapshot.position, velocity: beforeSnapshot.velocity }
+      : afterSnapshot;
+    if (sameBodyState(compared, beforeSnapshot)) {
+      return;
+    }
+
     this.addToUndoStack({
       type: UndoOperationType.ModifyBody,
-      bodySnapshot: beforeSnapshot
+      bodySnapshot: beforeSnapshot,
+      afterSnapshot,
+      keepMotion,
+      label: describeModification(beforeSnapshot, compared),
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Record a collision (merge or fragmentation) for undo as a single operation
+   * @param survivor The body that remains, in its post-collision state
+   * @param survivorBefore Physical state of the survivor before the collision
+   * @param removed Absorbed or shattered bodies with their index in the bodies array
+   * @param created Fragments produced by the collision
+   */
+  recordCollision(
+    survivor: CelestialBody,
+    survivorBefore: BodyPhysicalState,
+    removed: { body: CelestialBody; index: number }[],
+    created: CelestialBody[] = []
+  ): void {
+    const afterSnapshot = this.createBodySnapshot(survivor);
+    const names = [survivor, ...removed.map(({ body }) => body)].map(body => body.name).join(' and ');
+    this.addToUndoStack({
+      type: UndoOperationType.Collision,
+      bodySnapshot: { ...afterSnapshot, ...survivorBefore },
+      afterSnapshot,
+      removedBodies: removed.map(({ body, index }) => ({
+        snapshot: this.createBodySnapshot(body),
+        index
+      })),
+      addedBodies: created.map(body => this.createBodySnapshot(body)),
+      label: created.length > 0 ? `Shattered ${names}` : `Merged ${names}`,
+      timestamp: Date.now()
     });
-    this.redoStack = []; // Clear redo stack when new operation is performed
   }
 
   /**
@@ -165,13 +415,30 @@ export class UndoManager {
   }
 
   /**
-   * Add operation to undo stack with size limit
+   * Add operation to undo stack with size limit (or to the open transaction)
+   * A new operation clears the redo stack.
    */
   private addToUndoStack(operation: UndoOperation): void {
+    this.redoStack = [];
+    if (this.transaction && operation !== this.transaction) {
+      this.transaction.operations!.push(operation);
+      return;
+    }
+
     this.undoStack.push(operation);
     if (this.undoStack.length > this.maxStackSize) {
       this.undoStack.shift(); // Remove oldest operation
     }
+    this.notifyChange();
+  }
+
+  /**
+   * Tell the listener the stacks changed
+   */
+  private notifyChange(): void {
+    if (this.onChange) {
+      this.onChange();
+    }
   }
 
   /**
@@ -199,6 +466,7 @@ export class UndoManager {
 
     const operation = this.undoStack.pop()!;
     this.redoStack.push(operation);
+    this.notifyChange();
     return operation;
   }
 
@@ -213,6 +481,7 @@ export class UndoManager {
 
     const operation = this.redoStack.pop()!;
     this.undoStack.push(operation);
+    this.notifyChange();
     return operation;
   }
 
@@ -222,15 +491,7 @@ export class UndoManager {
   clear(): void {
     this.undoStack = [];
     this.redoStack = [];
-  }
-
-  /**
-   * Remove a body from the ID map (when body is permanently deleted)
-   */
-  removeBodyId(_body: CelestialBody): void {
-    // Note: We can't actually delete from the map here because we need the ID
-    // to restore the body. The ID map is kept for undo/redo purposes.
-    // In practice, bodies are kept in the map until the undo stack is cleared.
+    this.notifyChange();
   }
 }
 
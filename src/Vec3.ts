@@ -0,0 +1,98 @@
+/**
+ * Anything with x, y and z components (Vec3, THREE.Vector3, plain objects)
+ */
+export interface Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Minimal 3D vector used by the physics core so it can run without Three.js
+ * Method names and semantics follow THREE.Vector3 for the subset that is implemented.
+ */
+export class Vec3 implements Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+
+  constructor(x: number = 0, y: number = 0, z: number = 0) {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+  }
+
+  set(x: number, y: number, z: number): this {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    return this;
+  }
+
+  copy(v: Vector3Like): this {
+    return this.set(v.x, v.y, v.z);
+  }
+
+  clone(): Vec3 {
+    return new Vec3(this.x, this.y, this.z);
+  }
+
+  add(v: Vector3Like): this {
+    return this.set(this.x + v.x, this.y + v.y, this.z + v.z);
+  }
+
+  sub(v: Vector3Like): this {
+    return this.set(this.x - v.x, this.y - v.y, this.z - v.z);
+  }
+
+  addScaledVector(v: Vector3Like, scale: number): this {
+    return this.set(this.x + v.x * scale, this.y + v.y * scale, this.z + v.z * scale);
+  }
+
+  multiplyScalar(scale: number): this {
+    return this.set(this.x * scale, this.y * scale, this.z * scale);
+  }
+
+  divideScalar(scale: number): this {
+    return this.multiplyScalar(1 / scale);
+  }
+
+  dot(v: Vector3Like): number {
+    return this.x * v.x + this.y * v.y + this.z * v.z;
+  }
+
+  crossVectors(a: Vector3Like, b: Vector3Like): this {
+    return this.set(
+      a.y * b.z - a.z * b.y,
+      a.z * b.x - a.x * b.z,
+      a.x * b.y - a.y * b.x
+    );
+  }
+
+  lengthSq(): number {
+    return this.x * this.x + this.y * this.y + this.z * this.z;
+  }
+
+  length(): number {
+    return Math.sqrt(this.lengthSq());
+  }
+
+  normalize(): this {
+    return this.divideScalar(this.length() || 1);
+  }
+
+  distanceToSquared(v: Vector3Like): number {
+    const dx = this.x - v.x;
+    const dy = this.y - v.y;
+    const dz = this.z - v.z;
+    return dx * dx + dy * dy + dz * dz;
+  }
+
+  distanceTo(v: Vector3Like): number {
+    return Math.sqrt(this.distanceToSquared(v));
+  }
+
+  equals(v: Vector3Like): boolean {
+    return this.x === v.x && this.y === v.y && this.z === v.z;
+  }
+}
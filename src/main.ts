@@ -3,16 +3,28 @@ import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
-import { PhysicsEngine } from './Physics.js';
+import { SimulationHost } from './SimulationHost.js';
+import { ParticleRenderer } from './ParticleRenderer.js';
+import { InstancedBodyRenderer } from './BodyRenderer.js';
+import { LaunchPreview } from './LaunchPreview.js';
+import { TrajectoryLine } from './TrajectoryLine.js';
 import { CelestialBody } from './Body.js';
 import { InputHandler } from './Input.js';
 import { UIManager } from './UI.js';
 import { ModeManager, InteractionMode } from './ModeManager.js';
 import { Toolbar } from './Toolbar.js';
-import { UndoManager, UndoOperationType } from './UndoManager.js';
+import { UndoManager, UndoOperationType, type BodySnapshot, type UndoOperation } from './UndoManager.js';
 import { SystemBuilder } from './SystemBuilder.js';
+import { HistoryPanel } from './HistoryPanel.js';
+import type { CollisionEvent } from './Collisions.js';
+import type { PhysicsSettings } from './SimulationProtocol.js';
+import type { RewindEvent } from './Rewind.js';
+import { randomService } from './Random.js';
 import './style.css';
 
+const TRAJECTORY_REFRESH_INTERVAL = 0.25; // Seconds between predictions while the simulation runs
+const MAX_TRAJECTORY_STEPS = 6000; // Caps the cost of long horizons at small time scales
+
 /**
  * Main application class
  */
@@ -22,13 +34,28 @@ class PlanetSimulation {
   renderer: THREE.WebGLRenderer | null;
   controls: OrbitControls | null;
   composer: EffectComposer | null;
-  physics: PhysicsEngine | null;
+  simulation: SimulationHost | null;
+  particleRenderer: ParticleRenderer | null;
+  bodyRenderer: InstancedBodyRenderer | null;
+  launchPreview: LaunchPreview | null;
+  launchBody: CelestialBody | null; // Body being aimed in Launch mode, not yet in the simulation
+  launchTrajectoryDirty: boolean;
+  launchTrajectoryPending: boolean; // A launch prediction is running in the simulation
+  trajectoryLine: TrajectoryLine | null; // Predicted path of the selected body
+  trajectoryBody: CelestialBody | null; // Body the line was predicted for
+  trajectoryDirty: boolean;
+  trajectoryPending: boolean; // A prediction for the selected body is running in the simulation
+  trajectoryAge: number; // Seconds since the last prediction
+  dragBefore: BodySnapshot | null; // State of the body being dragged, for undo
+  editBefore: BodySnapshot | null; // State of the selected body before the current UI edit, for undo
+  rewound: boolean; // Rewound while paused, so the keyframe's particles still need showing
   inputHandler: InputHandler | null;
   uiManager: UIManager | null;
   modeManager: ModeManager | null;
   toolbar: Toolbar | null;
   undoManager: UndoManager | null;
   systemBuilder: SystemBuilder | null;
+  historyPanel: HistoryPanel | null;
   bodies: CelestialBody[];
   clock: THREE.Clock;
   fixedTimeStep: number;
@@ -42,13 +69,28 @@ class PlanetSimulation {
     this.renderer = null;
     this.controls = null;
     this.composer = null;
-    this.physics = null;
+    this.simulation = null;
+    this.particleRenderer = null;
+    this.bodyRenderer = null;
+    this.launchPreview = null;
+    this.launchBody = null;
+    this.launchTrajectoryDirty = false;
+    this.launchTrajectoryPending = false;
+    this.trajectoryLine = null;
+    this.trajectoryBody = null;
+    this.trajectoryDirty = false;
+    this.trajectoryPending = false;
+    this.trajectoryAge = 0;
+    this.dragBefore = null;
+    this.editBefore = null;
+    this.rewound = false;
     this.inputHandler = null;
     this.uiManager = null;
     this.modeManager = null;
     this.toolbar = null;
     this.undoManager = null;
     this.systemBuilder = null;
+    this.historyPanel = null;
     this.bodies = [];
     this.clock = new THREE.Clock();
     this.fixedTimeStep = 1 / 60; // 60 physics updates per second
@@ -60,6 +102,7 @@ class PlanetSimulation {
     this.createStarfield();
     // Create initial bodies without recording for undo (they're part of initial state)
     this.createInitialBodies(false);
+    this.simulation!.resetDiagnostics();
     // Ensure lighting is set up after bodies are created
     this.updateSunLighting();
     this.animate();
@@ -124,8 +167,21 @@ class PlanetSimulation {
     );
     this.composer.addPass(bloomPass);
 
-    // Physics engine
-    this.physics = new PhysicsEngine(1.0);
+    // Physics simulation (runs in a Web Worker where available)
+    this.simulation = SimulationHost.create();
+    this.simulation.onCollision = (event: CollisionEvent) => {
+      this.onCollision(event);
+    };
+    this.simulation.onRewind = (event: RewindEvent) => {
+      this.onRewind(event);
+    };
+    this.simulation.createBody = (data) => this.undoManager!.recreateBody(data);
+
+    // Untextured bodies are batched into one instanced mesh, test particles into a point cloud
+    this.bodyRenderer = new InstancedBodyRenderer(this.scene);
+    this.particleRenderer = new ParticleRenderer(this.scene);
+    this.launchPreview = new LaunchPreview(this.scene);
+    this.trajectoryLine = new TrajectoryLine(this.scene);
 
     // Undo manager
     this.undoManager = new UndoManager(50);
@@ -144,6 +200,33 @@ class PlanetSimulation {
     this.inputHandler.onDeleteRequest = (body: CelestialBody) => {
       this.deleteBody(body);
     };
+    this.inputHandler.onBodyMoved = (body: CelestialBody) => {
+      this.simulation!.syncBody(body);
+      this.trajectoryDirty = true;
+    };
+    this.inputHandler.onBodyGrabbed = (body: CelestialBody) => {
+      this.dragBefore = this.undoManager!.getBodySnapshot(body);
+      this.simulation!.holdBody(body, true);
+    };
+    this.inputHandler.onBodyReleased = (body: CelestialBody) => {
+      this.simulation!.syncBody(body);
+      this.simulation!.holdBody(body, false);
+      this.trajectoryDirty = true;
+      if (this.dragBefore) {
+        this.undoManager!.recordModifyBody(body, this.dragBefore);
+        this.dragBefore = null;
+      }
+    };
+    this.inputHandler.onLaunchStart = () => this.startLaunch();
+    this.inputHandler.onLaunchDrag = (position, velocity, event) => {
+      this.aimLaunch(position, velocity, event);
+    };
+    this.inputHandler.onLaunch = (position, velocity) => {
+      this.finishLaunch(position, velocity);
+    };
+    this.inputHandler.onLaunchCancel = () => {
+      this.cancelLaunch();
+    };
     this.inputHandler.setMode(this.modeManager.currentMode);
 
     // UI Manager
@@ -151,6 +234,55 @@ class PlanetSimulation {
     this.uiManager.onBodyPropertyChange = () => {
       this.updateSunLighting();
     };
+    this.uiManager.onBodyEdited = (body: CelestialBody) => {
+      this.simulation!.syncBody(body);
+      this.trajectoryDirty = true;
+    };
+    this.uiManager.onBodyEditStart = (body: CelestialBody) => {
+      this.editBefore = this.undoManager!.getBodySnapshot(body);
+    };
+    this.uiManager.onBodyEditEnd = (body: CelestialBody, motion: boolean) => {
+      if (this.editBefore) {
+        // The body keeps moving during other edits, so their undo must not rewind its motion
+        this.undoManager!.recordModifyBody(body, this.editBefore, !motion);
+      }
+      // Further edits without a new gesture (e.g. arrow keys in a focused field) start from here
+      this.editBefore = this.undoManager!.getBodySnapshot(body);
+    };
+    this.uiManager.onSettingsChange = () => {
+      this.trajectoryDirty = true;
+    };
+    this.uiManager.onSeedChange = (seed: number) => {
+      randomService.setSeed(seed);
+    };
+    randomService.setSeed(this.uiManager.getSettings().seed);
+    this.uiManager.onResetDiagnostics = () => {
+      this.simulation!.resetDiagnostics();
+    };
+    this.simulation.onDiagnostics = (snapshot, drift) => {
+      this.uiManager!.updateDiagnostics(snapshot, drift);
+    };
+    this.uiManager.onAddRing = () => {
+      this.addParticleRing();
+    };
+    this.uiManager.onAddBelt = () => {
+      this.addParticleBelt();
+    };
+    this.uiManager.onClearParticles = () => {
+      this.simulation!.clearParticles();
+    };
+    this.uiManager.onScrubStart = () => {
+      this.uiManager!.setPaused(true);
+    };
+    this.uiManager.onScrub = (time: number) => {
+      this.simulation!.rewind(time);
+    };
+    this.uiManager.onRewindSettingsChange = () => {
+      this.simulation!.configureRewind(this.uiManager!.getRewindSettings());
+    };
+    this.simulation.configureRewind(this.uiManager.getRewindSettings());
+    this.uiManager.getBodies = () => this.bodies;
+    this.simulation.configure(this.getPhysicsSettings());
 
     // Toolbar
     this.toolbar = new Toolbar(this.modeManager);
@@ -163,12 +295,24 @@ class PlanetSimulation {
     this.systemBuilder.setOnAddBody((body: CelestialBody) => {
       this.addBody(body);
     });
-    this.systemBuilder.setOnLoadSystem((bodies: CelestialBody[]) => {
-      this.loadSystem({ bodies: bodies.map(b => b.toJSON()) }, false);
+    this.systemBuilder.setOnLoadSystem((bodies: CelestialBody[], seed?: number, name?: string) => {
+      this.loadSystem({ bodies: bodies.map(b => b.toJSON()), seed, name });
     });
     this.systemBuilder.setOnGetCurrentBodies(() => {
       return this.bodies;
     });
+    this.systemBuilder.setOnGetGravitationalConstant(() => {
+      return this.simulation!.G;
+    });
+
+    // Undo history timeline
+    this.historyPanel = new HistoryPanel(this.undoManager);
+    this.historyPanel.setOnJump((undoCount: number) => {
+      this.jumpToHistory(undoCount);
+    });
+    this.undoManager.onChange = () => {
+      this.historyPanel!.refresh();
+    };
 
     // Keyboard shortcuts
     this.setupKeyboardShortcuts();
@@ -215,6 +359,14 @@ class PlanetSimulation {
       } else if (event.key.toLowerCase() === 'e' && !event.ctrlKey && !event.metaKey && !event.shiftKey && !event.altKey) {
         this.modeManager!.setMode(InteractionMode.Edit);
         event.preventDefault();
+      } else if (event.key.toLowerCase() === 'l' && !event.ctrlKey && !event.metaKey && !event.shiftKey && !event.altKey) {
+        this.modeManager!.setMode(InteractionMode.Launch);
+        event.preventDefault();
+      }
+
+      // Escape abandons a launch in progress
+      if (event.key === 'Escape' && this.inputHandler) {
+        this.inputHandler.cancelLaunch();
       }
 
       // Delete key (when in Delete mode or when body is selected)
@@ -237,16 +389,7 @@ class PlanetSimulation {
       // Pause/Unpause with spacebar
       if (event.key === ' ' && !event.ctrlKey && !event.metaKey && !event.shiftKey && !event.altKey) {
         if (this.uiManager) {
-          this.uiManager.paused = !this.uiManager.paused;
-          // Update the Tweakpane binding to reflect the change
-          if (this.uiManager.globalFolder) {
-            const pausedBinding = this.uiManager.globalFolder.children.find((child: any) =>
-              child.key === 'paused'
-            );
-            if (pausedBinding) {
-              pausedBinding.refresh();
-            }
-          }
+          this.uiManager.setPaused(!this.uiManager.paused);
         }
         event.preventDefault();
       }
@@ -287,19 +430,14 @@ class PlanetSimulation {
       }
     }
 
-    // Remove from physics engine
-    if (this.physics) {
-      this.physics.removeBody(body);
+    // Remove from the simulation
+    if (this.simulation) {
+      this.simulation.removeBody(body);
     }
 
     // Dispose of body resources
     body.dispose();
 
-    // Remove from undo manager ID map (only if recording undo, to preserve ID for restoration)
-    if (recordUndo) {
-      this.undoManager!.removeBodyId(body);
-    }
-
     // Deselect if this was the selected body
     if (this.inputHandler && this.inputHandler.selectedBody === body) {
       this.inputHandler.deselect();
@@ -312,6 +450,114 @@ class PlanetSimulation {
     this.updateSunLighting();
   }
 
+  /**
+   * Delete several bodies as one undoable step
+   */
+  deleteBodies(bodies: CelestialBody[], recordUndo: boolean = true): void {
+    if (recordUndo) {
+      this.undoManager!.beginTransaction(bodies.length === 1 ? `Deleted ${bodies[0].name}` : `Deleted ${bodies.length} bodies`);
+    }
+    try {
+      for (const body of [...bodies]) {
+        this.deleteBody(body, recordUndo);
+      }
+    } finally {
+      if (recordUndo) {
+        this.undoManager!.commitTransaction();
+      }
+    }
+  }
+
+  /**
+   * Apply the result of a merge or fragmentation: refresh the survivor's visuals,
+   * record undo, remove absorbed bodies the same way as a user deletion and add fragments
+   */
+  onCollision(event: CollisionEvent): void {
+    // Every body in the simulation was added by us or made by simulation.createBody
+    const survivor = event.survivor as CelestialBody;
+    const removedBodies = event.removed as CelestialBody[];
+    const createdBodies = event.created as CelestialBody[];
+    survivor.setRadius(survivor.radius);
+    survivor.updateVisuals();
+    survivor.updateMesh();
+
+    const removed = removedBodies.map(body => ({ body, index: this.bodies.indexOf(body) }));
+    this.undoManager!.recordCollision(survivor, event.survivorBefore, removed, createdBodies);
+
+    for (const body of removedBodies) {
+      this.deleteBody(body, false);
+    }
+    for (const body of createdBodies) {
+      this.addBody(body, false);
+    }
+
+    // Keep the UI in sync if the survivor is being edited
+    if (this.uiManager && this.uiManager.selectedBody === survivor) {
+      this.uiManager.selectBody(survivor);
+    }
+  }
+
+  /**
+   * Show the keyframe the simulation went back to: bodies added since are removed, bodies
+   * removed since come back, and trails start again from the rewound positions
+   * Rewinds move the clock and keyframes as well as the bodies, which undo cannot put back,
+   * so they stay out of the edit history: undo and redo only cover edits.
+   */
+  onRewind(event: RewindEvent): void {
+    for (const body of event.removed as CelestialBody[]) {
+      this.deleteBody(body, false);
+    }
+    for (const body of event.created as CelestialBody[]) {
+      this.addBody(body, false);
+    }
+
+    // Every body's view now holds its state at the keyframe
+    for (const body of this.bodies) {
+      body.setRadius(body.radius);
+      body.updateVisuals();
+      body.setTrailPoints([]);
+      body.updateMesh();
+    }
+    if (this.uiManager!.selectedBody) {
+      this.uiManager!.refreshBody();
+    }
+
+    this.rewound = true;
+    this.trajectoryDirty = true;
+    this.updateSunLighting();
+  }
+
+  /**
+   * Restore a body's properties from an undo snapshot
+   * @param keepMotion Leave the body's live position and velocity alone
+   */
+  applyBodySnapshot(body: CelestialBody, snapshot: BodySnapshot, keepMotion: boolean = false): void {
+    this.undoManager!.applySnapshot(body, snapshot, keepMotion);
+    body.updateMesh();
+    body.updateVisuals();
+    this.simulation!.syncBody(body);
+    this.trajectoryDirty = true;
+    if (this.uiManager!.selectedBody === body) {
+      this.uiManager!.refreshBody();
+    }
+  }
+
+  /**
+   * Re-insert a previously removed body from its undo snapshot
+   * A rewind may already have brought it back, in which case that body is kept.
+   */
+  restoreBody(snapshot: BodySnapshot, index: number): CelestialBody {
+    const existing = this.undoManager!.findBodyById(this.bodies, snapshot.id);
+    if (existing) return existing;
+
+    const restoredBody = this.undoManager!.createBodyFromSnapshot(snapshot);
+    this.bodies.splice(index, 0, restoredBody);
+    this.scene!.add(restoredBody.mesh);
+    restoredBody.initTrail(this.scene!);
+    this.simulation!.addBody(restoredBody);
+    return restoredBody;
+  }
+
   /**
    * Undo the last operation
    */
@@ -323,77 +569,148 @@ class PlanetSimulation {
     const operation = this.undoManager.undo(this.bodies);
     if (!operation) return;
 
+    const selectedId = this.inputHandler?.selectedBody?.id;
+    this.revertOperation(operation);
+    this.restoreSelection(selectedId);
+    this.updateSunLighting();
+  }
+
+  /**
+   * Redo the last undone operation
+   */
+  redo(): void {
+    if (!this.undoManager || !this.undoManager.canRedo()) {
+      return;
+    }
+
+    const operation = this.undoManager.redo(this.bodies);
+    if (!operation) return;
+
+    const selectedId = this.inputHandler?.selectedBody?.id;
+    this.reapplyOperation(operation);
+    this.restoreSelection(selectedId);
+    this.updateSunLighting();
+  }
+
+  /**
+   * Undo or redo until `undoCount` operations are left on the undo stack
+   */
+  jumpToHistory(undoCount: number): void {
+    const undoManager = this.undoManager!;
+    while (undoManager.getUndoStack().length > undoCount) {
+      this.undo();
+    }
+    while (undoManager.getUndoStack().length < undoCount && undoManager.canRedo()) {
+      this.redo();
+    }
+  }
+
+  /**
+   * Select the body with `id` again if undo or redo replaced the selected body with a restored copy
+   */
+  restoreSelection(id: string | undefined): void {
+    if (!id || !this.inputHandler || this.inputHandler.selectedBody) return;
+
+    const body = this.undoManager!.findBodyById(this.bodies, id);
+    if (body) {
+      this.inputHandler.selectedBody = body;
+      this.uiManager!.selectBody(body);
+    }
+  }
+
+  /**
+   * Put the scene back to how it was before `operation`
+   */
+  revertOperation(operation: UndoOperation): void {
+    const undoManager = this.undoManager!;
+
+    if (operation.type === UndoOperationType.Transaction) {
+      // Undo the grouped operations newest first
+      const operations = operation.operations || [];
+      for (let i = operations.length - 1; i >= 0; i--) {
+        this.revertOperation(operations[i]);
+      }
+      return;
+    }
+
+    const snapshot = operation.bodySnapshot!;
     if (operation.type === UndoOperationType.AddBody) {
       // Undo add: remove the body (don't record for undo since it's already in the stack)
-      const body = this.undoManager.findBodyById(this.bodies, operation.bodySnapshot.id);
+      const body = undoManager.findBodyById(this.bodies, snapshot.id);
       if (body) {
         this.deleteBody(body, false);
       }
     } else if (operation.type === UndoOperationType.RemoveBody) {
       // Undo remove: restore the body
-      const restoredBody = this.undoManager.createBodyFromSnapshot(operation.bodySnapshot);
-      this.bodies.splice(operation.bodyIndex || this.bodies.length, 0, restoredBody);
-      this.scene!.add(restoredBody.mesh);
-      restoredBody.initTrail(this.scene!);
-      this.physics!.addBody(restoredBody);
-      this.updateSunLighting();
+      this.restoreBody(snapshot, operation.bodyIndex ?? this.bodies.length);
     } else if (operation.type === UndoOperationType.ModifyBody) {
       // Undo modify: restore body properties
-      const body = this.undoManager.findBodyById(this.bodies, operation.bodySnapshot.id);
+      const body = undoManager.findBodyById(this.bodies, snapshot.id);
       if (body) {
-        body.name = operation.bodySnapshot.name;
-        body.mass = operation.bodySnapshot.mass;
-        body.radius = operation.bodySnapshot.radius;
-        body.position.set(
-          operation.bodySnapshot.position.x,
-          operation.bodySnapshot.position.y,
-          operation.bodySnapshot.position.z
-        );
-        body.velocity.set(
-          operation.bodySnapshot.velocity.x,
-          operation.bodySnapshot.velocity.y,
-          operation.bodySnapshot.velocity.z
-        );
-        body.color = operation.bodySnapshot.color;
-        body.emissive = operation.bodySnapshot.emissive;
-        body.emissiveIntensity = operation.bodySnapshot.emissiveIntensity;
-        body.isStatic = operation.bodySnapshot.isStatic;
-        body.updateMesh();
-        body.updateVisuals();
-        this.updateSunLighting();
+        this.applyBodySnapshot(body, snapshot, operation.keepMotion);
+      }
+    } else if (operation.type === UndoOperationType.Collision) {
+      // Undo collision: remove fragments, restore the survivor and bring absorbed bodies back
+      for (const fragmentSnapshot of operation.addedBodies || []) {
+        const fragment = undoManager.findBodyById(this.bodies, fragmentSnapshot.id);
+        if (fragment) {
+          this.deleteBody(fragment, false);
+        }
+      }
+      const survivor = undoManager.findBodyById(this.bodies, snapshot.id);
+      if (survivor) {
+        this.applyBodySnapshot(survivor, snapshot);
+      }
+      for (const removed of operation.removedBodies || []) {
+        this.restoreBody(removed.snapshot, removed.index);
       }
     }
   }
 
   /**
-   * Redo the last undone operation
+   * Do `operation` again after it was undone (the inverse of revertOperation)
    */
-  redo(): void {
-    if (!this.undoManager || !this.undoManager.canRedo()) {
+  reapplyOperation(operation: UndoOperation): void {
+    const undoManager = this.undoManager!;
+
+    if (operation.type === UndoOperationType.Transaction) {
+      for (const child of operation.operations || []) {
+        this.reapplyOperation(child);
+      }
       return;
     }
 
-    const operation = this.undoManager.redo(this.bodies);
-    if (!operation) return;
-
-    // Redo is the inverse of undo
+    const snapshot = operation.bodySnapshot!;
     if (operation.type === UndoOperationType.AddBody) {
       // Redo add: add the body back (don't record for undo since it's already in the stack)
-      const restoredBody = this.undoManager.createBodyFromSnapshot(operation.bodySnapshot);
-      this.bodies.push(restoredBody);
-      this.scene!.add(restoredBody.mesh);
-      restoredBody.initTrail(this.scene!);
-      this.physics!.addBody(restoredBody);
-      this.updateSunLighting();
+      this.restoreBody(snapshot, this.bodies.length);
     } else if (operation.type === UndoOperationType.RemoveBody) {
       // Redo remove: delete the body (don't record for undo since it's already in the stack)
-      const body = this.undoManager.findBodyById(this.bodies, operation.bodySnapshot.id);
+      const body = undoManager.findBodyById(this.bodies, snapshot.id);
       if (body) {
         this.deleteBody(body, false);
       }
     } else if (operation.type === UndoOperationType.ModifyBody) {
-      // Redo modify: this would require storing the "after" state
-      // For now, we'll skip redo for modifications
+      // Redo modify: re-apply the state recorded after the change
+      const body = undoManager.findBodyById(this.bodies, snapshot.id);
+      if (body && operation.afterSnapshot) {
+        this.applyBodySnapshot(body, operation.afterSnapshot, operation.keepMotion);
+      }
+    } else if (operation.type === UndoOperationType.Collision) {
+      // Redo collision: re-apply the merged state, remove absorbed bodies and recreate fragments
+      const survivor = undoManager.findBodyById(this.bodies, snapshot.id);
+      if (survivor && operation.afterSnapshot) {
+        this.applyBodySnapshot(survivor, operation.afterSnapshot);
+      }
+      for (const removed of operation.removedBodies || []) {
+        const body = undoManager.findBodyById(this.bodies, removed.snapshot.id);
+        if (body) {
+          this.deleteBody(body, false);
+        }
+      }
+      for (const fragmentSnapshot of operation.addedBodies || []) {
+        this.restoreBody(fragmentSnapshot, this.bodies.length);
+      }
     }
   }
 
@@ -404,13 +721,14 @@ class PlanetSimulation {
     const starGeometry = new THREE.BufferGeometry();
     const starCount = 5000;
     const positions = new Float32Array(starCount * 3);
+    const random = randomService.stream('starfield');
 
     for (let i = 0; i < starCount * 3; i += 3) {
       // Generate stars in a spherical shell to keep the center clear
       // Min radius 300, max radius 600
-      const r = 300 + Math.random() * 300;
-      const theta = 2 * Math.PI * Math.random();
-      const phi = Math.acos(2 * Math.random() - 1);
+      const r = 300 + random.next() * 300;
+      const theta = 2 * Math.PI * random.next();
+      const phi = Math.acos(2 * random.next() - 1);
 
       positions[i] = r * Math.sin(phi) * Math.cos(theta);
       positions[i + 1] = r * Math.sin(phi) * Math.sin(theta);
@@ -435,7 +753,7 @@ class PlanetSimulation {
    * @param recordUndo Whether to record additions for undo (default: true)
    */
   createInitialBodies(recordUndo: boolean = true) {
-    const G = this.physics!.G;
+    const G = this.uiManager!.getSettings().gravitationalConstant;
     const sunMass = 100;
 
     // Central star - make it static to stabilize orbits
@@ -529,7 +847,7 @@ class PlanetSimulation {
     this.bodies.push(body);
     this.scene!.add(body.mesh);
     body.initTrail(this.scene!);
-    this.physics!.addBody(body);
+    this.simulation!.addBody(body);
 
     // Record addition for undo
     if (recordUndo && this.undoManager) {
@@ -540,6 +858,118 @@ class PlanetSimulation {
     this.updateSunLighting();
   }
 
+  /**
+   * Begin a launch with the library entry chosen in the System Builder
+   * @returns false if nothing is chosen
+   */
+  startLaunch(): boolean {
+    const body = this.systemBuilder!.createChosenBody();
+    if (!body) {
+      alert('Choose a body in the System Builder library first');
+      return false;
+    }
+
+    this.launchBody = body;
+    return true;
+  }
+
+  /**
+   * Update the launch preview while the velocity is being dragged out
+   */
+  aimLaunch(position: THREE.Vector3, velocity: THREE.Vector3, event: MouseEvent): void {
+    if (!this.launchBody) return;
+
+    this.launchBody.position.copy(position);
+    this.launchBody.velocity.copy(velocity);
+    this.launchPreview!.show(position, velocity, this.launchBody.radius, this.launchBody.color, event.clientX, event.clientY);
+    this.launchTrajectoryDirty = true;
+  }
+
+  /**
+   * Add the launched body with the aimed velocity
+   */
+  finishLaunch(position: THREE.Vector3, velocity: THREE.Vector3): void {
+    const body = this.launchBody;
+    this.launchBody = null;
+    this.launchPreview!.hide();
+    if (!body) return;
+
+    body.position.copy(position);
+    body.velocity.copy(velocity);
+    body.updateMesh();
+    this.addBody(body);
+  }
+
+  /**
+   * Abandon the launch in progress
+   */
+  cancelLaunch(): void {
+    if (this.launchBody) {
+      this.launchBody.dispose();
+      this.launchBody = null;
+    }
+    this.launchPreview!.hide();
+  }
+
+  /**
+   * Predict where the body being launched would go, with the current physics settings
+   * Requested at most once a frame rather than on every mouse move, and only once the
+   * previous prediction has come back from the simulation.
+   */
+  updateLaunchTrajectory(): void {
+    const body = this.launchBody;
+    if (!body || this.launchTrajectoryPending) return;
+
+    const settings = this.uiManager!.getSettings();
+    this.launchTrajectoryPending = true;
+    this.launchTrajectoryDirty = false;
+    this.simulation!.predictTrajectory(body, {
+      timeStep: this.fixedTimeStep * settings.timeScale
+    }).then(trajectory => {
+      this.launchTrajectoryPending = false;
+      if (this.launchBody === body) {
+        this.launchPreview!.showTrajectory(trajectory);
+      }
+    });
+  }
+
+  /**
+   * Predict the selected body's path if "Predict Path" is on
+   * Redone right after a drag or edit, and every so often while the rest of the system moves.
+   * The prediction runs in the simulation; a new one is only requested once the last has come back.
+   */
+  updateSelectedTrajectory(deltaTime: number): void {
+    const settings = this.uiManager!.getSettings();
+    const body = settings.showTrajectory ? this.uiManager!.selectedBody : null;
+    if (!body || !this.bodies.includes(body)) {
+      this.trajectoryLine!.hide();
+      this.trajectoryBody = null;
+      return;
+    }
+
+    this.trajectoryAge += deltaTime;
+    const stale = !settings.paused && this.trajectoryAge >= TRAJECTORY_REFRESH_INTERVAL;
+    if (this.trajectoryPending || (body === this.trajectoryBody && !this.trajectoryDirty && !stale)) return;
+
+    const timeStep = this.fixedTimeStep * settings.timeScale;
+    const steps = Math.min(MAX_TRAJECTORY_STEPS, Math.ceil(settings.trajectoryHorizon / timeStep));
+    this.trajectoryPending = true;
+    this.trajectoryBody = body;
+    this.trajectoryDirty = false;
+    this.trajectoryAge = 0;
+    this.simulation!.predictTrajectory(body, {
+      steps,
+      timeStep,
+      sampleInterval: Math.max(1, Math.floor(steps / 500))
+    }).then(trajectory => {
+      this.trajectoryPending = false;
+      // Drop the result if the line was hidden or moved to another body meanwhile
+      if (this.trajectoryBody === body) {
+        this.trajectoryLine!.update(trajectory);
+      }
+    });
+  }
+
   /**
    * Handle window resize
    */
@@ -556,21 +986,46 @@ class PlanetSimulation {
   serializeSystem(): any {
     return {
       bodies: this.bodies.map(body => body.toJSON()),
+      seed: randomService.getSeed(),
       timestamp: Date.now()
     };
   }
 
   /**
    * Load system from serialized data
-   * @param systemData Serialized system data
-   * @param recordUndo Whether to record this as an undoable operation
+   * @param systemData Serialized system data (a saved seed makes the run replay exactly)
+   * @param recordUndo Whether to record this as one undoable operation that brings back the previous bodies
+   */
+  loadSystem(systemData: { bodies: any[]; seed?: number; name?: string }, recordUndo: boolean = true): void {
+    if (recordUndo) {
+      this.undoManager!.beginTransaction(`Loaded ${systemData.name ?? 'system'}`);
+    }
+    try {
+      this.replaceSystem(systemData, recordUndo);
+    } finally {
+      if (recordUndo) {
+        this.undoManager!.commitTransaction();
+      }
+    }
+
+    // Drift is measured relative to the freshly loaded state, and the timeline starts again with it
+    this.simulation!.resetDiagnostics();
+    this.simulation!.resetTime();
+  }
+
+  /**
+   * Swap the current bodies for the ones in `systemData` (test particles are cleared, not undoable)
    */
-  loadSystem(systemData: { bodies: any[] }, recordUndo: boolean = true): void {
+  private replaceSystem(systemData: { bodies: any[]; seed?: number }, recordUndo: boolean): void {
     // Clear current system
-    const bodiesToRemove = [...this.bodies];
-    bodiesToRemove.forEach(body => {
-      this.deleteBody(body, false); // Don't record undo for clearing
-    });
+    this.deleteBodies(this.bodies, recordUndo);
+
+    // Restore the random seed saved with the system
+    if (systemData.seed !== undefined) {
+      this.uiManager!.setSeed(systemData.seed);
+    }
+    randomService.setSeed(this.uiManager!.getSettings().seed);
+    this.simulation!.clearParticles();
 
     // Load new bodies
     for (const bodyData of systemData.bodies) {
@@ -585,7 +1040,8 @@ class PlanetSimulation {
         emissiveIntensity: bodyData.emissiveIntensity,
         isStatic: bodyData.isStatic,
         textureUrl: bodyData.textureUrl,
-        normalMapUrl: bodyData.normalMapUrl
+        normalMapUrl: bodyData.normalMapUrl,
+        id: bodyData.id
       });
 
       // Load textures if URLs are provided
@@ -604,6 +1060,53 @@ class PlanetSimulation {
     }
   }
 
+  /**
+   * Seed for a particle generator, drawn from the run's random seed so rings replay exactly
+   */
+  private nextParticleSeed(): number {
+    return Math.floor(randomService.stream('particles').next() * 2 ** 32);
+  }
+
+  /**
+   * Add a ring of test particles around the selected body
+   */
+  addParticleRing(): void {
+    const body = this.inputHandler!.selectedBody;
+    if (!body) {
+      alert('Select a body to add a ring to');
+      return;
+    }
+
+    const settings = this.uiManager!.particleSettings;
+    const inner = Math.min(settings.ringInner, settings.ringOuter);
+    const outer = Math.max(settings.ringInner, settings.ringOuter);
+    this.simulation!.addRing(body, {
+      count: settings.count,
+      innerRadius: inner * body.radius,
+      outerRadius: outer * body.radius,
+      thickness: settings.ringThickness
+    }, this.nextParticleSeed());
+  }
+
+  /**
+   * Add an asteroid belt around the selected body, or the most massive body if none is selected
+   */
+  addParticleBelt(): void {
+    const central = this.inputHandler!.selectedBody ?? this.bodies.reduce<CelestialBody | null>(
+      (heaviest, body) => (!heaviest || body.mass > heaviest.mass ? body : heaviest), null
+    );
+    if (!central) return;
+
+    const settings = this.uiManager!.particleSettings;
+    this.simulation!.addBelt(central, {
+      count: settings.count,
+      innerRadius: Math.min(settings.beltInner, settings.beltOuter),
+      outerRadius: Math.max(settings.beltInner, settings.beltOuter),
+      thickness: settings.beltThickness,
+      eccentricity: settings.beltEccentricity
+    }, this.nextParticleSeed());
+  }
+
   /**
    * Update sun lighting based on the brightest star in the scene
    */
@@ -650,46 +1153,65 @@ class PlanetSimulation {
    * Restart the simulation
    */
   restart(): void {
-    // Clear all bodies
-    const bodiesToRemove = [...this.bodies];
-    bodiesToRemove.forEach(body => {
-      this.deleteBody(body, false); // Don't record undo for clearing
-    });
-
-    // Clear undo/redo stack
-    if (this.undoManager) {
-      this.undoManager.clear();
-    }
-
-    // Reset clock
-    this.clock.start();
-
-    // Reset camera position
-    if (this.camera) {
-      this.camera.position.set(0, 100, 120);
-      if (this.controls) {
-        this.controls.reset();
+    // Replacing the bodies is one undo step, so a restart by mistake can be taken back
+    this.undoManager!.beginTransaction('Restarted');
+    try {
+      this.deleteBodies(this.bodies);
+
+      // Restart every random stream so the run replays exactly
+      randomService.setSeed(this.uiManager!.getSettings().seed);
+      this.simulation!.clearParticles();
+
+      // Reset clock
+      this.clock.start();
+
+      // Reset camera position
+      if (this.camera) {
+        this.camera.position.set(0, 100, 120);
+        if (this.controls) {
+          this.controls.reset();
+        }
       }
-    }
 
-    // Recreate initial bodies
-    this.createInitialBodies(false); // Don't record initial bodies for undo
+      // Recreate initial bodies
+      this.createInitialBodies();
+    } finally {
+      this.undoManager!.commitTransaction();
+    }
+    this.simulation!.resetDiagnostics();
+    this.simulation!.resetTime();
 
     // Unpause if paused
     if (this.uiManager) {
-      this.uiManager.paused = false;
-      // Update the Tweakpane binding
-      if (this.uiManager.globalFolder) {
-        const pausedBinding = this.uiManager.globalFolder.children.find((child: any) =>
-          child.key === 'paused'
-        );
-        if (pausedBinding) {
-          pausedBinding.refresh();
-        }
-      }
+      this.uiManager.setPaused(false);
     }
   }
 
+  /**
+   * Engine settings from the UI, in the form the simulation expects
+   */
+  getPhysicsSettings(): PhysicsSettings {
+    const settings = this.uiManager!.getSettings();
+    return {
+      G: settings.gravitationalConstant,
+      useBarnesHut: settings.useBarnesHut,
+      barnesHutTheta: settings.barnesHutTheta,
+      barnesHutOrder: settings.barnesHutOrder,
+      integrator: settings.integrator,
+      softeningLength: settings.softeningLength,
+      softeningKernel: settings.softeningKernel,
+      collisionMode: settings.collisionMode,
+      fragmentCount: settings.fragmentCount,
+      minFragmentMass: settings.minFragmentMass,
+      adaptiveTimeStep: settings.adaptiveTimeStep,
+      useBlockTimeSteps: settings.blockTimeSteps,
+      timeStepTolerance: settings.timeStepTolerance,
+      minTimeStep: settings.minTimeStep,
+      maxTimeStep: settings.maxTimeStep,
+      diagnosticsInterval: settings.diagnosticsInterval
+    };
+  }
+
   /**
    * Animation loop
    */
@@ -703,24 +1225,31 @@ class PlanetSimulation {
       this.accumulator += deltaTime;
 
       // Update physics settings from UI
-      this.physics!.G = settings.gravitationalConstant;
-      this.physics!.useBarnesHut = settings.useBarnesHut;
-      this.physics!.barnesHutTheta = settings.barnesHutTheta;
+      this.simulation!.configure(this.getPhysicsSettings());
 
-      // Run physics simulation in fixed steps
+      // Request the fixed steps that fit in the elapsed time; they run off the main thread
+      let steps = 0;
       while (this.accumulator >= this.fixedTimeStep) {
-        const scaledFixedTimeStep = this.fixedTimeStep * settings.timeScale;
-        this.physics!.update(scaledFixedTimeStep);
-
-        // Update trails for each physics step for smoothness
-        if (settings.showTrails) {
-          for (const body of this.bodies) {
-            body.updateTrail();
-          }
-        }
-
+        steps++;
         this.accumulator -= this.fixedTimeStep;
       }
+      if (steps > 0) {
+        this.simulation!.step(this.fixedTimeStep * settings.timeScale, steps);
+      }
+
+      settings.effectiveTimeStep = this.simulation!.lastEffectiveStep;
+      this.rewound = false;
+
+      // Blend bodies between the latest snapshots from the simulation
+      this.simulation!.interpolate();
+      this.particleRenderer!.update(this.simulation!.particlePositions, this.simulation!.particleCount);
+      this.uiManager!.particleSettings.particleCount = this.simulation!.particleCount;
+
+      if (settings.showTrails) {
+        for (const body of this.bodies) {
+          body.updateTrail();
+        }
+      }
 
       // Update meshes to their final positions for this frame
       for (const body of this.bodies) {
@@ -729,6 +1258,28 @@ class PlanetSimulation {
 
       // Update sun lighting position and color
       this.updateSunLighting();
+    } else if (this.rewound) {
+      // Bodies are moved by onRewind; particles arrive with the snapshot that follows it
+      this.simulation!.interpolate();
+      this.particleRenderer!.update(this.simulation!.particlePositions, this.simulation!.particleCount);
+      this.uiManager!.particleSettings.particleCount = this.simulation!.particleCount;
+    }
+    this.uiManager!.updateRewind(this.simulation!.time, this.simulation!.earliestKeyframe, this.simulation!.latestKeyframe);
+
+    // Batch bodies every frame so edits and drags show while paused
+    this.bodyRenderer!.enabled = settings.instancedBodies;
+    this.bodyRenderer!.update(this.bodies);
+
+    // The pointer moves in real seconds, the simulation covers timeScale units of time per second
+    this.inputHandler!.releaseMode = settings.dragRelease;
+    this.inputHandler!.throwScale = settings.throwScale / settings.timeScale;
+    this.uiManager!.updateOrbit();
+
+    this.updateSelectedTrajectory(deltaTime);
+
+    // The rest of the system keeps moving while a launch is aimed
+    if (this.launchBody && (this.launchTrajectoryDirty || !settings.paused)) {
+      this.updateLaunchTrajectory();
     }
 
     // Update controls
@@ -0,0 +1,52 @@
+import { bench, describe } from 'vitest';
+import * as THREE from 'three';
+import { CelestialBody } from '../Body.js';
+import { BarnesHutTree } from '../BarnesHut.js';
+import { PhysicsEngine } from '../Physics.js';
+import { RandomService } from '../Random.js';
+import { SimulationState } from '../SimulationState.js';
+
+/**
+ * A seeded disc of bodies around a heavy centre, like a typical large scene
+ */
+function createDisc(count) {
+  const random = new RandomService(42).stream('bench');
+  const bodies = [new CelestialBody({ mass: 1000 })];
+  for (let i = 1; i < count; i++) {
+    const angle = random.range(0, 2 * Math.PI);
+    const distance = random.range(10, 200);
+    bodies.push(new CelestialBody({
+      mass: random.range(0.01, 1),
+      position: new THREE.Vector3(Math.cos(angle) * distance, random.range(-2, 2), Math.sin(angle) * distance)
+    }));
+  }
+  return bodies;
+}
+
+/**
+ * One physics step worth of tree work: build the tree, then compute every body's acceleration
+ */
+for (const count of [1000, 5000]) {
+  describe(`Barnes-Hut build + forces, ${count} bodies`, () => {
+    const bodies = createDisc(count);
+    const state = new SimulationState(count);
+    bodies.forEach(body => state.add(body));
+    const bounds = BarnesHutTree.calculateBounds(state, 10);
+    const pooled = new BarnesHutTree(state, bounds);
+    const direct = new PhysicsEngine(1.0, false);
+    bodies.forEach(body => direct.addBody(body));
+    const accelerations = new Float64Array(3 * count);
+
+    bench('node pool (reused)', () => {
+      pooled.build(state, bounds);
+      accelerations.fill(0);
+      for (let i = 0; i < count; i++) {
+        pooled.accumulateAcceleration(i, 1, accelerations);
+      }
+    });
+
+    bench('direct summation', () => {
+      direct.computeAccelerations(accelerations);
+    });
+  });
+}
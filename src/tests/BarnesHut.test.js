@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { PhysicsEngine } from '../Physics.js';
+import { CelestialBody } from '../Body.js';
+import { BarnesHutTree, MultipoleOrder } from '../BarnesHut.js';
+import { RandomService } from '../Random.js';
+import { SofteningKernel } from '../Softening.js';
+import { Vec3 } from '../Vec3.js';
+
+describe('BarnesHutTree', () => {
+  /**
+   * A clumpy random cluster, so distant nodes have strong quadrupole moments
+   */
+  function createCluster(count, seed = 1) {
+    const random = new RandomService(seed).stream('cluster');
+    const engine = new PhysicsEngine(1.0, false);
+    engine.softeningLength = 0.01;
+    const clumps = [[-20, 0, 0], [15, 10, -5], [0, -25, 10], [5, 5, 30]];
+
+    for (let i = 0; i < count; i++) {
+      const [cx, cy, cz] = clumps[i % clumps.length];
+      engine.addBody(new CelestialBody({
+        mass: random.range(0.5, 2),
+        position: new THREE.Vector3(
+          cx + random.range(-4, 4),
+          cy + random.range(-2, 2),
+          cz + random.range(-6, 6)
+        )
+      }));
+    }
+    return engine;
+  }
+
+  /**
+   * RMS of |a_tree - a_direct| / |a_direct| over all bodies
+   */
+  function relativeForceError(engine, theta, order) {
+    const bounds = BarnesHutTree.calculateBounds(engine.state, 10);
+    const tree = new BarnesHutTree(
+      engine.state, bounds, theta, engine.softeningLength, SofteningKernel.Spline, order
+    );
+
+    let sumSquares = 0;
+    engine.bodies.forEach((body, i) => {
+      const direct = engine.calculateTotalForce(body).divideScalar(body.mass);
+      const approximate = tree.calculateAcceleration(i, engine.G);
+      sumSquares += (approximate.distanceTo(direct) / direct.length()) ** 2;
+    });
+    return Math.sqrt(sumSquares / engine.bodies.length);
+  }
+
+  it.each([0.3, 0.5, 0.7, 0.85, 1.0])('should improve accuracy with quadrupoles at theta %s', (theta) => {
+    const engine = createCluster(120);
+
+    const monopoleError = relativeForceError(engine, theta, MultipoleOrder.Monopole);
+    const quadrupoleError = relativeForceError(engine, theta, MultipoleOrder.Quadrupole);
+
+    expect(quadrupoleError).toBeLessThan(monopoleError);
+  });
+
+  it.each([0.3, 0.5, 0.7, 1.0])('should stay close to direct summation at theta %s', (theta) => {
+    const engine = createCluster(120, 7);
+
+    // Quadrupole error scales roughly as theta^4 (monopole as theta^2)
+    expect(relativeForceError(engine, theta, MultipoleOrder.Quadrupole)).toBeLessThan(0.02 * theta ** 2);
+  });
+
+  it('should capture the leading correction for a distant pair', () => {
+    // Two masses sharing one octree node, seen from far away:
+    // the quadrupole captures the leading correction to the monopole
+    const engine = new PhysicsEngine(1.0, false);
+    engine.softeningLength = 0;
+    engine.addBody(new CelestialBody({ mass: 1, position: new THREE.Vector3(19, 20, 20) }));
+    engine.addBody(new CelestialBody({ mass: 1, position: new THREE.Vector3(21, 20, 20) }));
+    engine.addBody(new CelestialBody({ mass: 1, position: new THREE.Vector3(20, 20, -30) }));
+
+    const direct = engine.calculateTotalForce(engine.bodies[2]);
+    const bounds = { min: new Vec3(-64, -64, -64), max: new Vec3(64, 64, 64) };
+    const errorFor = (order) => {
+      const tree = new BarnesHutTree(engine.state, bounds, 0.9, 0, SofteningKernel.Spline, order);
+      return tree.calculateAcceleration(2, engine.G).distanceTo(direct) / direct.length();
+    };
+
+    // Remaining error is the hexadecapole term, of order (1/50)^4
+    expect(errorFor(MultipoleOrder.Monopole)).toBeGreaterThan(1e-4);
+    expect(errorFor(MultipoleOrder.Quadrupole)).toBeLessThan(1e-5);
+  });
+
+  it('should use the selected order in the physics engine', () => {
+    const engine = createCluster(60);
+    engine.useBarnesHut = true;
+    engine.barnesHutTheta = 1.0;
+
+    const direct = engine.bodies.map(body => engine.calculateTotalForce(body).divideScalar(body.mass));
+    const errorFor = (order) => {
+      engine.barnesHutOrder = order;
+      const accelerations = new Float64Array(3 * engine.bodies.length);
+      engine.computeAccelerations(accelerations);
+      return direct.reduce((sum, a, i) => sum + a.distanceTo(
+        new Vec3(accelerations[3 * i], accelerations[3 * i + 1], accelerations[3 * i + 2])
+      ), 0);
+    };
+
+    expect(errorFor(MultipoleOrder.Quadrupole)).toBeLessThan(errorFor(MultipoleOrder.Monopole));
+  });
+
+  describe('Node pool', () => {
+    it.each([MultipoleOrder.Monopole, MultipoleOrder.Quadrupole])('should match direct summation (%s)', (order) => {
+      const engine = createCluster(200, 3);
+      // Coincident bodies exercise the shared-leaf path
+      engine.addBody(new CelestialBody({ mass: 1, position: new THREE.Vector3(1, 2, 3) }));
+      engine.addBody(new CelestialBody({ mass: 2, position: new THREE.Vector3(1, 2, 3) }));
+      const bounds = BarnesHutTree.calculateBounds(engine.state, 10);
+
+      const tree = new BarnesHutTree(engine.state, bounds, 0.3, 0.01, SofteningKernel.Spline, order);
+
+      engine.bodies.forEach((body, i) => {
+        const expected = engine.calculateTotalForce(body).divideScalar(body.mass);
+        expect(tree.calculateAcceleration(i, 1).distanceTo(expected)).toBeLessThan(0.05 * expected.length());
+      });
+    });
+
+    it('should give the same forces when rebuilt for new positions', () => {
+      const first = createCluster(50, 1);
+      const second = createCluster(300, 2);
+      const reused = new BarnesHutTree(first.state, BarnesHutTree.calculateBounds(first.state, 10));
+
+      // Rebuilding grows the pool for more bodies and shrinks back for fewer
+      for (const engine of [second, first]) {
+        const bounds = BarnesHutTree.calculateBounds(engine.state, 10);
+        reused.build(engine.state, bounds);
+        const fresh = new BarnesHutTree(engine.state, bounds);
+
+        expect(reused.getNodeCount()).toBe(fresh.getNodeCount());
+        for (let i = 0; i < engine.bodies.length; i++) {
+          expect(reused.calculateAcceleration(i, 1)).toEqual(fresh.calculateAcceleration(i, 1));
+        }
+      }
+    });
+
+    it('should ignore bodies outside the bounds', () => {
+      const engine = createCluster(10);
+      const bounds = BarnesHutTree.calculateBounds(engine.state, 10);
+      const reference = new BarnesHutTree(engine.state, bounds);
+      const expected = reference.calculateAcceleration(0, 1);
+
+      engine.addBody(new CelestialBody({ mass: 1000, position: new THREE.Vector3(500, 0, 0) }));
+      const tree = new BarnesHutTree(engine.state, bounds);
+
+      expect(tree.calculateAcceleration(0, 1)).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as THREE from 'three';
+import { CelestialBody } from '../Body.js';
+import { InstancedBodyRenderer } from '../BodyRenderer.js';
+import { InputHandler } from '../Input.js';
+
+describe('InstancedBodyRenderer', () => {
+  let scene;
+  let renderer;
+  let planet;
+  let moon;
+  let star;
+
+  beforeEach(() => {
+    scene = new THREE.Scene();
+    renderer = new InstancedBodyRenderer(scene, 1);
+    planet = new CelestialBody({ name: 'planet', radius: 2, color: 0x3366ff, position: new THREE.Vector3(10, 0, 0) });
+    moon = new CelestialBody({ name: 'moon', radius: 0.5, color: 0xaaaaaa, position: new THREE.Vector3(0, 0, 10) });
+    star = new CelestialBody({ name: 'star', radius: 5, emissive: 0xffff00, emissiveIntensity: 1 });
+    for (const body of [planet, moon, star]) {
+      scene.add(body.mesh);
+    }
+  });
+
+  it('should batch untextured planets and leave stars as meshes', () => {
+    renderer.update([planet, moon, star]);
+
+    expect(renderer.mesh.count).toBe(2);
+    expect(renderer.bodies).toEqual([planet, moon]);
+    expect(planet.mesh.visible).toBe(false);
+    expect(star.mesh.visible).toBe(true);
+
+    const matrix = new THREE.Matrix4();
+    renderer.mesh.getMatrixAt(1, matrix);
+    const position = new THREE.Vector3();
+    const scale = new THREE.Vector3();
+    matrix.decompose(position, new THREE.Quaternion(), scale);
+    expect(position).toEqual(moon.position);
+    expect(scale.x).toBeCloseTo(0.5, 6);
+
+    const color = new THREE.Color();
+    renderer.mesh.getColorAt(0, color);
+    expect(color.getHex()).toBe(0x3366ff);
+  });
+
+  it('should grow past its initial capacity and replace its mesh in the scene', () => {
+    const first = renderer.mesh;
+    renderer.update([planet, moon]);
+
+    expect(renderer.mesh).not.toBe(first);
+    expect(first.parent).toBeNull();
+    expect(renderer.mesh.parent).toBe(scene);
+  });
+
+  it('should show every mesh again when disabled', () => {
+    renderer.update([planet, moon, star]);
+    renderer.enabled = false;
+    renderer.update([planet, moon, star]);
+
+    expect(renderer.mesh.count).toBe(0);
+    expect(planet.mesh.visible).toBe(true);
+  });
+
+  it('should pick batched bodies by instance ID', () => {
+    renderer.update([planet, moon, star]);
+
+    const camera = new THREE.PerspectiveCamera(50, 1, 0.1, 1000);
+    camera.position.set(0, 50, 10);
+    camera.lookAt(0, 0, 10);
+    camera.updateMatrixWorld();
+    scene.updateMatrixWorld();
+
+    const element = {
+      addEventListener: () => {},
+      getBoundingClientRect: () => ({ left: 0, top: 0, width: 100, height: 100 }),
+      style: {}
+    };
+    const input = new InputHandler(camera, element, scene);
+
+    // Screen centre looks straight down at the moon
+    input.mouse.set(0, 0);
+    expect(input.getBodyUnderMouse()).toBe(moon);
+
+    input.mouse.set(0.9, 0.9);
+    expect(input.getBodyUnderMouse()).toBeNull();
+  });
+
+  it('should give every body mesh the same unit sphere, scaled to its radius', () => {
+    expect(planet.mesh.geometry).toBe(moon.mesh.geometry);
+    expect(planet.mesh.scale.x).toBe(2);
+
+    planet.setRadius(3);
+    expect(planet.mesh.scale.x).toBe(3);
+  });
+});
@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as THREE from 'three';
+import { PhysicsEngine } from '../Physics.js';
+import { CelestialBody } from '../Body.js';
+import { CollisionMode, bindingEnergy, blendColors, findCollidingPairs, impactEnergy } from '../Collisions.js';
+import { SimulationState } from '../SimulationState.js';
+
+describe('Collisions', () => {
+  let physics;
+  let events;
+
+  beforeEach(() => {
+    physics = new PhysicsEngine(1.0, false);
+    events = [];
+    physics.onCollision = (event) => events.push(event);
+  });
+
+  /**
+   * Two bodies overlapping head-on along the x axis
+   */
+  function createOverlappingPair() {
+    const heavy = new CelestialBody({
+      name: 'Heavy',
+      mass: 3,
+      radius: 2,
+      position: new THREE.Vector3(0, 0, 0),
+      velocity: new THREE.Vector3(1, 0, 0),
+      color: 0xff0000
+    });
+    const light = new CelestialBody({
+      name: 'Light',
+      mass: 1,
+      radius: 1,
+      position: new THREE.Vector3(2.5, 0, 0),
+      velocity: new THREE.Vector3(-2, 1, 0),
+      color: 0x0000ff
+    });
+    physics.addBody(heavy);
+    physics.addBody(light);
+    return { heavy, light };
+  }
+
+  function totalMomentum(bodies) {
+    const momentum = new THREE.Vector3();
+    for (const body of bodies) {
+      momentum.addScaledVector(body.velocity, body.mass);
+    }
+    return momentum;
+  }
+
+  describe('Detection', () => {
+    it('should only report bodies whose spheres overlap', () => {
+      const a = new CelestialBody({ radius: 1, position: new THREE.Vector3(0, 0, 0) });
+      const b = new CelestialBody({ radius: 1, position: new THREE.Vector3(1.5, 0, 0) });
+      const c = new CelestialBody({ radius: 1, position: new THREE.Vector3(10, 0, 0) });
+      const d = new CelestialBody({ radius: 1, position: new THREE.Vector3(1, 5, 0) });
+
+      const bodies = [c, d, b, a];
+      const state = new SimulationState();
+      bodies.forEach(body => state.add(body));
+      const pairs = findCollidingPairs(state).map(pair => pair.map(i => bodies[i]));
+
+      expect(pairs.length).toBe(1);
+      expect(pairs[0]).toContain(a);
+      expect(pairs[0]).toContain(b);
+    });
+
+    it('should leave bodies alone when collisions are disabled', () => {
+      physics.collisionMode = CollisionMode.None;
+      createOverlappingPair();
+
+      physics.handleCollisions();
+
+      expect(physics.bodies.length).toBe(2);
+      expect(events.length).toBe(0);
+    });
+  });
+
+  describe('Merge', () => {
+    it('should conserve mass and momentum and combine radius by volume', () => {
+      physics.collisionMode = CollisionMode.Merge;
+      const { heavy, light } = createOverlappingPair();
+      const momentumBefore = totalMomentum([heavy, light]);
+      const centerOfMass = heavy.position.clone().multiplyScalar(3).addScaledVector(light.position, 1).divideScalar(4);
+
+      physics.handleCollisions();
+
+      expect(physics.bodies).toEqual([heavy]);
+      expect(heavy.mass).toBe(4);
+      expect(heavy.radius).toBeCloseTo(Math.cbrt(8 + 1), 10);
+      expect(totalMomentum([heavy]).distanceTo(momentumBefore)).toBeLessThan(1e-12);
+      expect(heavy.position.distanceTo(centerOfMass)).toBeLessThan(1e-12);
+    });
+
+    it('should blend colours by mass', () => {
+      expect(blendColors(0xff0000, 3, 0x0000ff, 1)).toBe(0xbf0040);
+      expect(blendColors(0x123456, 1, 0x123456, 5)).toBe(0x123456);
+    });
+
+    it('should report the survivor state before the merge', () => {
+      physics.collisionMode = CollisionMode.Merge;
+      const { heavy, light } = createOverlappingPair();
+
+      physics.handleCollisions();
+
+      expect(events.length).toBe(1);
+      expect(events[0].survivor).toBe(heavy);
+      expect(events[0].removed).toEqual([light]);
+      expect(events[0].survivorBefore.mass).toBe(3);
+      expect(events[0].survivorBefore.radius).toBe(2);
+      expect(events[0].survivorBefore.color).toBe(0xff0000);
+      expect(events[0].survivorBefore.velocity).toEqual({ x: 1, y: 0, z: 0 });
+    });
+
+    it('should keep a static survivor in place', () => {
+      physics.collisionMode = CollisionMode.Merge;
+      const star = new CelestialBody({ mass: 1, radius: 3, isStatic: true });
+      const planet = new CelestialBody({
+        mass: 5,
+        radius: 1,
+        position: new THREE.Vector3(3, 0, 0),
+        velocity: new THREE.Vector3(-1, 0, 0)
+      });
+      physics.addBody(planet);
+      physics.addBody(star);
+
+      physics.handleCollisions();
+
+      expect(physics.bodies).toEqual([star]);
+      expect(star.mass).toBe(6);
+      expect(star.position.length()).toBe(0);
+      expect(star.velocity.length()).toBe(0);
+    });
+
+    it('should merge during update()', () => {
+      physics.collisionMode = CollisionMode.Merge;
+      createOverlappingPair();
+
+      physics.update(0.01);
+
+      expect(physics.bodies.length).toBe(1);
+      expect(events.length).toBe(1);
+    });
+  });
+
+  describe('Bounce', () => {
+    it('should conserve momentum and kinetic energy and separate the bodies', () => {
+      physics.collisionMode = CollisionMode.Bounce;
+      const { heavy, light } = createOverlappingPair();
+      const momentumBefore = totalMomentum([heavy, light]);
+      const kineticEnergy = () =>
+        0.5 * heavy.mass * heavy.velocity.lengthSq() + 0.5 * light.mass * light.velocity.lengthSq();
+      const energyBefore = kineticEnergy();
+
+      physics.handleCollisions();
+
+      expect(physics.bodies.length).toBe(2);
+      expect(events.length).toBe(0);
+      expect(totalMomentum([heavy, light]).distanceTo(momentumBefore)).toBeLessThan(1e-12);
+      expect(kineticEnergy()).toBeCloseTo(energyBefore, 10);
+      expect(heavy.position.distanceTo(light.position)).toBeCloseTo(3, 10);
+      // Bodies now move apart along the line of centres
+      expect(light.velocity.x - heavy.velocity.x).toBeGreaterThan(0);
+    });
+
+    it('should reflect a body off a static one', () => {
+      physics.collisionMode = CollisionMode.Bounce;
+      const wall = new CelestialBody({ mass: 1, radius: 2, isStatic: true });
+      const ball = new CelestialBody({
+        mass: 1,
+        radius: 1,
+        position: new THREE.Vector3(2.9, 0, 0),
+        velocity: new THREE.Vector3(-1, 0.5, 0)
+      });
+      physics.addBody(wall);
+      physics.addBody(ball);
+
+      physics.handleCollisions();
+
+      expect(wall.position.length()).toBe(0);
+      expect(ball.velocity.x).toBeCloseTo(1, 10);
+      expect(ball.velocity.y).toBeCloseTo(0.5, 10);
+    });
+  });
+
+  describe('Fragmentation', () => {
+    /**
+     * A planet hit by a fast impactor of the given speed
+     */
+    function createImpact(impactSpeed, impactorMass = 1) {
+      const planet = new CelestialBody({
+        name: 'Planet',
+        mass: 10,
+        radius: 2,
+        velocity: new THREE.Vector3(0, 0, 0.5)
+      });
+      const impactor = new CelestialBody({
+        name: 'Rock',
+        mass: impactorMass,
+        radius: 1,
+        position: new THREE.Vector3(2.9, 0, 0),
+        velocity: new THREE.Vector3(-impactSpeed, 0, 0),
+        color: 0x888888
+      });
+      physics.addBody(planet);
+      physics.addBody(impactor);
+      return { planet, impactor };
+    }
+
+    beforeEach(() => {
+      physics.collisionMode = CollisionMode.Fragment;
+      physics.fragmentation.fragmentCount = 5;
+      physics.fragmentation.minFragmentMass = 0.01;
+    });
+
+    it('should merge when the impact energy is below the binding energy', () => {
+      const { planet } = createImpact(0.5);
+      expect(impactEnergy(physics.state, 0, 1)).toBeLessThan(bindingEnergy(physics.state, 1, physics.G));
+
+      physics.handleCollisions();
+
+      expect(physics.bodies).toEqual([planet]);
+      expect(events[0].mode).toBe(CollisionMode.Merge);
+      expect(events[0].created).toEqual([]);
+    });
+
+    it('should shatter the smaller body conserving mass and momentum', () => {
+      const { planet, impactor } = createImpact(20);
+      const momentumBefore = totalMomentum([planet, impactor]);
+
+      physics.handleCollisions();
+
+      const fragments = events[0].created;
+      expect(events[0].mode).toBe(CollisionMode.Fragment);
+      expect(events[0].survivor).toBe(planet);
+      expect(events[0].removed).toEqual([impactor]);
+      expect(fragments.length).toBe(5);
+      expect(physics.bodies).toEqual([planet, ...fragments]);
+
+      const fragmentMass = fragments.reduce((sum, f) => sum + f.mass, 0);
+      expect(fragmentMass).toBeCloseTo(1, 12);
+      expect(planet.mass).toBe(10);
+      expect(totalMomentum(physics.bodies).distanceTo(momentumBefore)).toBeLessThan(1e-9);
+
+      // Volume is shared equally and fragments inherit the target's look
+      for (const fragment of fragments) {
+        expect(fragment.radius ** 3 * 5).toBeCloseTo(1, 10);
+        expect(fragment.color).toBe(0x888888);
+      }
+    });
+
+    it('should launch fragments in a debris cone without overlaps', () => {
+      const { planet } = createImpact(20);
+
+      physics.handleCollisions();
+
+      const fragments = events[0].created;
+      expect(findCollidingPairs(physics.state)).toEqual([]);
+
+      for (const fragment of fragments) {
+        const outward = fragment.position.clone().sub(planet.position).normalize();
+        const relativeVelocity = fragment.velocity.clone().sub(planet.velocity).normalize();
+        // Moving away from the survivor, within the cone around the impact normal
+        expect(relativeVelocity.dot(outward)).toBeGreaterThan(0);
+        expect(relativeVelocity.x).toBeCloseTo(Math.cos(physics.fragmentation.coneAngle), 1);
+      }
+    });
+
+    it('should respect the minimum fragment mass', () => {
+      physics.fragmentation.minFragmentMass = 0.4;
+      createImpact(20);
+
+      physics.handleCollisions();
+
+      expect(events[0].created.length).toBe(2);
+    });
+
+    it('should merge when the target is too light to split', () => {
+      physics.fragmentation.minFragmentMass = 0.6;
+      createImpact(20);
+
+      physics.handleCollisions();
+
+      expect(events[0].mode).toBe(CollisionMode.Merge);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as THREE from 'three';
+import { PhysicsEngine } from '../Physics.js';
+import { CelestialBody } from '../Body.js';
+import { DiagnosticsMonitor, computeDrift, measureConservation } from '../Diagnostics.js';
+
+describe('Diagnostics', () => {
+  let physics;
+
+  beforeEach(() => {
+    physics = new PhysicsEngine(1.0, false);
+    physics.softeningLength = 0;
+  });
+
+  /**
+   * Two equal masses on a circular orbit about their common centre of mass
+   */
+  function createCircularBinary() {
+    // Separation 2, each mass 1: orbital speed v = sqrt(G * m / (4 * r)) with r = 1
+    const speed = Math.sqrt(1 / 4);
+    physics.addBody(new CelestialBody({ mass: 1, position: new THREE.Vector3(-1, 0, 0), velocity: new THREE.Vector3(0, 0, speed) }));
+    physics.addBody(new CelestialBody({ mass: 1, position: new THREE.Vector3(1, 0, 0), velocity: new THREE.Vector3(0, 0, -speed) }));
+  }
+
+  describe('Measurement', () => {
+    it('should split energy into kinetic and potential parts', () => {
+      createCircularBinary();
+
+      const snapshot = measureConservation(physics);
+
+      expect(snapshot.kineticEnergy).toBeCloseTo(0.25, 12);
+      expect(snapshot.potentialEnergy).toBeCloseTo(-0.5, 12);
+      expect(snapshot.totalEnergy).toBeCloseTo(physics.getTotalEnergy(), 12);
+    });
+
+    it('should compute momenta about the origin', () => {
+      createCircularBinary();
+
+      const snapshot = measureConservation(physics);
+
+      expect(snapshot.linearMomentum.length()).toBeCloseTo(0, 12);
+      // Both bodies orbit the same way: L = 2 * (r x m v) = (0, 1, 0)
+      expect(snapshot.angularMomentum.x).toBeCloseTo(0, 12);
+      expect(snapshot.angularMomentum.y).toBeCloseTo(1, 12);
+      expect(snapshot.angularMomentum.z).toBeCloseTo(0, 12);
+      expect(snapshot.momentumScale).toBeCloseTo(1, 12);
+      expect(snapshot.angularMomentumScale).toBeCloseTo(1, 12);
+    });
+
+    it('should report a virial ratio of one for a circular orbit', () => {
+      createCircularBinary();
+
+      expect(measureConservation(physics).virialRatio).toBeCloseTo(1, 12);
+    });
+
+    it('should handle an empty system', () => {
+      const snapshot = measureConservation(physics);
+
+      expect(snapshot.totalEnergy).toBe(0);
+      expect(snapshot.virialRatio).toBe(0);
+      expect(computeDrift(snapshot, snapshot)).toEqual({ energy: 0, linearMomentum: 0, angularMomentum: 0 });
+    });
+  });
+
+  describe('Drift', () => {
+    it('should be relative to the baseline', () => {
+      createCircularBinary();
+      const baseline = measureConservation(physics);
+
+      physics.bodies[0].velocity.z *= 1.1;
+      physics.syncBody(physics.bodies[0]);
+      const drift = computeDrift(baseline, measureConservation(physics));
+
+      const expectedEnergyChange = 0.5 * (0.55 ** 2 - 0.5 ** 2);
+      expect(drift.energy).toBeCloseTo(expectedEnergyChange / 0.25, 12);
+      expect(drift.linearMomentum).toBeCloseTo(0.05, 12);
+      expect(drift.angularMomentum).toBeCloseTo(0.05, 12);
+    });
+
+    it('should stay small for a symplectic integrator', () => {
+      physics.setIntegrator('yoshida4');
+      createCircularBinary();
+      const baseline = measureConservation(physics);
+
+      for (let i = 0; i < 500; i++) {
+        physics.update(0.02);
+      }
+      const drift = computeDrift(baseline, measureConservation(physics));
+
+      expect(drift.energy).toBeLessThan(1e-8);
+      expect(drift.linearMomentum).toBeLessThan(1e-12);
+      expect(drift.angularMomentum).toBeLessThan(1e-8);
+    });
+  });
+
+  describe('DiagnosticsMonitor', () => {
+    it('should only measure every interval steps', () => {
+      createCircularBinary();
+      const monitor = new DiagnosticsMonitor(5);
+      const updates = [];
+      monitor.onUpdate = (snapshot, drift) => updates.push({ snapshot, drift });
+
+      monitor.reset(physics);
+      for (let i = 0; i < 12; i++) {
+        physics.update(0.02);
+        monitor.recordStep(physics);
+      }
+
+      // One update from the reset, then after steps 5 and 10
+      expect(updates.length).toBe(3);
+      expect(updates[0].drift.energy).toBe(0);
+      expect(monitor.latest).toBe(updates[2].snapshot);
+    });
+
+    it('should measure drift since the last reset', () => {
+      createCircularBinary();
+      const monitor = new DiagnosticsMonitor(1);
+      monitor.reset(physics);
+
+      physics.bodies[0].velocity.z *= 2;
+      physics.syncBody(physics.bodies[0]);
+      monitor.recordStep(physics);
+      expect(monitor.drift.energy).toBeGreaterThan(0.1);
+
+      monitor.reset(physics);
+      expect(monitor.drift.energy).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from '../Physics.js';
+import { IntegratorType } from '../Integrators.js';
+import {
+  diagnosticsToCsv,
+  findPremadeSystem,
+  parseHeadlessArguments,
+  parseSystem,
+  runHeadless,
+  trajectoriesToCsv
+} from '../Headless.js';
+import { TRAPPIST_1 } from '../PremadeData.js';
+
+describe('Headless', () => {
+  const binary = {
+    id: 'custom_1',
+    name: 'Binary, test',
+    seed: 7,
+    createdAt: 0,
+    isPremade: false,
+    bodies: [
+      {
+        id: 'star-a', name: 'A', type: 'star', mass: 1, radius: 0.5, color: 0xffffff, emissive: 0, emissiveIntensity: 0,
+        position: { x: -1, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: -0.35 }, isStatic: false
+      },
+      {
+        name: 'B', type: 'star', mass: 1, radius: 0.5, color: 0xffffff, emissive: 0, emissiveIntensity: 0,
+        position: { x: 1, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: 0.35 }, isStatic: false
+      }
+    ]
+  };
+
+  describe('Loading systems', () => {
+    it('should read an exported system file', () => {
+      const system = parseSystem(JSON.parse(JSON.stringify(binary)));
+
+      expect(system.name).toBe('Binary, test');
+      expect(system.seed).toBe(7);
+      expect(system.bodies.length).toBe(2);
+      expect(system.bodies[1].position).toEqual({ x: 1, y: 0, z: 0 });
+    });
+
+    it('should reject bodies without a position', () => {
+      expect(() => parseSystem({ bodies: [{ mass: 1, velocity: { x: 0, y: 0, z: 0 } }] })).toThrow(/Body 0/);
+      expect(() => parseSystem({ name: 'empty' })).toThrow(/bodies/);
+    });
+
+    it('should find premade systems by loose name', () => {
+      expect(findPremadeSystem('trappist-1')).toBe(TRAPPIST_1);
+      expect(findPremadeSystem('TRAPPIST 1')).toBe(TRAPPIST_1);
+      expect(findPremadeSystem('nowhere')).toBeUndefined();
+    });
+  });
+
+  describe('Running', () => {
+    it('should sample every interval and at the last step', () => {
+      const result = runHeadless(parseSystem(binary), { duration: 1, timeStep: 0.1, sampleInterval: 4 });
+
+      expect(result.trajectories.map(sample => sample.step)).toEqual([0, 4, 8, 10]);
+      expect(result.diagnostics.length).toBe(4);
+      expect(result.diagnostics[0].drift.energy).toBe(0);
+      expect(result.trajectories[3].time).toBeCloseTo(1, 12);
+    });
+
+    it('should identify bodies by their stable IDs', () => {
+      const result = runHeadless(parseSystem(binary), { duration: 0.2, timeStep: 0.1, sampleInterval: 1 });
+
+      const [first, , last] = result.trajectories;
+      expect(first.bodies[0].id).toBe('star-a');
+      // Bodies loaded without an ID get one that stays the same for the whole run
+      expect(typeof first.bodies[1].id).toBe('string');
+      expect(first.bodies[1].id).not.toBe('star-a');
+      expect(last.bodies.map(body => body.id)).toEqual(first.bodies.map(body => body.id));
+    });
+
+    it('should match stepping the engine directly', () => {
+      const system = parseSystem(binary);
+      const result = runHeadless(system, {
+        duration: 0.5, timeStep: 0.01, integrator: IntegratorType.Yoshida4, sampleInterval: 1000
+      });
+
+      const engine = new PhysicsEngine(1.0, false);
+      engine.setIntegrator(IntegratorType.Yoshida4);
+      parseSystem(binary).bodies.forEach(body => engine.addBody(body));
+      for (let i = 0; i < 50; i++) {
+        engine.update(0.01);
+      }
+
+      const final = result.trajectories[result.trajectories.length - 1];
+      expect(final.bodies[0].position).toEqual(engine.bodies[0].position);
+      // The input system is left untouched
+      expect(system.bodies[0].position).toEqual({ x: -1, y: 0, z: 0 });
+    });
+
+    it('should write one CSV row per body per sample', () => {
+      const result = runHeadless(parseSystem(binary), { duration: 0.2, timeStep: 0.1, sampleInterval: 1 });
+
+      const trajectories = trajectoriesToCsv(result).trim().split('\n');
+      expect(trajectories[0]).toBe('step,time,id,name,mass,x,y,z,vx,vy,vz');
+      expect(trajectories.length).toBe(1 + 3 * 2);
+      expect(trajectories[1].startsWith('0,0,star-a,A,1,-1,0,0,')).toBe(true);
+
+      const diagnostics = diagnosticsToCsv(result).trim().split('\n');
+      expect(diagnostics.length).toBe(1 + 3);
+      expect(diagnostics[0].split(',').length).toBe(diagnostics[1].split(',').length);
+    });
+
+    it('should quote names containing commas', () => {
+      const system = parseSystem(binary);
+      system.bodies[0].name = 'Star "A", primary';
+      const result = runHeadless(system, { duration: 0, timeStep: 0.1 });
+
+      expect(trajectoriesToCsv(result)).toContain(',"Star ""A"", primary",');
+    });
+  });
+
+  describe('Arguments', () => {
+    it('should parse options', () => {
+      const args = parseHeadlessArguments([
+        'system.json', '--duration', '50', '--dt', '0.01', '--integrator', 'rk4',
+        '--every', '5', '--barnes-hut', '--format', 'csv', '--output', 'out/run'
+      ]);
+
+      expect(args.source).toBe('system.json');
+      expect(args.format).toBe('csv');
+      expect(args.output).toBe('out/run');
+      expect(args.options).toEqual({
+        duration: 50, timeStep: 0.01, integrator: IntegratorType.RK4, sampleInterval: 5, useBarnesHut: true
+      });
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => parseHeadlessArguments(['--integrator', 'leapfrog'])).toThrow(/integrator/);
+      expect(() => parseHeadlessArguments(['--duration', 'long'])).toThrow(/number/);
+      expect(() => parseHeadlessArguments(['--dt', '0'])).toThrow(/positive/);
+      expect(() => parseHeadlessArguments(['a.json', 'b.json'])).toThrow(/Unexpected/);
+    });
+  });
+});
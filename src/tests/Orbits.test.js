@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { circularOrbit, elementsToState, findPrimary, placeOnOrbit, stateToElements } from '../Orbits.js';
+import { Vec3 } from '../Vec3.js';
+
+describe('Orbits', () => {
+  const degrees = Math.PI / 180;
+
+  function expectVectorClose(actual, expected, digits = 9) {
+    expect(actual.x).toBeCloseTo(expected.x, digits);
+    expect(actual.y).toBeCloseTo(expected.y, digits);
+    expect(actual.z).toBeCloseTo(expected.z, digits);
+  }
+
+  describe('stateToElements', () => {
+    it('should give a prograde circular orbit in the xz plane zero inclination', () => {
+      // Same sense as the premade systems: on +x moving towards +z
+      const elements = stateToElements(new Vec3(10, 0, 0), new Vec3(0, 0, Math.sqrt(10)), 100);
+
+      expect(elements.semiMajorAxis).toBeCloseTo(10, 10);
+      expect(elements.eccentricity).toBeCloseTo(0, 10);
+      expect(elements.inclination).toBeCloseTo(0, 10);
+      expect(elements.trueAnomaly).toBeCloseTo(0, 10);
+      expect(elements.period).toBeCloseTo(2 * Math.PI * Math.sqrt(1000 / 100), 10);
+    });
+
+    it('should measure eccentricity and true anomaly at periapsis and apoapsis', () => {
+      const mu = 1;
+      const a = 2;
+      const e = 0.5;
+      const periapsisSpeed = Math.sqrt(mu / a * (1 + e) / (1 - e));
+      const atPeriapsis = stateToElements(new Vec3(a * (1 - e), 0, 0), new Vec3(0, 0, periapsisSpeed), mu);
+
+      expect(atPeriapsis.semiMajorAxis).toBeCloseTo(a, 10);
+      expect(atPeriapsis.eccentricity).toBeCloseTo(e, 10);
+      expect(atPeriapsis.trueAnomaly).toBeCloseTo(0, 10);
+
+      const apoapsisSpeed = Math.sqrt(mu / a * (1 - e) / (1 + e));
+      const atApoapsis = stateToElements(new Vec3(-a * (1 + e), 0, 0), new Vec3(0, 0, -apoapsisSpeed), mu);
+      expect(atApoapsis.trueAnomaly).toBeCloseTo(Math.PI, 10);
+      expect(atApoapsis.argumentOfPeriapsis).toBeCloseTo(0, 10);
+    });
+
+    it('should report unbound orbits with a negative semi-major axis and no period', () => {
+      const elements = stateToElements(new Vec3(1, 0, 0), new Vec3(0, 0, 2), 1);
+
+      expect(elements.eccentricity).toBeGreaterThan(1);
+      expect(elements.semiMajorAxis).toBeLessThan(0);
+      expect(elements.period).toBe(Infinity);
+    });
+  });
+
+  describe('elementsToState', () => {
+    it('should round-trip inclined eccentric orbits', () => {
+      const mu = 50;
+      const cases = [
+        { semiMajorAxis: 12, eccentricity: 0.3, inclination: 25 * degrees, longitudeOfAscendingNode: 40 * degrees,
+          argumentOfPeriapsis: 110 * degrees, trueAnomaly: 200 * degrees },
+        { semiMajorAxis: 5, eccentricity: 0.05, inclination: 170 * degrees, longitudeOfAscendingNode: 300 * degrees,
+          argumentOfPeriapsis: 10 * degrees, trueAnomaly: 80 * degrees },
+        { semiMajorAxis: -4, eccentricity: 1.5, inclination: 60 * degrees, longitudeOfAscendingNode: 90 * degrees,
+          argumentOfPeriapsis: 45 * degrees, trueAnomaly: 30 * degrees }
+      ];
+
+      for (const elements of cases) {
+        const state = elementsToState({ ...elements, period: 0 }, mu);
+        const result = stateToElements(state.position, state.velocity, mu);
+        for (const key of Object.keys(elements)) {
+          expect(result[key]).toBeCloseTo(elements[key], 8);
+        }
+      }
+    });
+
+    it('should place the ascending node where the orbit crosses towards the -y normal', () => {
+      const state = elementsToState({
+        semiMajorAxis: 10, eccentricity: 0, inclination: 30 * degrees,
+        longitudeOfAscendingNode: 0, argumentOfPeriapsis: 0, trueAnomaly: 0, period: 0
+      }, 1);
+
+      expectVectorClose(state.position, new Vec3(10, 0, 0));
+      // Crossing the plane towards -y while moving round in the usual sense (+z)
+      expect(state.velocity.y).toBeLessThan(0);
+      expect(state.velocity.z).toBeGreaterThan(0);
+    });
+
+    it('should reject parabolic orbits and anomalies past the asymptote', () => {
+      const base = { semiMajorAxis: 1, inclination: 0, longitudeOfAscendingNode: 0, argumentOfPeriapsis: 0, period: 0 };
+
+      expect(() => elementsToState({ ...base, eccentricity: 1, trueAnomaly: 0 }, 1)).toThrow(RangeError);
+      expect(() => elementsToState({ ...base, eccentricity: 2, trueAnomaly: Math.PI }, 1)).toThrow(RangeError);
+    });
+  });
+
+  describe('placeOnOrbit', () => {
+    it('should place a circular orbit around a moving parent using G and both masses', () => {
+      const parent = { mass: 30, position: new Vec3(100, 5, 0), velocity: new Vec3(0, 0, 2) };
+      const G = 2;
+      const state = placeOnOrbit(parent, 2, circularOrbit(8, 0, Math.PI / 2), G);
+
+      // A quarter turn round from +x in the usual sense is +z
+      expectVectorClose(state.position, new Vec3(100, 5, 8));
+      const relativeVelocity = state.velocity.clone().sub(parent.velocity);
+      expect(relativeVelocity.length()).toBeCloseTo(Math.sqrt(G * 32 / 8), 10);
+      expect(relativeVelocity.dot(new Vec3(0, 0, 8))).toBeCloseTo(0, 10);
+
+      const elements = stateToElements(state.position.clone().sub(parent.position), relativeVelocity, G * 32);
+      expect(elements.semiMajorAxis).toBeCloseTo(8, 10);
+      expect(elements.eccentricity).toBeCloseTo(0, 10);
+    });
+  });
+
+  describe('findPrimary', () => {
+    const body = (mass, x) => ({ mass, position: new Vec3(x, 0, 0) });
+
+    it('should pick the heaviest body, or a nearer one whose Hill sphere contains the body', () => {
+      const sun = body(1000, 0);
+      const planet = body(10, 50);
+      const moon = body(0.01, 51);
+      const farAway = body(0.01, 80);
+      const bodies = [sun, planet, moon, farAway];
+
+      expect(findPrimary(planet, bodies)).toBe(sun);
+      expect(findPrimary(moon, bodies)).toBe(planet);
+      expect(findPrimary(farAway, bodies)).toBe(sun);
+      expect(findPrimary(sun, bodies)).toBeNull();
+    });
+  });
+});
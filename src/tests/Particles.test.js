@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from '../Physics.js';
+import { CollisionMode } from '../Collisions.js';
+import { generateBelt, generateRing, ParticleSystem } from '../Particles.js';
+import { SeededRandom } from '../Random.js';
+import { SimulationHost } from '../SimulationHost.js';
+import { Vec3 } from '../Vec3.js';
+import { createBody } from './helpers.js';
+
+describe('Particles', () => {
+  function radiusOf(batch, i, center) {
+    const dx = batch.positions[3 * i] - center.position.x;
+    const dz = batch.positions[3 * i + 2] - center.position.z;
+    return Math.sqrt(dx * dx + dz * dz);
+  }
+
+  describe('ParticleSystem', () => {
+    it('should grow and keep existing particles', () => {
+      const particles = new ParticleSystem(2);
+      particles.add({ positions: new Float64Array([1, 2, 3, 4, 5, 6]), velocities: new Float64Array(6) });
+      particles.add({ positions: new Float64Array([7, 8, 9]), velocities: new Float64Array(3) });
+
+      expect(particles.count).toBe(3);
+      expect(particles.capacity).toBeGreaterThanOrEqual(3);
+      expect(Array.from(particles.positions.subarray(0, 9))).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    it('should move the last particle into a removed slot', () => {
+      const particles = new ParticleSystem();
+      particles.add({ positions: new Float64Array([1, 1, 1, 2, 2, 2, 3, 3, 3]), velocities: new Float64Array(9) });
+      particles.remove(0);
+
+      expect(particles.count).toBe(2);
+      expect(Array.from(particles.positions.subarray(0, 6))).toEqual([3, 3, 3, 2, 2, 2]);
+    });
+  });
+
+  describe('Generators', () => {
+    it('should place ring particles between the radii at circular speed', () => {
+      const planet = createBody('planet', 10, { mass: 4, velocity: new Vec3(0, 0, 2) });
+      const options = { count: 200, innerRadius: 1, outerRadius: 2, thickness: 0.1 };
+      const ring = generateRing(planet, options, 1.0, new SeededRandom(3));
+
+      for (let i = 0; i < options.count; i++) {
+        const radius = radiusOf(ring, i, planet);
+        expect(radius).toBeGreaterThanOrEqual(1);
+        expect(radius).toBeLessThanOrEqual(2);
+        expect(Math.abs(ring.positions[3 * i + 1])).toBeLessThanOrEqual(0.05);
+
+        // Speed relative to the planet is circular
+        const vx = ring.velocities[3 * i] - planet.velocity.x;
+        const vz = ring.velocities[3 * i + 2] - planet.velocity.z;
+        expect(Math.hypot(vx, vz)).toBeCloseTo(Math.sqrt(4 / radius), 10);
+      }
+    });
+
+    it('should be deterministic for a seed', () => {
+      const sun = createBody('sun', 0, { mass: 100 });
+      const options = { count: 50, innerRadius: 20, outerRadius: 30, thickness: 1, eccentricity: 0.1 };
+
+      const a = generateBelt(sun, options, 1.0, new SeededRandom(9));
+      const b = generateBelt(sun, options, 1.0, new SeededRandom(9));
+
+      expect(a.positions).toEqual(b.positions);
+      expect(a.velocities).toEqual(b.velocities);
+    });
+  });
+
+  describe('Integration', () => {
+    it('should keep a particle on a circular orbit', () => {
+      const engine = new PhysicsEngine(1.0, false);
+      engine.softeningLength = 0;
+      const sun = createBody('sun', 0, { mass: 100, isStatic: true });
+      engine.addBody(sun);
+      engine.particles.add({
+        positions: new Float64Array([10, 0, 0]),
+        velocities: new Float64Array([0, 0, Math.sqrt(10)])
+      });
+
+      // A quarter of an orbit
+      const period = 2 * Math.PI * Math.sqrt(1000 / 100);
+      const steps = 500;
+      for (let i = 0; i < steps; i++) {
+        engine.update(period / 4 / steps);
+      }
+
+      const [x, y, z] = engine.particles.positions;
+      expect(Math.hypot(x, y, z)).toBeCloseTo(10, 3);
+      expect(z).toBeCloseTo(10, 2);
+    });
+
+    it('should not affect the motion of bodies', () => {
+      const withParticles = new PhysicsEngine(1.0, false);
+      const without = new PhysicsEngine(1.0, false);
+      for (const engine of [withParticles, without]) {
+        engine.addBody(createBody('sun', 0, { mass: 100 }));
+        engine.addBody(createBody('planet', 10, { velocity: new Vec3(0, 0, Math.sqrt(10)) }));
+      }
+      withParticles.particles.add(generateBelt(
+        withParticles.bodies[0],
+        { count: 100, innerRadius: 4, outerRadius: 8, thickness: 1, eccentricity: 0.1 },
+        1.0,
+        new SeededRandom(1)
+      ));
+
+      for (let i = 0; i < 20; i++) {
+        withParticles.update(0.01);
+        without.update(0.01);
+      }
+
+      expect(withParticles.bodies[1].position).toEqual(without.bodies[1].position);
+      expect(withParticles.bodies[1].velocity).toEqual(without.bodies[1].velocity);
+    });
+
+    it('should match direct summation when using Barnes-Hut', () => {
+      const direct = new PhysicsEngine(1.0, false);
+      const tree = new PhysicsEngine(1.0, true);
+      tree.barnesHutTheta = 0.3;
+      const random = new SeededRandom(5);
+      for (let i = 0; i < 40; i++) {
+        const position = new Vec3(random.range(-20, 20), random.range(-2, 2), random.range(-20, 20));
+        direct.addBody(createBody(`b${i}`, 0, { position: position.clone() }));
+        tree.addBody(createBody(`b${i}`, 0, { position: position.clone() }));
+      }
+      const batch = generateRing(direct.bodies[0], { count: 50, innerRadius: 5, outerRadius: 15, thickness: 1 }, 1.0, random);
+      // Include particles outside the tree's bounds
+      batch.positions[0] = 500;
+      direct.particles.add(batch);
+      tree.particles.add(batch);
+
+      const expected = new Float64Array(150);
+      const actual = new Float64Array(150);
+      direct.computeParticleAccelerations(expected);
+      tree.computeParticleAccelerations(actual);
+
+      for (let i = 0; i < 50; i++) {
+        const error = Math.hypot(
+          actual[3 * i] - expected[3 * i],
+          actual[3 * i + 1] - expected[3 * i + 1],
+          actual[3 * i + 2] - expected[3 * i + 2]
+        );
+        const magnitude = Math.hypot(expected[3 * i], expected[3 * i + 1], expected[3 * i + 2]);
+        expect(error / magnitude).toBeLessThan(0.01);
+      }
+    });
+
+    it('should absorb particles that hit a body unless collisions are off', () => {
+      const engine = new PhysicsEngine(1.0, false);
+      engine.addBody(createBody('sun', 0, { mass: 100, radius: 2, isStatic: true }));
+      const inside = { positions: new Float64Array([1, 0, 0, 50, 0, 0]), velocities: new Float64Array(6) };
+
+      engine.collisionMode = CollisionMode.None;
+      engine.particles.add(inside);
+      engine.update(0.001);
+      expect(engine.particles.count).toBe(2);
+
+      engine.collisionMode = CollisionMode.Merge;
+      engine.update(0.001);
+      expect(engine.particles.count).toBe(1);
+      expect(engine.particles.positions[0]).toBeGreaterThan(40);
+    });
+  });
+
+  it('should carry particles in host snapshots', () => {
+    const host = new SimulationHost();
+    const sun = createBody('sun', 0, { mass: 100, radius: 2 });
+    host.addBody(sun);
+    host.addBelt(sun, { count: 30, innerRadius: 20, outerRadius: 30, thickness: 1, eccentricity: 0 }, 42);
+
+    host.interpolate(Infinity);
+    expect(host.particleCount).toBe(30);
+    const before = host.particlePositions.slice(0, 90);
+
+    host.step(0.01, 1);
+    host.interpolate(Infinity);
+    expect(host.particleCount).toBe(30);
+    expect(host.particlePositions.slice(0, 90)).not.toEqual(before);
+
+    host.clearParticles();
+    host.interpolate(Infinity);
+    expect(host.particleCount).toBe(0);
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import * as THREE from 'three';
 import { PhysicsEngine } from '../Physics.js';
 import { CelestialBody } from '../Body.js';
+import { IntegratorType } from '../Integrators.js';
 
 describe('PhysicsEngine', () => {
   let physics;
@@ -39,7 +40,7 @@ describe('PhysicsEngine', () => {
       expect(force.z).toBeCloseTo(0, 5);
     });
 
-    it('should handle bodies at the same position (minimum distance clamping)', () => {
+    it('should give zero force for bodies at the same position', () => {
       const body1 = new CelestialBody({
         mass: 10,
         position: new THREE.Vector3(0, 0, 0),
@@ -54,9 +55,9 @@ describe('PhysicsEngine', () => {
 
       const force = physics.calculateGravityForce(body1, body2);
 
-      // Should not be infinite or NaN
+      // Should not be infinite or NaN, and no random direction is made up
       expect(Number.isFinite(force.length())).toBe(true);
-      expect(force.length()).toBeGreaterThan(0);
+      expect(force.length()).toBe(0);
     });
 
     it('should calculate force in 3D space correctly', () => {
@@ -264,6 +265,204 @@ describe('PhysicsEngine', () => {
     });
   });
 
+  describe('Integrators', () => {
+    const integratorTypes = [
+      IntegratorType.SymplecticEuler,
+      IntegratorType.VelocityVerlet,
+      IntegratorType.RK4,
+      IntegratorType.Yoshida4
+    ];
+
+    /**
+     * Star + planet on a circular orbit, returns relative energy drift after `steps`
+     */
+    function runCircularOrbit(engine, steps, timeStep) {
+      const starMass = 1000;
+      const orbitRadius = 20;
+      const star = new CelestialBody({
+        mass: starMass,
+        position: new THREE.Vector3(0, 0, 0),
+        isStatic: true,
+        radius: 3
+      });
+      const planet = new CelestialBody({
+        mass: 1,
+        position: new THREE.Vector3(orbitRadius, 0, 0),
+        velocity: new THREE.Vector3(0, 0, Math.sqrt(engine.G * starMass / orbitRadius)),
+        radius: 1
+      });
+      engine.addBody(star);
+      engine.addBody(planet);
+
+      const initialEnergy = engine.getTotalEnergy();
+      for (let i = 0; i < steps; i++) {
+        engine.update(timeStep);
+      }
+      return {
+        star,
+        planet,
+        drift: Math.abs((engine.getTotalEnergy() - initialEnergy) / initialEnergy)
+      };
+    }
+
+    it('should default to Symplectic Euler and switch integrators', () => {
+      expect(physics.integrator.type).toBe(IntegratorType.SymplecticEuler);
+
+      physics.setIntegrator(IntegratorType.Yoshida4);
+      expect(physics.integrator.type).toBe(IntegratorType.Yoshida4);
+
+      const current = physics.integrator;
+      physics.setIntegrator(IntegratorType.Yoshida4);
+      expect(physics.integrator).toBe(current);
+    });
+
+    it.each(integratorTypes)('%s should keep static bodies fixed and conserve energy', (type) => {
+      const engine = new PhysicsEngine(1.0, false, 0.5, type);
+      const { star, drift } = runCircularOrbit(engine, 1000, 0.01);
+
+      expect(star.position.length()).toBe(0);
+      expect(star.velocity.length()).toBe(0);
+      expect(drift).toBeLessThan(0.01);
+    });
+
+    it('higher-order integrators should beat Symplectic Euler on a coarse step', () => {
+      const eulerDrift = runCircularOrbit(
+        new PhysicsEngine(1.0, false, 0.5, IntegratorType.SymplecticEuler), 200, 0.1
+      ).drift;
+
+      for (const type of [IntegratorType.VelocityVerlet, IntegratorType.RK4, IntegratorType.Yoshida4]) {
+        const drift = runCircularOrbit(new PhysicsEngine(1.0, false, 0.5, type), 200, 0.1).drift;
+        expect(drift).toBeLessThan(eulerDrift);
+      }
+    });
+
+    it.each(integratorTypes)('%s should give the same result with Barnes-Hut and direct summation', (type) => {
+      const createSystem = (engine) => {
+        engine.addBody(new CelestialBody({ mass: 100, isStatic: true }));
+        engine.addBody(new CelestialBody({
+          mass: 1,
+          position: new THREE.Vector3(30, 0, 0),
+          velocity: new THREE.Vector3(0, 0, Math.sqrt(100 / 30))
+        }));
+        engine.addBody(new CelestialBody({
+          mass: 2,
+          position: new THREE.Vector3(-50, 0, 0),
+          velocity: new THREE.Vector3(0, 0, -Math.sqrt(100 / 50))
+        }));
+        return engine;
+      };
+
+      // A tiny theta makes Barnes-Hut open every node, matching direct summation
+      const direct = createSystem(new PhysicsEngine(1.0, false, 0.5, type));
+      const tree = createSystem(new PhysicsEngine(1.0, true, 0.01, type));
+
+      for (let i = 0; i < 100; i++) {
+        direct.update(0.05);
+        tree.update(0.05);
+      }
+
+      for (let i = 0; i < 3; i++) {
+        expect(tree.bodies[i].position.distanceTo(direct.bodies[i].position)).toBeLessThan(1e-6);
+      }
+      expect(tree.bodies[0].position.length()).toBe(0);
+    });
+  });
+
+  describe('Adaptive Time Stepping', () => {
+    /**
+     * Star + planet on a very eccentric orbit that dives close to the star
+     */
+    function createCloseEncounter(engine) {
+      const star = new CelestialBody({ mass: 1000, isStatic: true, radius: 3 });
+      const planet = new CelestialBody({
+        mass: 1,
+        position: new THREE.Vector3(40, 0, 0),
+        velocity: new THREE.Vector3(0, 0, 1.0),
+        radius: 1
+      });
+      engine.addBody(star);
+      engine.addBody(planet);
+      return planet;
+    }
+
+    function energyDriftOverOrbit(engine) {
+      createCloseEncounter(engine);
+      const initialEnergy = engine.getTotalEnergy();
+      // Periapsis (r ~ 1.5) is reached after roughly 9 time units
+      for (let i = 0; i < 120; i++) {
+        engine.update(0.1);
+      }
+      return Math.abs((engine.getTotalEnergy() - initialEnergy) / initialEnergy);
+    }
+
+    it('should resolve a close encounter that a fixed step cannot', () => {
+      const fixed = new PhysicsEngine(1.0, false, 0.5, IntegratorType.VelocityVerlet);
+      const adaptive = new PhysicsEngine(1.0, false, 0.5, IntegratorType.VelocityVerlet);
+      adaptive.adaptiveTimeStep = true;
+      adaptive.timeStepTolerance = 0.02;
+
+      const fixedDrift = energyDriftOverOrbit(fixed);
+      const adaptiveDrift = energyDriftOverOrbit(adaptive);
+
+      expect(adaptiveDrift).toBeLessThan(0.01);
+      expect(adaptiveDrift).toBeLessThan(fixedDrift);
+      expect(adaptive.lastEffectiveStep).toBeLessThan(0.1);
+      expect(adaptive.lastEffectiveStep).toBeGreaterThanOrEqual(adaptive.minTimeStep);
+    });
+
+    it('should conserve energy with block time steps', () => {
+      const engine = new PhysicsEngine(1.0, false);
+      engine.adaptiveTimeStep = true;
+      engine.useBlockTimeSteps = true;
+      engine.timeStepTolerance = 0.02;
+
+      expect(energyDriftOverOrbit(engine)).toBeLessThan(0.01);
+    });
+
+    it('should give fast inner bodies smaller time steps than slow outer ones', () => {
+      physics.addBody(new CelestialBody({ mass: 1000, isStatic: true }));
+      physics.addBody(new CelestialBody({
+        mass: 1,
+        position: new THREE.Vector3(5, 0, 0),
+        velocity: new THREE.Vector3(0, 0, Math.sqrt(1000 / 5))
+      }));
+      physics.addBody(new CelestialBody({
+        mass: 1,
+        position: new THREE.Vector3(100, 0, 0),
+        velocity: new THREE.Vector3(0, 0, Math.sqrt(1000 / 100))
+      }));
+
+      const [star, inner, outer] = physics.calculateTimeStepCriteria();
+
+      expect(star).toBe(Infinity);
+      expect(inner).toBeLessThan(outer);
+    });
+
+    it('should estimate time steps with the tree when Barnes-Hut is on', () => {
+      const direct = new PhysicsEngine(1.0, false);
+      const tree = new PhysicsEngine(1.0, true);
+      tree.barnesHutTheta = 0.3;
+      for (let i = 0; i < 40; i++) {
+        const angle = 2.4 * i;
+        const radius = 5 + i;
+        const speed = Math.sqrt(100 / radius);
+        for (const engine of [direct, tree]) {
+          engine.addBody(new CelestialBody({
+            mass: i === 0 ? 100 : 0.1,
+            position: new THREE.Vector3(radius * Math.cos(angle), 0.1 * i, radius * Math.sin(angle)),
+            velocity: new THREE.Vector3(-speed * Math.sin(angle), 0, speed * Math.cos(angle))
+          }));
+        }
+      }
+
+      const expected = Array.from(direct.calculateTimeStepCriteria());
+      const estimated = tree.calculateTimeStepCriteria();
+
+      expect(estimated.length).toBe(40);
+      estimated.forEach((dt, i) => expect(Math.abs(dt - expected[i])).toBeLessThan(0.02 * expected[i]));
+    });
+  });
+
   describe('Body Management', () => {
     it('should add and remove bodies correctly', () => {
       const body = new CelestialBody({
@@ -282,4 +481,71 @@ describe('PhysicsEngine', () => {
       expect(physics.bodies.length).toBe(0);
     });
   });
+
+  describe('Keyframes', () => {
+    let star;
+    let planet;
+
+    beforeEach(() => {
+      physics = new PhysicsEngine(1.0, false, 0.5, IntegratorType.VelocityVerlet);
+      star = new CelestialBody({ mass: 100, radius: 1, isStatic: true });
+      planet = new CelestialBody({ mass: 1, radius: 0.5, position: new THREE.Vector3(10, 0, 0), velocity: new THREE.Vector3(0, 0, Math.sqrt(10)) });
+      physics.addBody(star);
+      physics.addBody(planet);
+    });
+
+    it('should track simulated time', () => {
+      for (let i = 0; i < 4; i++) {
+        physics.update(0.25);
+      }
+
+      expect(physics.time).toBe(1);
+    });
+
+    it('should resume from a keyframe exactly as it did the first time', () => {
+      physics.particles.add({ positions: new Float64Array([20, 0, 0]), velocities: new Float64Array([0, 0, Math.sqrt(5)]) });
+      physics.update(0.01);
+      const keyframe = physics.captureKeyframe();
+
+      for (let i = 0; i < 50; i++) {
+        physics.update(0.01);
+      }
+      const position = planet.position.clone();
+      const particle = Array.from(physics.particles.positions.subarray(0, 3));
+
+      physics.restoreKeyframe(keyframe, [star, planet]);
+      expect(physics.time).toBeCloseTo(0.01, 12);
+      for (let i = 0; i < 50; i++) {
+        physics.update(0.01);
+      }
+
+      expect(planet.position).toEqual(position);
+      expect(Array.from(physics.particles.positions.subarray(0, 3))).toEqual(particle);
+      expect(physics.bodies[0].isStatic).toBe(true);
+    });
+
+    it('should bring back bodies removed since the keyframe through new views', () => {
+      const keyframe = physics.captureKeyframe();
+      physics.removeBody(planet);
+      physics.update(0.01);
+
+      const view = new CelestialBody({ name: 'planet' });
+      physics.restoreKeyframe(keyframe, [star, view]);
+
+      expect(physics.bodies).toEqual([star, view]);
+      expect(view.position).toEqual(new THREE.Vector3(10, 0, 0));
+      expect(view.mass).toBe(1);
+      expect(view.radius).toBe(0.5);
+    });
+
+    it('should release bodies that were held when the keyframe was captured', () => {
+      physics.holdBody(planet, true);
+      const keyframe = physics.captureKeyframe();
+
+      physics.restoreKeyframe(keyframe, [star, planet]);
+      physics.update(0.01);
+
+      expect(planet.position.x).not.toBe(10);
+    });
+  });
 });
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { PhysicsEngine } from '../Physics.js';
+import { CelestialBody } from '../Body.js';
+import { CollisionMode } from '../Collisions.js';
+import { RandomService, SeededRandom } from '../Random.js';
+
+describe('Random', () => {
+  describe('SeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = new SeededRandom(42);
+      const b = new SeededRandom(42);
+      for (let i = 0; i < 100; i++) {
+        expect(a.next()).toBe(b.next());
+      }
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      const a = new SeededRandom(1);
+      const b = new SeededRandom(2);
+      const sequenceA = Array.from({ length: 10 }, () => a.next());
+      const sequenceB = Array.from({ length: 10 }, () => b.next());
+      expect(sequenceA).not.toEqual(sequenceB);
+    });
+
+    it('should stay within the requested range', () => {
+      const random = new SeededRandom(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = random.range(-3, 5);
+        expect(value).toBeGreaterThanOrEqual(-3);
+        expect(value).toBeLessThan(5);
+      }
+    });
+  });
+
+  describe('RandomService', () => {
+    it('should keep named streams independent', () => {
+      const service = new RandomService(123);
+      const reference = new RandomService(123);
+
+      // Drawing from one stream must not shift another
+      service.stream('starfield').next();
+      service.stream('starfield').next();
+
+      expect(service.stream('placement').next()).toBe(reference.stream('placement').next());
+      expect(service.stream('starfield').next()).not.toBe(service.stream('placement').next());
+    });
+
+    it('should restart every stream when the seed is set', () => {
+      const service = new RandomService(5);
+      const first = [service.stream('placement').next(), service.stream('placement').next()];
+
+      service.setSeed(5);
+
+      expect([service.stream('placement').next(), service.stream('placement').next()]).toEqual(first);
+      expect(service.getSeed()).toBe(5);
+    });
+  });
+
+  describe('Reproducibility', () => {
+    /**
+     * Run a seeded scenario with close encounters, coincident bodies and fragmenting impacts
+     */
+    function runScenario(seed) {
+      const random = new RandomService(seed).stream('placement');
+      const physics = new PhysicsEngine(1.0, true);
+      physics.collisionMode = CollisionMode.Fragment;
+
+      physics.addBody(new CelestialBody({ mass: 50, radius: 2, isStatic: true }));
+      for (let i = 0; i < 12; i++) {
+        physics.addBody(new CelestialBody({
+          mass: random.range(0.1, 2),
+          radius: random.range(0.2, 0.6),
+          position: new THREE.Vector3(random.range(-10, 10), random.range(-1, 1), random.range(-10, 10)),
+          velocity: new THREE.Vector3(random.range(-3, 3), 0, random.range(-3, 3))
+        }));
+      }
+      physics.addBody(new CelestialBody({ mass: 1, position: new THREE.Vector3(6, 0, 0) }));
+      physics.addBody(new CelestialBody({ mass: 1, position: new THREE.Vector3(6, 0, 0) }));
+
+      for (let i = 0; i < 300; i++) {
+        physics.update(0.01);
+      }
+
+      return physics.bodies.map(body => [
+        body.mass,
+        body.position.x, body.position.y, body.position.z,
+        body.velocity.x, body.velocity.y, body.velocity.z
+      ]);
+    }
+
+    it('should replay a seeded scenario bit for bit', () => {
+      const first = runScenario(2024);
+      const second = runScenario(2024);
+
+      expect(second).toEqual(first);
+      for (const state of first) {
+        expect(state.every(Number.isFinite)).toBe(true);
+      }
+    });
+
+    it('should diverge for a different seed', () => {
+      expect(runScenario(2025)).not.toEqual(runScenario(2024));
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { KeyframeBuffer, keyframeByteLength } from '../Rewind.js';
+
+describe('KeyframeBuffer', () => {
+  function createKeyframe(time, bodies = 1) {
+    return {
+      physics: {
+        time,
+        count: bodies,
+        positions: new Float64Array(3 * bodies),
+        velocities: new Float64Array(3 * bodies),
+        masses: new Float64Array(bodies),
+        radii: new Float64Array(bodies),
+        flags: new Uint8Array(bodies),
+        particlePositions: new Float64Array(0),
+        particleVelocities: new Float64Array(0)
+      },
+      records: []
+    };
+  }
+
+  const size = keyframeByteLength(createKeyframe(0));
+
+  function times(buffer) {
+    return Array.from({ length: buffer.length }, (_, i) => buffer.get(i).physics.time);
+  }
+
+  it('should keep keyframes in order as the ring grows', () => {
+    const buffer = new KeyframeBuffer(Infinity, 2);
+    for (let time = 0; time < 5; time++) {
+      buffer.push(createKeyframe(time));
+    }
+
+    expect(times(buffer)).toEqual([0, 1, 2, 3, 4]);
+    expect(buffer.byteLength).toBe(5 * size);
+    expect(buffer.earliestTime).toBe(0);
+    expect(buffer.latestTime).toBe(4);
+  });
+
+  it('should drop the oldest keyframes to stay within the memory budget', () => {
+    const buffer = new KeyframeBuffer(3 * size, 4);
+    for (let time = 0; time < 10; time++) {
+      buffer.push(createKeyframe(time));
+    }
+
+    expect(times(buffer)).toEqual([7, 8, 9]);
+    expect(buffer.byteLength).toBe(3 * size);
+
+    buffer.setMemoryBudget(size);
+    expect(times(buffer)).toEqual([9]);
+  });
+
+  it('should keep a keyframe larger than the budget on its own', () => {
+    const buffer = new KeyframeBuffer(size);
+    buffer.push(createKeyframe(0));
+    buffer.push(createKeyframe(1, 10));
+
+    expect(times(buffer)).toEqual([1]);
+  });
+
+  it('should find the latest keyframe at or before a time', () => {
+    const buffer = new KeyframeBuffer(3 * size, 4);
+    for (let time = 0; time < 6; time++) {
+      buffer.push(createKeyframe(2 * time));
+    }
+
+    expect(buffer.latestAtOrBefore(7.5).physics.time).toBe(6);
+    expect(buffer.latestAtOrBefore(8).physics.time).toBe(8);
+    expect(buffer.latestAtOrBefore(100).physics.time).toBe(10);
+    expect(buffer.latestAtOrBefore(0).physics.time).toBe(6);
+    expect(new KeyframeBuffer().latestAtOrBefore(0)).toBeNull();
+  });
+
+  it('should discard the keyframes after a time', () => {
+    const buffer = new KeyframeBuffer(Infinity, 4);
+    for (let time = 0; time < 6; time++) {
+      buffer.push(createKeyframe(time));
+    }
+
+    buffer.discardAfter(2.5);
+    expect(times(buffer)).toEqual([0, 1, 2]);
+    expect(buffer.byteLength).toBe(3 * size);
+
+    buffer.push(createKeyframe(3));
+    expect(times(buffer)).toEqual([0, 1, 2, 3]);
+
+    buffer.clear();
+    expect(buffer.length).toBe(0);
+    expect(buffer.earliestTime).toBeNaN();
+  });
+});
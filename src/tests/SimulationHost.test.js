@@ -0,0 +1,319 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PhysicsEngine } from '../Physics.js';
+import { CollisionMode } from '../Collisions.js';
+import { IntegratorType } from '../Integrators.js';
+import { MultipoleOrder } from '../BarnesHut.js';
+import { SofteningKernel } from '../Softening.js';
+import { SimulationHost } from '../SimulationHost.js';
+import { predictTrajectory } from '../Trajectory.js';
+import { Vec3 } from '../Vec3.js';
+import { createBody } from './helpers.js';
+
+describe('SimulationHost', () => {
+  const settings = {
+    G: 1.0,
+    useBarnesHut: false,
+    barnesHutTheta: 0.5,
+    barnesHutOrder: MultipoleOrder.Quadrupole,
+    integrator: IntegratorType.VelocityVerlet,
+    softeningLength: 0.1,
+    softeningKernel: SofteningKernel.Spline,
+    collisionMode: CollisionMode.Merge,
+    fragmentCount: 5,
+    minFragmentMass: 0.01,
+    adaptiveTimeStep: false,
+    useBlockTimeSteps: false,
+    timeStepTolerance: 0.05,
+    minTimeStep: 0.0001,
+    maxTimeStep: 0.05,
+    diagnosticsInterval: 1
+  };
+
+  let host;
+  let sun;
+  let planet;
+
+  beforeEach(() => {
+    host = new SimulationHost();
+    host.configure(settings);
+    sun = createBody('sun', 0, { mass: 100, radius: 2 });
+    planet = createBody('planet', 10, { velocity: new Vec3(0, 0, Math.sqrt(10)) });
+    host.addBody(sun);
+    host.addBody(planet);
+  });
+
+  it('should fall back to simulating synchronously without Web Workers', () => {
+    expect(host.usesWorker).toBe(false);
+  });
+
+  it('should match stepping the engine directly', () => {
+    const engine = new PhysicsEngine(1.0, false);
+    engine.setIntegrator(IntegratorType.VelocityVerlet);
+    const reference = [
+      createBody('sun', 0, { mass: 100, radius: 2 }),
+      createBody('planet', 10, { velocity: new Vec3(0, 0, Math.sqrt(10)) })
+    ];
+    reference.forEach(body => engine.addBody(body));
+
+    for (let i = 0; i < 5; i++) {
+      host.step(0.01, 1);
+      engine.update(0.01);
+    }
+    host.interpolate(Infinity);
+
+    expect(planet.position).toEqual(reference[1].position);
+    expect(planet.velocity).toEqual(reference[1].velocity);
+  });
+
+  it('should blend between the last two snapshots', () => {
+    host.step(0.01, 1);
+    host.interpolate(Infinity);
+    const first = planet.position.clone();
+    host.step(0.01, 1);
+    host.interpolate(Infinity);
+    const second = planet.position.clone();
+
+    // Before any time has passed the render still shows the previous snapshot
+    host.interpolate(-Infinity);
+
+    expect(planet.position).toEqual(first);
+    expect(second).not.toEqual(first);
+  });
+
+  it('should not let older snapshots overwrite local edits', () => {
+    host.step(0.01, 1);
+    planet.position.set(20, 0, 0);
+    host.syncBody(planet);
+
+    host.interpolate(Infinity);
+    expect(planet.position).toEqual(new Vec3(20, 0, 0));
+
+    host.step(0.01, 1);
+    host.interpolate(Infinity);
+    expect(planet.position.x).toBeCloseTo(20, 2);
+  });
+
+  it('should not move a held body until it is released', () => {
+    host.holdBody(planet, true);
+    planet.position.set(20, 0, 0);
+    host.syncBody(planet);
+
+    host.step(0.01, 5);
+    host.interpolate(Infinity);
+    expect(planet.position).toEqual(new Vec3(20, 0, 0));
+    expect(sun.position.x).toBeGreaterThan(0); // It still pulls on the others
+
+    planet.velocity.set(0, 0, 1);
+    host.syncBody(planet);
+    host.holdBody(planet, false);
+    host.step(0.01, 5);
+    host.interpolate(Infinity);
+    expect(planet.position.z).toBeCloseTo(0.05, 2);
+    expect(planet.isStatic).toBe(false);
+  });
+
+  it('should not blend held or just edited bodies between snapshots', () => {
+    host.step(0.01, 1);
+    host.holdBody(planet, true);
+    planet.position.set(20, 0, 0);
+    host.step(0.01, 1);
+
+    // The held view stays where it was put, even before the move is synced
+    host.interpolate(-Infinity);
+    expect(planet.position).toEqual(new Vec3(20, 0, 0));
+
+    host.syncBody(planet);
+    host.holdBody(planet, false);
+    host.step(0.01, 1);
+
+    // The previous snapshot predates the release, so the view starts from the latest one
+    host.interpolate(-Infinity);
+    expect(planet.position.x).toBeCloseTo(20, 2);
+  });
+
+  it('should ignore bodies after they are removed', () => {
+    host.removeBody(planet);
+    planet.position.set(5, 5, 5);
+
+    host.step(0.01, 1);
+    host.interpolate(Infinity);
+
+    expect(planet.position).toEqual(new Vec3(5, 5, 5));
+  });
+
+  it('should report collisions with the host views', () => {
+    const events = [];
+    host.onCollision = (event) => events.push(event);
+    const moon = createBody('moon', 10.5, { mass: 0.5 });
+    host.addBody(moon);
+
+    host.step(0.01, 1);
+
+    expect(events.length).toBe(1);
+    expect(events[0].survivor).toBe(planet);
+    expect(events[0].removed).toEqual([moon]);
+    expect(planet.mass).toBe(1.5);
+
+    // The absorbed body is no longer part of the simulation
+    host.step(0.01, 1);
+    host.interpolate(Infinity);
+    expect(events.length).toBe(1);
+  });
+
+  it('should create fragment views with createBody', () => {
+    const events = [];
+    host.onCollision = (event) => events.push(event);
+    host.createBody = (data) => ({ ...data, fragment: true });
+    host.configure({ ...settings, collisionMode: CollisionMode.Fragment });
+    const impactor = createBody('impactor', 10.9, { velocity: new Vec3(-20, 0, 0), mass: 0.5 });
+    host.addBody(impactor);
+
+    host.step(0.001, 1);
+
+    const created = events[0].created;
+    expect(created.length).toBe(5);
+    expect(created.every(body => body.fragment)).toBe(true);
+    // Each fragment gets its own ID, so rewinds and undo can tell them apart
+    expect(new Set(created.map(body => body.id)).size).toBe(5);
+
+    // Fragments are tracked like any other body
+    host.step(0.001, 1);
+    const before = created[0].position.x;
+    host.interpolate(Infinity);
+    expect(created[0].position.x).not.toBe(before);
+  });
+
+  it('should predict trajectories from the simulation state', async () => {
+    const engine = new PhysicsEngine(1.0, false);
+    engine.setIntegrator(IntegratorType.VelocityVerlet);
+    const reference = [
+      createBody('sun', 0, { mass: 100, radius: 2 }),
+      createBody('planet', 10, { velocity: new Vec3(0, 0, Math.sqrt(10)) })
+    ];
+    reference.forEach(body => engine.addBody(body));
+    host.step(0.01, 3);
+    for (let i = 0; i < 3; i++) {
+      engine.update(0.01);
+    }
+    const options = { steps: 40, timeStep: 0.01, sampleInterval: 4 };
+
+    const trajectory = await host.predictTrajectory(planet, options);
+
+    expect(trajectory).toEqual(predictTrajectory(engine.bodies, reference[1], settings, options));
+
+    // Bodies that are not in the simulation can be predicted without adding them
+    const probe = createBody('probe', -10, { velocity: new Vec3(0, 0, 3) });
+    const launch = await host.predictTrajectory(probe, options);
+    expect(launch.count).toBe(11);
+    expect(launch.points[0]).toBe(-10);
+    host.step(0.01, 1);
+    engine.update(0.01);
+    host.interpolate(Infinity);
+    expect(planet.position).toEqual(reference[1].position);
+  });
+
+  describe('rewinding', () => {
+    beforeEach(() => {
+      host.configureRewind({ keyframeInterval: 0.02, memoryBudget: Infinity });
+    });
+
+    it('should record keyframes while stepping', () => {
+      for (let i = 0; i < 5; i++) {
+        host.step(0.02, 1);
+      }
+
+      expect(host.time).toBeCloseTo(0.1, 12);
+      expect(host.earliestKeyframe).toBe(0);
+      expect(host.latestKeyframe).toBeCloseTo(0.1, 12);
+    });
+
+    it('should go back to a keyframe and discard the keyframes after it when stepping on', () => {
+      host.step(0.02, 3);
+      host.interpolate(Infinity);
+      const position = planet.position.clone();
+      host.step(0.02, 5);
+
+      host.rewind(0.07);
+      expect(host.time).toBeCloseTo(0.06, 12);
+      expect(host.latestKeyframe).toBeCloseTo(0.16, 12);
+      expect(planet.position).toEqual(position);
+
+      host.step(0.02, 1);
+      expect(host.latestKeyframe).toBeCloseTo(0.08, 12);
+      host.rewind(0.15);
+      expect(host.time).toBeCloseTo(0.08, 12);
+    });
+
+    it('should forget the old run when the clock is reset', () => {
+      const events = [];
+      host.onRewind = (event) => events.push(event);
+      host.step(0.02, 5);
+
+      host.resetTime();
+      expect(host.time).toBe(0);
+      expect(host.earliestKeyframe).toBeNaN();
+      expect(host.latestKeyframe).toBeNaN();
+
+      // Keyframes start again from the reset, and a rewind cannot reach before it
+      host.step(0.02, 2);
+      host.interpolate(Infinity);
+      const position = planet.position.clone();
+      expect(host.earliestKeyframe).toBe(0);
+      host.step(0.02, 2);
+      host.rewind(0.04);
+      expect(host.time).toBeCloseTo(0.04, 12);
+      expect(planet.position).toEqual(position);
+      host.rewind(0);
+      expect(host.time).toBe(0);
+      expect(events.every(event => event.removed.length === 0 && event.created.length === 0)).toBe(true);
+    });
+
+    it('should answer a rewind with nothing recorded yet', () => {
+      const events = [];
+      host.onRewind = (event) => events.push(event);
+
+      host.rewind(0);
+
+      expect(events).toEqual([{ time: 0, removed: [], created: [] }]);
+      expect(host.rewindsPending).toBe(0);
+    });
+
+    it('should remove bodies added after the keyframe and recreate absorbed ones', () => {
+      const events = [];
+      host.onRewind = (event) => events.push(event);
+      host.createBody = (data) => ({ ...data, restored: true });
+      const moon = createBody('moon', 10.5, { mass: 0.5 });
+      host.addBody(moon);
+      host.step(0.05, 1); // Keyframe with the moon, then the planet absorbs it
+      const comet = createBody('comet', -30);
+      host.addBody(comet);
+
+      host.rewind(0);
+
+      expect(events[0].removed).toEqual([comet]);
+      expect(events[0].created.length).toBe(1);
+      const restored = events[0].created[0];
+      expect(restored.restored).toBe(true);
+      expect(restored.name).toBe('moon');
+      expect(restored.position.x).toBe(10.5);
+      expect(planet.mass).toBe(1);
+
+      // The recreated body is simulated again
+      host.step(0.001, 1);
+      host.interpolate(Infinity);
+      expect(restored.position.x).not.toBe(10.5);
+    });
+  });
+
+  it('should report diagnostics with vector momenta', () => {
+    let latest = null;
+    host.onDiagnostics = (snapshot) => {
+      latest = snapshot;
+    };
+
+    host.resetDiagnostics();
+
+    expect(latest.totalEnergy).toBeLessThan(0);
+    expect(latest.angularMomentum.length()).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from '../Physics.js';
+import { SimulationState } from '../SimulationState.js';
+import { Vec3 } from '../Vec3.js';
+import { createBody } from './helpers.js';
+
+describe('SimulationState', () => {
+  it('should store bodies in struct-of-arrays layout', () => {
+    const state = new SimulationState();
+    state.add(createBody('a', 1, { velocity: new Vec3(0, 0, 1) }));
+    state.add(createBody('b', 2, { mass: 5, isStatic: true, velocity: new Vec3(0, 0, 2) }));
+
+    expect(state.count).toBe(2);
+    expect(Array.from(state.positions.subarray(0, 6))).toEqual([1, 0, 0, 2, 0, 0]);
+    expect(Array.from(state.velocities.subarray(0, 6))).toEqual([0, 0, 1, 0, 0, 2]);
+    expect(state.masses[1]).toBe(5);
+    expect(state.isStatic(0)).toBe(false);
+    expect(state.isStatic(1)).toBe(true);
+  });
+
+  it('should grow past its initial capacity', () => {
+    const state = new SimulationState(2);
+    for (let i = 0; i < 5; i++) {
+      state.add(createBody(`body ${i}`, i));
+    }
+
+    expect(state.capacity).toBeGreaterThanOrEqual(5);
+    expect(state.positions[3 * 4]).toBe(4);
+  });
+
+  it('should preserve order when removing', () => {
+    const state = new SimulationState();
+    ['a', 'b', 'c'].forEach((name, i) => state.add(createBody(name, i + 1)));
+
+    state.remove(1);
+
+    expect(state.count).toBe(2);
+    expect(state.positions[0]).toBe(1);
+    expect(state.positions[3]).toBe(3);
+  });
+
+  it('should copy motion back into a view', () => {
+    const state = new SimulationState();
+    const body = createBody('a', 1, { velocity: new Vec3(0, 0, 1) });
+    state.add(body);
+    state.positions[1] = 7;
+    state.velocities[0] = -2;
+
+    state.readMotion(0, body);
+
+    expect(body.position).toEqual(new Vec3(1, 7, 0));
+    expect(body.velocity).toEqual(new Vec3(-2, 0, 1));
+  });
+
+  it('should keep a body held across writes until it is released', () => {
+    const state = new SimulationState();
+    const body = createBody('a', 1);
+    state.add(body);
+
+    state.setHeld(0, true);
+    state.write(0, body);
+    expect(state.isStatic(0)).toBe(true);
+
+    state.setHeld(0, false);
+    expect(state.isStatic(0)).toBe(false);
+
+    // A body added in a freed slot does not inherit the flag
+    state.setHeld(0, true);
+    state.remove(0);
+    state.add(createBody('b', 2));
+    expect(state.isStatic(0)).toBe(false);
+  });
+
+  describe('PhysicsEngine', () => {
+    it('should step plain bodies without Three.js', () => {
+      const physics = new PhysicsEngine(1.0, false);
+      const star = createBody('star', 0, { mass: 100, velocity: new Vec3() });
+      const planet = createBody('planet', 10, { velocity: new Vec3(0, 0, Math.sqrt(10)) });
+      physics.addBody(star);
+      physics.addBody(planet);
+
+      physics.update(0.01);
+
+      expect(planet.position.z).toBeGreaterThan(0);
+      expect(planet.position.x).toBeLessThan(10);
+      expect(planet.position).toEqual(new Vec3(...physics.state.positions.subarray(3, 6)));
+    });
+
+    it('should pick up edits to a view after syncBody()', () => {
+      const physics = new PhysicsEngine(1.0, false);
+      const body = createBody('a', 0);
+      physics.addBody(body);
+
+      body.velocity.set(3, 0, 0);
+      physics.syncBody(body);
+      physics.update(1);
+
+      expect(body.position.x).toBeCloseTo(3, 12);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { PhysicsEngine } from '../Physics.js';
+import { CelestialBody } from '../Body.js';
+import { BarnesHutTree } from '../BarnesHut.js';
+import {
+  SofteningKernel,
+  SPLINE_SUPPORT_FACTOR,
+  softenedForceFactor,
+  softenedPotentialFactor
+} from '../Softening.js';
+
+describe('Softening', () => {
+  const kernels = [SofteningKernel.Plummer, SofteningKernel.Spline];
+
+  describe('Kernels', () => {
+    it('should match the Plummer formulas', () => {
+      const eps = 0.5;
+      const r2 = 2;
+      expect(softenedForceFactor(r2, eps, SofteningKernel.Plummer)).toBeCloseTo((r2 + eps * eps) ** -1.5, 12);
+      expect(softenedPotentialFactor(r2, eps, SofteningKernel.Plummer)).toBeCloseTo((r2 + eps * eps) ** -0.5, 12);
+    });
+
+    it('should be exactly Newtonian outside the spline support radius', () => {
+      const eps = 0.1;
+      const r = SPLINE_SUPPORT_FACTOR * eps * 1.01;
+      expect(softenedForceFactor(r * r, eps, SofteningKernel.Spline)).toBe(1 / (r * r * r));
+      expect(softenedPotentialFactor(r * r, eps, SofteningKernel.Spline)).toBe(1 / r);
+    });
+
+    it.each(kernels)('%s should be finite at zero separation', (kernel) => {
+      expect(Number.isFinite(softenedForceFactor(0, 0.1, kernel))).toBe(true);
+      // Both kernels give the Plummer central potential depth 1 / eps
+      expect(softenedPotentialFactor(0, 0.1, kernel)).toBeCloseTo(10, 6);
+    });
+
+    it.each(kernels)('%s should reduce to unsoftened gravity with zero length', (kernel) => {
+      expect(softenedForceFactor(4, 0, kernel)).toBeCloseTo(1 / 8, 12);
+      expect(softenedPotentialFactor(4, 0, kernel)).toBeCloseTo(1 / 2, 12);
+      expect(softenedForceFactor(0, 0, kernel)).toBe(0);
+      expect(softenedPotentialFactor(0, 0, kernel)).toBe(0);
+    });
+
+    it.each(kernels)('%s force should be the gradient of its potential', (kernel) => {
+      const eps = 0.2;
+      const h = 1e-6;
+      // Sample inside, across and outside the softened region
+      for (const r of [0.05, 0.2, 0.3, 0.5, 0.7, 1.5]) {
+        const derivative = (softenedPotentialFactor((r + h) ** 2, eps, kernel) -
+          softenedPotentialFactor((r - h) ** 2, eps, kernel)) / (2 * h);
+        expect(-derivative).toBeCloseTo(softenedForceFactor(r * r, eps, kernel) * r, 5);
+      }
+    });
+  });
+
+  describe('PhysicsEngine', () => {
+    /**
+     * Bodies close enough that softening matters
+     */
+    function createCluster(engine) {
+      const positions = [[0, 0, 0], [0.15, 0, 0], [0, 0.2, 0.05], [3, 1, -2], [-4, 0.5, 1]];
+      positions.forEach(([x, y, z], i) => {
+        engine.addBody(new CelestialBody({ mass: 1 + i, position: new THREE.Vector3(x, y, z) }));
+      });
+      return engine;
+    }
+
+    it.each(kernels)('%s should give the same forces with direct summation and Barnes-Hut', (kernel) => {
+      const engine = createCluster(new PhysicsEngine(1.0, false));
+      engine.softeningKernel = kernel;
+      engine.softeningLength = 0.3;
+
+      const bounds = BarnesHutTree.calculateBounds(engine.state, 10);
+      const tree = new BarnesHutTree(engine.state, bounds, 0.01, 0.3, kernel);
+
+      engine.bodies.forEach((body, i) => {
+        const direct = engine.calculateTotalForce(body).divideScalar(body.mass);
+        expect(tree.calculateAcceleration(i, engine.G).distanceTo(direct)).toBeLessThan(1e-9);
+      });
+    });
+
+    it.each(kernels)('%s should conserve energy through a softened close pass', (kernel) => {
+      const engine = new PhysicsEngine(1.0, false);
+      engine.setIntegrator('yoshida4');
+      engine.softeningKernel = kernel;
+      engine.softeningLength = 0.5;
+
+      engine.addBody(new CelestialBody({ mass: 10, position: new THREE.Vector3(-2, 0.1, 0), velocity: new THREE.Vector3(1, 0, 0) }));
+      engine.addBody(new CelestialBody({ mass: 10, position: new THREE.Vector3(2, -0.1, 0), velocity: new THREE.Vector3(-1, 0, 0) }));
+
+      const initialEnergy = engine.getTotalEnergy();
+      for (let i = 0; i < 400; i++) {
+        engine.update(0.01);
+      }
+
+      expect(Math.abs((engine.getTotalEnergy() - initialEnergy) / initialEnergy)).toBeLessThan(1e-3);
+    });
+  });
+});
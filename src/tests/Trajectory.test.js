@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from '../Physics.js';
+import { CollisionMode } from '../Collisions.js';
+import { IntegratorType } from '../Integrators.js';
+import { MultipoleOrder } from '../BarnesHut.js';
+import { SofteningKernel } from '../Softening.js';
+import { applyPhysicsSettings } from '../SimulationProtocol.js';
+import { predictTrajectory } from '../Trajectory.js';
+import { Vec3 } from '../Vec3.js';
+import { createBody } from './helpers.js';
+
+describe('predictTrajectory', () => {
+  const settings = {
+    G: 1.0,
+    useBarnesHut: false,
+    barnesHutTheta: 0.5,
+    barnesHutOrder: MultipoleOrder.Quadrupole,
+    integrator: IntegratorType.VelocityVerlet,
+    softeningLength: 0.1,
+    softeningKernel: SofteningKernel.Spline,
+    collisionMode: CollisionMode.Merge,
+    fragmentCount: 5,
+    minFragmentMass: 0.01,
+    adaptiveTimeStep: false,
+    useBlockTimeSteps: false,
+    timeStepTolerance: 0.05,
+    minTimeStep: 0.0001,
+    maxTimeStep: 0.05,
+    diagnosticsInterval: 1
+  };
+
+  function createSystem() {
+    const sun = createBody('sun', 0, { mass: 100, radius: 2 });
+    const planet = createBody('planet', 10, { velocity: new Vec3(0, 0, Math.sqrt(10)) });
+    return { sun, planet, bodies: [sun, planet] };
+  }
+
+  it('should leave the bodies it is given untouched', () => {
+    const { planet, bodies } = createSystem();
+
+    predictTrajectory(bodies, planet, settings, { steps: 100 });
+
+    expect(planet.position.x).toBe(10);
+    expect(planet.position.z).toBe(0);
+    expect(planet.velocity.z).toBe(Math.sqrt(10));
+  });
+
+  it('should match stepping an engine with the same settings', () => {
+    const { planet, bodies } = createSystem();
+    const trajectory = predictTrajectory(bodies, planet, settings, { steps: 60, timeStep: 0.05, sampleInterval: 3 });
+
+    const physics = new PhysicsEngine(settings.G, settings.useBarnesHut);
+    applyPhysicsSettings(physics, settings);
+    const copies = createSystem();
+    copies.bodies.forEach(body => physics.addBody(body));
+    for (let step = 0; step < 60; step++) {
+      physics.update(0.05);
+    }
+
+    expect(trajectory.count).toBe(21);
+    expect(trajectory.collided).toBe(false);
+    expect(Array.from(trajectory.points.subarray(0, 3))).toEqual([10, 0, 0]);
+    const last = 3 * (trajectory.count - 1);
+    expect(trajectory.points[last]).toBeCloseTo(copies.planet.position.x, 4);
+    expect(trajectory.points[last + 2]).toBeCloseTo(copies.planet.position.z, 4);
+  });
+
+  it('should predict a body that is not part of the system yet', () => {
+    const { bodies } = createSystem();
+    const probe = createBody('probe', -20, { mass: 0.001, velocity: new Vec3(0, 0, -Math.sqrt(5)) });
+
+    const trajectory = predictTrajectory(bodies, probe, settings, { steps: 200, timeStep: 0.05 });
+
+    // A circular orbit stays at its radius
+    expect(trajectory.count).toBeGreaterThan(50);
+    for (let i = 0; i < trajectory.count; i++) {
+      const r = Math.hypot(trajectory.points[3 * i], trajectory.points[3 * i + 1], trajectory.points[3 * i + 2]);
+      expect(r).toBeCloseTo(20, 0);
+    }
+  });
+
+  it('should stop when the body collides', () => {
+    const { bodies } = createSystem();
+    const falling = createBody('falling', -8);
+
+    const trajectory = predictTrajectory(bodies, falling, settings, { steps: 2000, timeStep: 0.05 });
+
+    expect(trajectory.collided).toBe(true);
+    expect(trajectory.count).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as THREE from 'three';
+import { CelestialBody } from '../Body.js';
+import { SimulationHost } from '../SimulationHost.js';
+import { UndoManager, UndoOperationType } from '../UndoManager.js';
+
+describe('UndoManager', () => {
+  let undoManager;
+  let planet;
+
+  beforeEach(() => {
+    undoManager = new UndoManager(10);
+    planet = new CelestialBody({ name: 'planet', mass: 1, radius: 1, position: new THREE.Vector3(10, 0, 0) });
+  });
+
+  it('should keep the states before and after a modification', () => {
+    const before = undoManager.getBodySnapshot(planet);
+    planet.position.set(20, 0, 0);
+    planet.mass = 3;
+    undoManager.recordModifyBody(planet, before);
+
+    const undone = undoManager.undo([planet]);
+    expect(undone.type).toBe(UndoOperationType.ModifyBody);
+    expect(undone.bodySnapshot.position).toEqual({ x: 10, y: 0, z: 0 });
+    expect(undone.afterSnapshot.position).toEqual({ x: 20, y: 0, z: 0 });
+    expect(undone.afterSnapshot.mass).toBe(3);
+    expect(undone.afterSnapshot.id).toBe(before.id);
+
+    expect(undoManager.redo([planet])).toBe(undone);
+  });
+
+  it('should not record a modification that changed nothing', () => {
+    const before = undoManager.getBodySnapshot(planet);
+    undoManager.recordModifyBody(planet, before);
+
+    expect(undoManager.canUndo()).toBe(false);
+  });
+
+  it('should leave a moving body where it is when undoing an edit that kept its motion', () => {
+    planet.velocity.set(0, 0, 1);
+    const before = undoManager.getBodySnapshot(planet);
+    planet.position.set(10, 0, 0.5); // It kept orbiting while the mass was edited
+    planet.mass = 3;
+    undoManager.recordModifyBody(planet, before, true);
+
+    planet.position.set(10, 0, 2);
+    const undone = undoManager.undo([planet]);
+    undoManager.applySnapshot(planet, undone.bodySnapshot, undone.keepMotion);
+    expect(planet.mass).toBe(1);
+    expect(planet.position).toEqual(new THREE.Vector3(10, 0, 2));
+
+    planet.position.set(10, 0, 3);
+    undoManager.applySnapshot(planet, undoManager.redo([planet]).afterSnapshot, undone.keepMotion);
+    expect(planet.mass).toBe(3);
+    expect(planet.position).toEqual(new THREE.Vector3(10, 0, 3));
+  });
+
+  it('should not count motion during an edit that kept it as a modification', () => {
+    const before = undoManager.getBodySnapshot(planet);
+    planet.position.set(10, 0, 0.5);
+    undoManager.recordModifyBody(planet, before, true);
+
+    expect(undoManager.canUndo()).toBe(false);
+  });
+
+  it('should clear the redo stack when a new modification is recorded', () => {
+    undoManager.recordAddBody(planet);
+    undoManager.undo([planet]);
+    expect(undoManager.canRedo()).toBe(true);
+
+    const before = undoManager.getBodySnapshot(planet);
+    planet.radius = 2;
+    undoManager.recordModifyBody(planet, before);
+
+    expect(undoManager.canRedo()).toBe(false);
+  });
+
+  it('should identify bodies by their stable id', () => {
+    undoManager.recordRemoveBody(planet, 0);
+    const { bodySnapshot } = undoManager.undo([]);
+    const restored = undoManager.createBodyFromSnapshot(bodySnapshot);
+    const other = new CelestialBody({ name: 'planet' });
+
+    expect(bodySnapshot.id).toBe(planet.id);
+    expect(restored.id).toBe(planet.id);
+    expect(restored.toJSON().id).toBe(planet.id);
+    expect(other.id).not.toBe(planet.id);
+    expect(undoManager.findBodyById([other, restored], planet.id)).toBe(restored);
+    expect(undoManager.findBodyById([other], planet.id)).toBeNull();
+  });
+
+  it('should bring back textures and the trail of a deleted body', () => {
+    const texture = new THREE.Texture({ width: 1, height: 1 });
+    const normalMap = new THREE.Texture({ width: 1, height: 1 });
+    const textured = new CelestialBody({ name: 'mars', texture, normalMap, textureUrl: 'textures/mars.jpg' });
+    textured.trailPoints = [new THREE.Vector3(1, 2, 3), new THREE.Vector3(4, 5, 6)];
+
+    undoManager.recordRemoveBody(textured, 0);
+    textured.dispose();
+    const { bodySnapshot } = undoManager.undo([]);
+    const restored = undoManager.createBodyFromSnapshot(bodySnapshot);
+
+    expect(restored.texture).not.toBe(texture);
+    expect(restored.texture.source).toBe(texture.source);
+    expect(restored.material.map).toBe(restored.texture);
+    expect(restored.normalMap.source).toBe(normalMap.source);
+    expect(restored.material.normalMap).toBe(restored.normalMap);
+    expect(restored.textureUrl).toBe('textures/mars.jpg');
+    expect(restored.normalMapUrl).toBeNull();
+    expect(restored.trailPoints).toEqual([new THREE.Vector3(1, 2, 3), new THREE.Vector3(4, 5, 6)]);
+  });
+
+  it('should give a deleted body that a rewind brings back its ID and textures', () => {
+    const host = new SimulationHost();
+    host.createBody = (data) => undoManager.recreateBody(data);
+    const events = [];
+    host.onRewind = (event) => events.push(event);
+    const texture = new THREE.Texture({ width: 1, height: 1 });
+    const textured = new CelestialBody({
+      name: 'mars', texture, textureUrl: 'textures/mars.jpg', position: new THREE.Vector3(5, 0, 0)
+    });
+    host.addBody(textured);
+    host.step(0.01, 1); // Records a keyframe with the body at t = 0
+
+    undoManager.recordRemoveBody(textured, 0);
+    host.removeBody(textured);
+    textured.dispose();
+    host.rewind(0);
+
+    const [restored] = events[0].created;
+    expect(restored).not.toBe(textured);
+    expect(restored.id).toBe(textured.id);
+    expect(restored.texture.source).toBe(texture.source);
+    expect(restored.textureUrl).toBe('textures/mars.jpg');
+    expect(restored.position).toEqual(new THREE.Vector3(5, 0, 0));
+  });
+
+  it('should not count a longer trail as a modification', () => {
+    const before = undoManager.getBodySnapshot(planet);
+    planet.trailPoints.push(new THREE.Vector3(10, 0, 0));
+    undoManager.recordModifyBody(planet, before);
+
+    expect(undoManager.canUndo()).toBe(false);
+  });
+
+  describe('history', () => {
+    it('should describe each operation', () => {
+      const moon = new CelestialBody({ name: 'moon', mass: 0.1 });
+      undoManager.recordAddBody(planet);
+
+      let before = undoManager.getBodySnapshot(planet);
+      planet.position.set(12, 0, 0);
+      planet.velocity.set(0, 0, 1);
+      undoManager.recordModifyBody(planet, before);
+
+      before = undoManager.getBodySnapshot(planet);
+      planet.mass = 2;
+      undoManager.recordModifyBody(planet, before);
+
+      before = undoManager.getBodySnapshot(planet);
+      planet.mass = 2.1;
+      undoManager.recordCollision(planet, before, [{ body: moon, index: 1 }]);
+      undoManager.recordRemoveBody(planet, 0);
+
+      expect(undoManager.getUndoStack().map(operation => operation.label))
+        .toEqual(['Added planet', 'Moved planet', 'Edited planet', 'Merged planet and moon', 'Deleted planet']);
+    });
+
+    it('should timestamp operations when they are recorded', () => {
+      const start = Date.now();
+      undoManager.recordAddBody(planet);
+      const { timestamp } = undoManager.getUndoStack()[0];
+
+      expect(timestamp).toBeGreaterThanOrEqual(start);
+      expect(timestamp).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should list undone operations with the next one to redo last', () => {
+      const moon = new CelestialBody({ name: 'moon' });
+      undoManager.recordAddBody(planet);
+      undoManager.recordAddBody(moon);
+      undoManager.undo([planet, moon]);
+      undoManager.undo([planet]);
+
+      expect(undoManager.getUndoStack()).toHaveLength(0);
+      expect(undoManager.getRedoStack().map(operation => operation.label)).toEqual(['Added moon', 'Added planet']);
+    });
+
+    it('should drop the oldest operations when the limit is lowered', () => {
+      for (let i = 0; i < 5; i++) {
+        undoManager.recordAddBody(new CelestialBody({ name: `body ${i}` }));
+      }
+      undoManager.setMaxStackSize(2);
+
+      expect(undoManager.getMaxStackSize()).toBe(2);
+      expect(undoManager.getUndoStack().map(operation => operation.label)).toEqual(['Added body 3', 'Added body 4']);
+
+      undoManager.recordAddBody(planet);
+      expect(undoManager.getUndoStack().map(operation => operation.label)).toEqual(['Added body 4', 'Added planet']);
+    });
+
+    it('should report changes to the stacks once per undo step', () => {
+      let changes = 0;
+      undoManager.onChange = () => changes++;
+
+      undoManager.beginTransaction('Loaded Solar System');
+      undoManager.recordRemoveBody(planet, 0);
+      undoManager.recordAddBody(planet);
+      expect(changes).toBe(0);
+      undoManager.commitTransaction();
+      expect(changes).toBe(1);
+
+      undoManager.undo([planet]);
+      undoManager.redo([planet]);
+      undoManager.setMaxStackSize(5);
+      undoManager.clear();
+      expect(changes).toBe(5);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should group the operations recorded inside into one undo step', () => {
+      const moon = new CelestialBody({ name: 'moon' });
+      undoManager.beginTransaction('Load system');
+      undoManager.recordRemoveBody(planet, 0);
+      undoManager.recordAddBody(moon);
+      undoManager.commitTransaction();
+
+      const undone = undoManager.undo([moon]);
+      expect(undone.type).toBe(UndoOperationType.Transaction);
+      expect(undone.label).toBe('Load system');
+      expect(undone.operations.map(operation => operation.type))
+        .toEqual([UndoOperationType.RemoveBody, UndoOperationType.AddBody]);
+      expect(undoManager.canUndo()).toBe(false);
+    });
+
+    it('should only close on the outermost commit', () => {
+      undoManager.beginTransaction('Restart');
+      undoManager.beginTransaction('Delete planet');
+      undoManager.recordRemoveBody(planet, 0);
+      undoManager.commitTransaction();
+      expect(undoManager.isInTransaction()).toBe(true);
+      undoManager.recordAddBody(planet);
+      undoManager.commitTransaction();
+
+      const undone = undoManager.undo([planet]);
+      expect(undone.label).toBe('Restart');
+      expect(undone.operations).toHaveLength(2);
+    });
+
+    it('should not record an empty transaction', () => {
+      undoManager.beginTransaction('Delete 0 bodies');
+      undoManager.commitTransaction();
+
+      expect(undoManager.canUndo()).toBe(false);
+    });
+  });
+});
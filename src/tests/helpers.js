@@ -0,0 +1,19 @@
+import { Vec3 } from '../Vec3.js';
+
+/**
+ * A plain-object body (no Three.js) at (x, 0, 0) and at rest; `options` overrides any field
+ */
+export function createBody(name, x, options = {}) {
+  return {
+    name,
+    mass: 1,
+    radius: 0.5,
+    isStatic: false,
+    color: 0xffffff,
+    emissive: 0,
+    emissiveIntensity: 0,
+    position: new Vec3(x, 0, 0),
+    velocity: new Vec3(0, 0, 0),
+    ...options
+  };
+}